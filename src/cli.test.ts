@@ -0,0 +1,1088 @@
+import { execSync } from 'node:child_process';
+import { createHash } from 'node:crypto';
+import {
+  mkdir,
+  mkdtemp,
+  readdir,
+  readFile,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+describe('CLI Integration Tests', () => {
+  let tempDir: string;
+  let originalCwd: string;
+
+  beforeEach(async () => {
+    // Create a temporary directory for each test
+    tempDir = await mkdtemp(join(tmpdir(), 'atman-prompts-test-'));
+    originalCwd = process.cwd();
+    process.chdir(tempDir);
+    // The CLI prints plain text markers instead of emoji when NO_COLOR is set
+    vi.stubEnv('NO_COLOR', '');
+  });
+
+  afterEach(async () => {
+    // Clean up: restore original directory and remove temp directory
+    process.chdir(originalCwd);
+    vi.unstubAllEnvs();
+    await rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should execute CLI and create prompt files structure', async () => {
+    // Build the project first to ensure we have the compiled CLI
+    execSync('npm run build', { cwd: originalCwd });
+
+    // Execute the CLI from the built dist directory
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    try {
+      const output = execSync(`node ${cliPath}`, {
+        encoding: 'utf-8',
+        cwd: tempDir,
+      });
+
+      // Verify the output contains expected messages
+      expect(output).toContain('ℹ️  Starting atman-prompts file generation...');
+      expect(output).toContain('✅ Created directory: .prompts');
+      expect(output).toContain('✅ All operations completed successfully!');
+
+      // Verify directory structure was created
+      const promptsDir = join(tempDir, '.prompts');
+      const promptsDirContents = await readdir(promptsDir);
+
+      expect(promptsDirContents).toContain('en');
+      expect(promptsDirContents).toContain('ja');
+
+      // Verify English directory contains template files
+      const enDir = join(promptsDir, 'en');
+      const enFiles = await readdir(enDir);
+      expect(enFiles.length).toBeGreaterThan(0);
+      expect(enFiles.every((file) => file.endsWith('.md'))).toBe(true);
+
+      // Verify Japanese directory contains template files
+      const jaDir = join(promptsDir, 'ja');
+      const jaFiles = await readdir(jaDir);
+      expect(jaFiles.length).toBeGreaterThan(0);
+      expect(jaFiles.every((file) => file.endsWith('.md'))).toBe(true);
+
+      // Verify that files have content
+      if (enFiles.length > 0) {
+        const firstEnFile = join(enDir, enFiles[0]);
+        const content = await readFile(firstEnFile, 'utf-8');
+        expect(content.length).toBeGreaterThan(0);
+      }
+    } catch (error) {
+      console.error('CLI execution failed:', error);
+      throw error;
+    }
+  });
+
+  it('should handle existing files gracefully', async () => {
+    // Build the project first
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    // Run CLI first time
+    execSync(`node ${cliPath}`, { cwd: tempDir });
+
+    // Run CLI second time - should skip existing files
+    const output = execSync(`node ${cliPath}`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+
+    // Should still complete successfully
+    expect(output).toContain('✅ All operations completed successfully!');
+
+    // The exact behavior for skipped files depends on implementation
+    // but it should not fail
+  });
+
+  it('should exit with error code on failure', async () => {
+    // This test simulates a failure scenario
+    // We'll test by trying to run the CLI in a directory where we don't have write permissions
+
+    // Build the project first
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    // Create a read-only directory to simulate permission error
+    // Note: This test might be platform-specific
+    try {
+      // Try to execute in a way that might cause an error
+      // For now, we'll just verify the CLI can handle basic error scenarios
+      const result = execSync(`node ${cliPath}`, {
+        encoding: 'utf-8',
+        cwd: tempDir,
+      });
+
+      // If it succeeds, that's also fine - the CLI should be robust
+      expect(result).toBeDefined();
+    } catch (error) {
+      // If it fails, verify it's a controlled failure with proper exit code
+      if (error instanceof Error && 'status' in error) {
+        expect((error as any).status).toBe(1);
+      }
+    }
+  });
+
+  it('should support CLI options with commander', async () => {
+    // Build the project first
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    // Test --help option
+    const helpOutput = execSync(`node ${cliPath} --help`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+    expect(helpOutput).toContain('CLI tool to generate prompt files');
+    expect(helpOutput).toContain('--output-dir');
+    expect(helpOutput).toContain('--languages');
+    expect(helpOutput).toContain('--verbose');
+
+    // Test --version option
+    const versionOutput = execSync(`node ${cliPath} --version`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+    expect(versionOutput.trim()).toBe('0.1.0');
+
+    // Test custom output directory
+    const customOutput = execSync(
+      `node ${cliPath} --output-dir custom-prompts`,
+      {
+        encoding: 'utf-8',
+        cwd: tempDir,
+      },
+    );
+    expect(customOutput).toContain('✅ Created directory: custom-prompts');
+
+    // Verify custom directory was created
+    const customDir = join(tempDir, 'custom-prompts');
+    const customDirContents = await readdir(customDir);
+    expect(customDirContents).toContain('en');
+    expect(customDirContents).toContain('ja');
+  });
+
+  it('should support verbose mode', async () => {
+    // Build the project first
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    // Test verbose output
+    const verboseOutput = execSync(`node ${cliPath} --verbose`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+
+    expect(verboseOutput).toContain('Starting with options:');
+    expect(verboseOutput).toContain('🔍 Loading templates for language:');
+    expect(verboseOutput).toContain('ℹ️  Loaded 4 template files for language:');
+    expect(verboseOutput).toContain('✅ Created file:');
+  });
+
+  it('should support quiet mode, plain markers and a log file', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    const quietOutput = execSync(`node ${cliPath} --languages en --quiet`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+    expect(quietOutput).toBe('');
+
+    const plainOutput = execSync(
+      `node ${cliPath} --languages en --no-emoji --log-file logs/atman.log`,
+      { encoding: 'utf-8', cwd: tempDir },
+    );
+    expect(plainOutput).toContain(
+      '[info] Starting atman-prompts file generation...',
+    );
+    expect(plainOutput).toContain(
+      '[ok] All operations completed successfully!',
+    );
+    expect(plainOutput).not.toContain('✅');
+
+    const logContent = await readFile(
+      join(tempDir, 'logs', 'atman.log'),
+      'utf-8',
+    );
+    expect(logContent).toContain(
+      'INFO  [info] Starting atman-prompts file generation...',
+    );
+    expect(logContent).toContain(
+      'WARN  [warn] Skipped 4 existing files (preserved):',
+    );
+
+    expect(() =>
+      execSync(`node ${cliPath} list --verbose --quiet`, {
+        encoding: 'utf-8',
+        cwd: tempDir,
+        stdio: 'pipe',
+      }),
+    ).toThrow();
+  });
+
+  it('should substitute template variables passed with --var', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    execSync(`node ${cliPath} --languages en --var language=TypeScript`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+
+    const content = await readFile(
+      join(tempDir, '.prompts', 'en', 'code-review.md'),
+      'utf-8',
+    );
+    expect(content).toContain('Please review the following TypeScript and');
+    expect(content).not.toContain('{{');
+  });
+
+  it('should reject malformed --var assignments', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    expect(() =>
+      execSync(`node ${cliPath} --var missing-separator`, {
+        encoding: 'utf-8',
+        cwd: tempDir,
+        stdio: 'pipe',
+      }),
+    ).toThrow(/expected key=value/);
+  });
+
+  it('should strip front matter unless --keep-front-matter is given', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    execSync(`node ${cliPath} --languages en`, { cwd: tempDir });
+    const stripped = await readFile(
+      join(tempDir, '.prompts', 'en', 'code-review.md'),
+      'utf-8',
+    );
+    expect(stripped.startsWith('# Code Review Prompt Template')).toBe(true);
+
+    execSync(`node ${cliPath} --languages en -o kept --keep-front-matter`, {
+      cwd: tempDir,
+    });
+    const kept = await readFile(
+      join(tempDir, 'kept', 'en', 'code-review.md'),
+      'utf-8',
+    );
+    expect(kept.startsWith('---\ntitle: Code Review')).toBe(true);
+  });
+
+  it('should list available templates with the list command', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    const output = execSync(`node ${cliPath} list`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+    expect(output).toContain('ℹ️  Templates for language: en');
+    expect(output).toContain('📄 code-review.md');
+
+    const jsonOutput = execSync(`node ${cliPath} list --json -l ja`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+    const catalog = JSON.parse(jsonOutput);
+    expect(catalog.languages).toEqual(['ja']);
+    expect(
+      catalog.templates.map((t: { fileName: string }) => t.fileName),
+    ).toContain('debugging.md');
+
+    // Listing must not generate any files
+    await expect(readdir(join(tempDir, '.prompts'))).rejects.toThrow();
+  });
+
+  it('should generate only the selected templates', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    execSync(`node ${cliPath} --templates code-review 'debug*'`, {
+      cwd: tempDir,
+    });
+    const enFiles = await readdir(join(tempDir, '.prompts', 'en'));
+    expect(enFiles.sort()).toEqual(['code-review.md', 'debugging.md']);
+
+    expect(() =>
+      execSync(`node ${cliPath} --templates code-reveiw`, {
+        encoding: 'utf-8',
+        cwd: tempDir,
+        stdio: 'pipe',
+      }),
+    ).toThrow(/Available templates: code-review, debugging/);
+  });
+
+  it('should overwrite or back up existing files on request', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+    const filePath = join(tempDir, '.prompts', 'en', 'debugging.md');
+
+    execSync(`node ${cliPath} -l en -t debugging`, { cwd: tempDir });
+    await writeFile(filePath, 'edited');
+
+    const backupOutput = execSync(
+      `node ${cliPath} -l en -t debugging --backup 2>&1`,
+      {
+        encoding: 'utf-8',
+        cwd: tempDir,
+      },
+    );
+    expect(backupOutput).toMatch(
+      /✏️ {2}\.prompts\/en\/debugging\.md \(~[\d,]+ tokens, backup: /,
+    );
+
+    const files = await readdir(join(tempDir, '.prompts', 'en'));
+    const backupFile = files.find((file) => file.endsWith('.bak'));
+    expect(backupFile).toBeDefined();
+    expect(
+      await readFile(
+        join(tempDir, '.prompts', 'en', backupFile as string),
+        'utf-8',
+      ),
+    ).toBe('edited');
+    expect(await readFile(filePath, 'utf-8')).toContain('Debugging');
+
+    await writeFile(filePath, 'edited again');
+    execSync(`node ${cliPath} -l en -t debugging --force`, { cwd: tempDir });
+    expect(await readFile(filePath, 'utf-8')).toContain('Debugging');
+  });
+
+  it('should only report planned actions with --dry-run', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    const output = execSync(`node ${cliPath} --dry-run`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+
+    expect(output).toContain('ℹ️  Would create directory: .prompts');
+    expect(output).toContain('✅ Would create 8 new prompt files:');
+    expect(output).toContain('📄 .prompts/ja/debugging.md');
+    expect(await readdir(tempDir)).toEqual([]);
+  });
+
+  it('should record generated files in the manifest', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    execSync(`node ${cliPath} -l en`, { cwd: tempDir });
+
+    const manifest = JSON.parse(
+      await readFile(join(tempDir, '.prompts', '.atman-lock.json'), 'utf-8'),
+    );
+    expect(Object.keys(manifest.files)).toEqual([
+      'en/code-review.md',
+      'en/debugging.md',
+      'en/documentation.md',
+      'en/system-prompt.md',
+    ]);
+    expect(manifest.files['en/debugging.md']).toMatchObject({
+      template: 'debugging.md',
+      language: 'en',
+      hash: expect.stringMatching(/^sha256-[0-9a-f]{64}$/),
+    });
+  });
+
+  it('should report drift with the status command', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    execSync(`node ${cliPath} -l en`, { cwd: tempDir });
+    const cleanStatus = execSync(`node ${cliPath} status -l en --check`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+    expect(cleanStatus).toContain('ℹ️  Status: 4 unmodified');
+
+    await writeFile(
+      join(tempDir, '.prompts', 'en', 'debugging.md'),
+      'customized',
+    );
+    const status = JSON.parse(
+      execSync(`node ${cliPath} status -l en --json`, {
+        encoding: 'utf-8',
+        cwd: tempDir,
+      }),
+    );
+    expect(status.drift).toBe(true);
+    expect(
+      status.files.find(
+        (file: { template: string }) => file.template === 'debugging.md',
+      ).state,
+    ).toBe('modified');
+
+    expect(() =>
+      execSync(`node ${cliPath} status -l en --check`, {
+        cwd: tempDir,
+        stdio: 'pipe',
+      }),
+    ).toThrow();
+  });
+
+  it('should merge template updates into edited files with update', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    execSync(`node ${cliPath} -l en`, { cwd: tempDir });
+
+    // Pretend the files were generated from an older template version
+    const manifestPath = join(tempDir, '.prompts', '.atman-lock.json');
+    const promptPath = join(tempDir, '.prompts', 'en', 'debugging.md');
+    const current = await readFile(promptPath, 'utf-8');
+    const base = `${current}Obsolete line\n`;
+    const manifest = JSON.parse(await readFile(manifestPath, 'utf-8'));
+    manifest.files['en/debugging.md'] = {
+      ...manifest.files['en/debugging.md'],
+      hash: `sha256-${createHash('sha256').update(base).digest('hex')}`,
+      templateHash: 'sha256-old',
+      content: base,
+    };
+    await writeFile(manifestPath, JSON.stringify(manifest));
+    const [title, ...rest] = base.split('\n');
+    await writeFile(promptPath, [`${title} (customized)`, ...rest].join('\n'));
+
+    const output = execSync(`node ${cliPath} update -l en`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+
+    expect(output).toContain('✅ Merged template updates into 1 edited files:');
+    const [currentTitle, ...currentRest] = current.split('\n');
+    expect(await readFile(promptPath, 'utf-8')).toBe(
+      [`${currentTitle} (customized)`, ...currentRest].join('\n'),
+    );
+    const updatedManifest = JSON.parse(await readFile(manifestPath, 'utf-8'));
+    expect(updatedManifest.files['en/debugging.md'].content).toBe(current);
+  });
+
+  it('should layer --template-dir templates over the bundled ones', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    await mkdir(join(tempDir, 'company', 'en'), { recursive: true });
+    await writeFile(
+      join(tempDir, 'company', 'en', 'code-review.md'),
+      '# Company code review\n',
+    );
+
+    execSync(`node ${cliPath} -l en --template-dir company`, { cwd: tempDir });
+    expect(
+      await readFile(
+        join(tempDir, '.prompts', 'en', 'code-review.md'),
+        'utf-8',
+      ),
+    ).toBe('# Company code review\n');
+    expect(
+      await readFile(join(tempDir, '.prompts', 'en', 'debugging.md'), 'utf-8'),
+    ).toContain('Debugging');
+
+    const list = execSync(`node ${cliPath} list -l en --template-dir company`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+    expect(list).toMatch(/📄 code-review\.md \(~[\d,]+ tokens\) <company>/);
+    expect(list).toMatch(/📄 debugging\.md .*<bundled>/);
+
+    expect(() =>
+      execSync(`node ${cliPath} list --template-dir missing`, {
+        cwd: tempDir,
+        stdio: 'pipe',
+      }),
+    ).toThrow(/Template directory not found: missing/);
+  });
+
+  it('should resolve partial includes of custom templates', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    await mkdir(join(tempDir, 'company', 'en', '_partials'), {
+      recursive: true,
+    });
+    await writeFile(
+      join(tempDir, 'company', 'en', '_partials', 'tone.md'),
+      'Answer in a {{tone|friendly}} tone.\n',
+    );
+    await writeFile(
+      join(tempDir, 'company', 'en', 'onboarding.md'),
+      '# Onboarding\n\n{{> tone}}\n',
+    );
+
+    execSync(
+      `node ${cliPath} -l en --template-dir company -t onboarding --var tone=formal`,
+      { cwd: tempDir },
+    );
+
+    expect(await readdir(join(tempDir, '.prompts', 'en'))).toEqual([
+      'onboarding.md',
+    ]);
+    expect(
+      await readFile(join(tempDir, '.prompts', 'en', 'onboarding.md'), 'utf-8'),
+    ).toBe('# Onboarding\n\nAnswer in a formal tone.\n');
+  });
+
+  it('should write prompts for the selected export targets', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+    await writeFile(
+      join(tempDir, 'GEMINI.md'),
+      '# My Project\n\nBuild with make.\n',
+    );
+
+    const output = execSync(
+      `node ${cliPath} -l en ja -t code-review --target cursor gemini --on-conflict overwrite`,
+      { encoding: 'utf-8', cwd: tempDir },
+    );
+
+    expect(output).toContain('📄 .cursor/rules/code-review.mdc');
+    expect(await readdir(join(tempDir, '.cursor', 'rules'))).toEqual([
+      'code-review.ja.mdc',
+      'code-review.mdc',
+    ]);
+    expect(
+      await readFile(
+        join(tempDir, '.cursor', 'rules', 'code-review.mdc'),
+        'utf-8',
+      ),
+    ).toMatch(/^---\ndescription: .+\nglobs:\nalwaysApply: false\n---\n/);
+    const gemini = await readFile(join(tempDir, 'GEMINI.md'), 'utf-8');
+    expect(gemini).toMatch(
+      /^# My Project\n\nBuild with make\.\n\n<!-- atman-prompts:start -->\n## Prompts\n\n### Code Review Prompt Template\n/,
+    );
+    expect(gemini.endsWith('<!-- atman-prompts:end -->\n')).toBe(true);
+    // Gemini CLI only reads GEMINI.md, so only the first language is written
+    expect(gemini).not.toContain('コードレビュー');
+    expect(await readdir(tempDir)).not.toContain('GEMINI.ja.md');
+
+    // Later runs replace the section and keep the user's content
+    await writeFile(join(tempDir, 'GEMINI.md'), `${gemini}\n## Notes\nMine.\n`);
+    execSync(
+      `node ${cliPath} -l en -t debugging --target gemini --on-conflict overwrite`,
+      { encoding: 'utf-8', cwd: tempDir },
+    );
+    const updated = await readFile(join(tempDir, 'GEMINI.md'), 'utf-8');
+    expect(updated).toMatch(/^# My Project\n\nBuild with make\.\n\n<!-- /);
+    expect(updated).toContain('### Debugging Assistance Prompt Template');
+    expect(updated).not.toContain('Code Review Prompt Template');
+    expect(
+      updated.endsWith('<!-- atman-prompts:end -->\n\n## Notes\nMine.\n'),
+    ).toBe(true);
+    // The prompts target is not written unless requested
+    expect(await readdir(tempDir)).not.toContain('.prompts');
+  });
+
+  it('should write prompt files with the configured layout', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    execSync(`node ${cliPath} -t code-review --layout flat-suffixed`, {
+      cwd: tempDir,
+    });
+    expect((await readdir(join(tempDir, '.prompts'))).sort()).toEqual([
+      '.atman-lock.json',
+      'code-review.en.md',
+      'code-review.ja.md',
+    ]);
+
+    execSync(
+      `node ${cliPath} -o by-category -l en --layout "{category}/{name}.md"`,
+      { cwd: tempDir },
+    );
+    expect(await readdir(join(tempDir, 'by-category', 'review'))).toEqual([
+      'code-review.md',
+    ]);
+
+    const status = execSync(
+      `node ${cliPath} status -t code-review --layout flat-suffixed --json`,
+      { encoding: 'utf-8', cwd: tempDir },
+    );
+    expect(
+      JSON.parse(status).files.map((file: { state: string }) => file.state),
+    ).toEqual(['unmodified', 'unmodified']);
+
+    // Templates of both languages would be written to the same files
+    expect(() =>
+      execSync(`node ${cliPath} --layout "{category}/{name}.md"`, {
+        cwd: tempDir,
+        stdio: 'pipe',
+      }),
+    ).toThrow(/writes both en\/code-review\.md and ja\/code-review\.md/);
+  });
+
+  it('should print JSON reports and NDJSON events', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+    const run = (args: string) => {
+      try {
+        return execSync(`node ${cliPath} ${args}`, {
+          encoding: 'utf-8',
+          cwd: tempDir,
+          stdio: 'pipe',
+        });
+      } catch (error) {
+        return (error as { stdout: string }).stdout;
+      }
+    };
+
+    const report = JSON.parse(run('-l en -t code-review --json'));
+    expect(report).toEqual(
+      expect.objectContaining({
+        success: true,
+        created: [join('.prompts', 'en', 'code-review.md')],
+        skipped: [],
+        failed: [],
+        errors: [],
+        durationMs: expect.any(Number),
+      }),
+    );
+
+    const events = run('-l en --log-format ndjson')
+      .trim()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(events.map(({ event }) => event)).toEqual([
+      'templates',
+      'file',
+      'file',
+      'file',
+      'file',
+      'summary',
+    ]);
+    expect(events[1]).toEqual(
+      expect.objectContaining({
+        action: 'skipped',
+        path: join('.prompts', 'en', 'code-review.md'),
+      }),
+    );
+    expect(events[5]).toEqual(
+      expect.objectContaining({ success: true, created: 3, skipped: 1 }),
+    );
+
+    // Fatal errors are reported in the requested format as well
+    expect(JSON.parse(run('-l xx --json'))).toEqual(
+      expect.objectContaining({
+        success: false,
+        errors: ['Unknown language(s): xx. Available languages: en, ja'],
+      }),
+    );
+    expect(JSON.parse(run('status -l xx --log-format ndjson'))).toEqual(
+      expect.objectContaining({ event: 'error' }),
+    );
+    expect(JSON.parse(run('--var bad --json'))).toEqual(
+      expect.objectContaining({
+        success: false,
+        errors: [expect.stringContaining('expected key=value')],
+      }),
+    );
+    expect(JSON.parse(run('lint --rule bad --log-format ndjson'))).toEqual(
+      expect.objectContaining({
+        event: 'error',
+        message: expect.stringContaining('expected rule=severity'),
+      }),
+    );
+    await writeFile(join(tempDir, 'atman-prompts.config.json'), '{');
+    expect(JSON.parse(run('list --json'))).toEqual(
+      expect.objectContaining({ success: false }),
+    );
+  });
+
+  it('should read settings from the project configuration file', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    await writeFile(
+      join(tempDir, 'atman-prompts.config.json'),
+      JSON.stringify({
+        outputDir: 'prompts',
+        languages: ['en'],
+        templates: ['code-review'],
+        variables: { language: 'Go' },
+      }),
+    );
+    await mkdir(join(tempDir, 'nested'));
+
+    // Found from a subdirectory, with paths relative to the config file
+    execSync(`node ${cliPath}`, { cwd: join(tempDir, 'nested') });
+    expect(await readdir(join(tempDir, 'prompts', 'en'))).toEqual([
+      'code-review.md',
+    ]);
+    expect(
+      await readFile(join(tempDir, 'prompts', 'en', 'code-review.md'), 'utf-8'),
+    ).toContain('Go');
+
+    // Command line flags override the configuration
+    execSync(`node ${cliPath} -o cli-prompts --var language=Rust`, {
+      cwd: tempDir,
+    });
+    expect(
+      await readFile(
+        join(tempDir, 'cli-prompts', 'en', 'code-review.md'),
+        'utf-8',
+      ),
+    ).toContain('Rust');
+
+    await writeFile(
+      join(tempDir, 'atman-prompts.config.json'),
+      JSON.stringify({ languages: 'en' }),
+    );
+    expect(() =>
+      execSync(`node ${cliPath}`, { cwd: tempDir, stdio: 'pipe' }),
+    ).toThrow(/"languages" must be an array of strings/);
+  });
+
+  it('should estimate tokens and enforce token budgets', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    const list = execSync(`node ${cliPath} list -l en`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+    expect(list).toMatch(/📄 code-review\.md .*\(~[\d,]+ tokens\)/);
+
+    await writeFile(
+      join(tempDir, 'atman-prompts.config.json'),
+      JSON.stringify({
+        languages: ['en'],
+        tokenBudgets: { 'code-review': 10 },
+      }),
+    );
+    const output = execSync(`node ${cliPath} -t code-review 2>&1`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+    expect(output).toMatch(
+      /📏 \.prompts\/en\/code-review\.md: ~[\d,]+ tokens \(budget: 10\)/,
+    );
+
+    // An error severity skips the prompt and fails the run
+    await writeFile(
+      join(tempDir, 'atman-prompts.config.json'),
+      JSON.stringify({
+        languages: ['en'],
+        tokenBudgets: { 'code-review': 10 },
+        lintRules: { 'token-budget': 'error' },
+      }),
+    );
+    await rm(join(tempDir, '.prompts'), { recursive: true, force: true });
+    expect(() =>
+      execSync(`node ${cliPath} -t code-review`, {
+        cwd: tempDir,
+        stdio: 'pipe',
+      }),
+    ).toThrow();
+    expect(await readdir(join(tempDir, '.prompts', 'en'))).toEqual([]);
+  });
+
+  it('should reject unknown languages and fall back to English on request', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    expect(() =>
+      execSync(`node ${cliPath} -l en fr`, { cwd: tempDir, stdio: 'pipe' }),
+    ).toThrow(/Unknown language\(s\): fr\. Available languages: en, ja/);
+    expect(() =>
+      execSync(`node ${cliPath} -l ../escape --fallback --dry-run`, {
+        cwd: tempDir,
+        stdio: 'pipe',
+      }),
+    ).toThrow(/Invalid language code\(s\): \.\.\/escape\./);
+
+    const typo = execSync(`node ${cliPath} -l jp --fallback --dry-run 2>&1`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+    expect(typo).toContain(
+      'No templates found for jp; would generate every prompt from a fallback language',
+    );
+
+    await mkdir(join(tempDir, 'company', 'en'), { recursive: true });
+    await writeFile(
+      join(tempDir, 'company', 'en', 'onboarding.md'),
+      '# Onboarding\n',
+    );
+
+    const output = execSync(
+      `node ${cliPath} -l ja --template-dir company --fallback 2>&1`,
+      { encoding: 'utf-8', cwd: tempDir },
+    );
+
+    expect(output).toMatch(
+      /🌐 \.prompts\/ja\/onboarding\.md \(untranslated, from en, ~[\d,]+ tokens\)/,
+    );
+    expect(
+      await readFile(join(tempDir, '.prompts', 'ja', 'onboarding.md'), 'utf-8'),
+    ).toMatch(/^> \*\*Untranslated:\*\* .*\n\n# Onboarding\n$/);
+    expect(
+      await readFile(join(tempDir, '.prompts', 'ja', 'debugging.md'), 'utf-8'),
+    ).not.toContain('Untranslated');
+  });
+
+  it('should report translation drift with check-i18n', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    const output = execSync(`node ${cliPath} check-i18n`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+    expect(output).toContain('✅ Translations are in sync across: en, ja');
+
+    await mkdir(join(tempDir, 'company', 'ja'), { recursive: true });
+    await writeFile(
+      join(tempDir, 'company', 'ja', 'debugging.md'),
+      '# デバッグ\n\n## 問題\n',
+    );
+
+    const report = JSON.parse(
+      (() => {
+        try {
+          execSync(`node ${cliPath} check-i18n --template-dir company --json`, {
+            encoding: 'utf-8',
+            cwd: tempDir,
+            stdio: 'pipe',
+          });
+          return '{}';
+        } catch (error) {
+          expect((error as { status: number }).status).toBe(1);
+          return (error as { stdout: string }).stdout;
+        }
+      })(),
+    );
+    expect(report.issues).toEqual([
+      expect.objectContaining({
+        template: 'debugging.md',
+        language: 'ja',
+        kind: 'headings',
+      }),
+    ]);
+  });
+
+  it('should lint templates with the lint command', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    await mkdir(join(tempDir, 'company', 'en'), { recursive: true });
+    await writeFile(
+      join(tempDir, 'company', 'en', 'broken.md'),
+      '---\nnot a field\n---\n# Broken\n',
+    );
+    await writeFile(
+      join(tempDir, 'company', 'en', 'another.md'),
+      '# Another\n\n{{> missing}}\n',
+    );
+
+    const run = (args: string) => {
+      try {
+        return {
+          status: 0,
+          stdout: execSync(`node ${cliPath} lint ${args}`, {
+            encoding: 'utf-8',
+            cwd: tempDir,
+            stdio: 'pipe',
+          }),
+        };
+      } catch (error) {
+        const { status, stdout } = error as { status: number; stdout: string };
+        return { status, stdout };
+      }
+    };
+
+    const bundled = run('-l en --json');
+    expect(bundled.status).toBe(0);
+    expect(JSON.parse(bundled.stdout).errorCount).toBe(0);
+
+    const custom = run('-l en --template-dir company --json');
+    expect(custom.status).toBe(1);
+    expect(JSON.parse(custom.stdout).issues).toContainEqual(
+      expect.objectContaining({
+        template: 'broken.md',
+        source: 'company',
+        rule: 'front-matter',
+        severity: 'error',
+      }),
+    );
+    expect(JSON.parse(custom.stdout).issues).toContainEqual(
+      expect.objectContaining({
+        template: 'another.md',
+        rule: 'partial-include',
+        message: expect.stringContaining('Failed to resolve includes'),
+      }),
+    );
+
+    const relaxed = run(
+      '-l en --template-dir company --rule front-matter=off --rule partial-include=off',
+    );
+    expect(relaxed.status).toBe(0);
+    expect(relaxed.stdout).not.toContain('front-matter');
+  });
+
+  it('should set up a project with init from the flags alone', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    const output = execSync(
+      `node ${cliPath} init --output-dir prompts --languages en --templates code-review --var language=Go`,
+      { encoding: 'utf-8', cwd: tempDir },
+    );
+
+    expect(output).toContain('📄 Templates: code-review');
+    expect(output).toContain('✅ Wrote configuration:');
+    expect(output).toContain('✅ Created 1 new prompt files:');
+    expect(
+      JSON.parse(
+        await readFile(join(tempDir, 'atman-prompts.config.json'), 'utf-8'),
+      ),
+    ).toEqual({
+      outputDir: 'prompts',
+      languages: ['en'],
+      templates: ['code-review'],
+      variables: { language: 'Go' },
+    });
+    expect(await readdir(join(tempDir, 'prompts', 'en'))).toEqual([
+      'code-review.md',
+    ]);
+
+    // The written configuration is used by later runs
+    const statusOutput = execSync(`node ${cliPath} status --json`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+    expect(JSON.parse(statusOutput).files).toHaveLength(1);
+
+    const rerun = () =>
+      execSync(`node ${cliPath} init --languages en`, {
+        encoding: 'utf-8',
+        cwd: tempDir,
+        stdio: 'pipe',
+      });
+    expect(rerun).toThrow('Configuration file already exists');
+
+    const forced = execSync(
+      `node ${cliPath} init --languages en --force --json`,
+      { encoding: 'utf-8', cwd: tempDir },
+    );
+    expect(JSON.parse(forced)).toMatchObject({
+      success: true,
+      configPath: join(tempDir, 'atman-prompts.config.json'),
+      created: expect.arrayContaining([join('.prompts', 'en', 'debugging.md')]),
+    });
+  });
+
+  it('should scaffold a new template in every language', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+
+    const output = execSync(`node ${cliPath} new api-design`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+
+    expect(output).toContain('✅ Created 2 template files:');
+    expect(output).toContain(`📄 ${join('templates', 'ja', 'api-design.md')}`);
+    expect(
+      await readFile(
+        join(tempDir, 'templates', 'en', 'api-design.md'),
+        'utf-8',
+      ),
+    ).toContain('## Output Format');
+
+    // The new template is picked up from the template directory
+    const listOutput = execSync(
+      `node ${cliPath} list --template-dir templates --json`,
+      { encoding: 'utf-8', cwd: tempDir },
+    );
+    expect(JSON.parse(listOutput).templates).toContainEqual(
+      expect.objectContaining({
+        fileName: 'api-design.md',
+        language: 'ja',
+        source: 'templates',
+      }),
+    );
+
+    const fail = (args: string) => {
+      try {
+        execSync(`node ${cliPath} new ${args}`, {
+          encoding: 'utf-8',
+          cwd: tempDir,
+          stdio: 'pipe',
+        });
+        return '';
+      } catch (error) {
+        return (error as { stderr: string }).stderr;
+      }
+    };
+    expect(fail('api-design')).toContain('Template already exists');
+    expect(fail('Api_Design')).toContain('Invalid template name "Api_Design"');
+  });
+
+  it('should render a prompt with attached input to stdout', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+    await writeFile(join(tempDir, 'app.py'), 'print("hi")\n');
+
+    const output = execSync(
+      `node ${cliPath} render code-review --var language=Python --input app.py -`,
+      { encoding: 'utf-8', cwd: tempDir, input: 'extra notes' },
+    );
+
+    expect(output).toMatch(/^# Code Review Prompt Template\n/);
+    expect(output).toContain('Please review the following Python and');
+    expect(output).toContain('`app.py`\n\n```python\nprint("hi")\n```\n');
+    expect(output.endsWith('`stdin`\n\n```\nextra notes\n```\n')).toBe(true);
+    expect(output).not.toContain('ℹ️');
+
+    const japanese = execSync(`node ${cliPath} render code-review --lang ja`, {
+      encoding: 'utf-8',
+      cwd: tempDir,
+    });
+    expect(japanese).toContain('# コードレビュープロンプトテンプレート');
+
+    expect(() =>
+      execSync(`node ${cliPath} render missing`, {
+        encoding: 'utf-8',
+        cwd: tempDir,
+        stdio: 'pipe',
+      }),
+    ).toThrow('Unknown template "missing" for language en');
+  });
+
+  it('should resolve context directives when rendering', async () => {
+    execSync('npm run build', { cwd: originalCwd });
+    const cliPath = join(originalCwd, 'dist', 'cli.js');
+    await mkdir(join(tempDir, 'templates', 'en'), { recursive: true });
+    await writeFile(
+      join(tempDir, 'templates', 'en', 'explain.md'),
+      '# Explain\n\n{{@file src/app.py:2}}\n\n{{@tree src}}\n',
+    );
+    await mkdir(join(tempDir, 'src'));
+    await writeFile(join(tempDir, 'src', 'app.py'), 'import os\nprint("hi")\n');
+
+    const output = execSync(
+      `node ${cliPath} render explain --template-dir templates`,
+      { encoding: 'utf-8', cwd: tempDir },
+    );
+
+    expect(output).toBe(
+      '# Explain\n\n```python\nprint("hi")\n```\n\n```text\nsrc/\n└── app.py\n```\n',
+    );
+    expect(() =>
+      execSync(`node ${cliPath} render explain --template-dir .`, {
+        encoding: 'utf-8',
+        cwd: join(tempDir, 'templates'),
+        stdio: 'pipe',
+      }),
+    ).toThrow('Failed to resolve {{@file src/app.py:2}}: File not found');
+  });
+});
@@ -0,0 +1,1778 @@
+#!/usr/bin/env node
+
+import { join } from 'node:path';
+import { Command, Option } from 'commander';
+import { resolveTemplateContext } from './lib/context-directives.js';
+import { createDirectoryStructure } from './lib/directory-manager.js';
+import {
+  DEFAULT_EXPORT_TARGET,
+  EXPORT_TARGETS,
+  type ExportTarget,
+} from './lib/export-targets.js';
+import {
+  CONFLICT_POLICIES,
+  type ConflictPolicy,
+  type ConflictResolution,
+  type ConflictResolver,
+  checkFileExists,
+  type FileCreationResult,
+} from './lib/file-operations.js';
+import {
+  findInitVariables,
+  type InitChoices,
+  runInitWizard,
+  toInitConfig,
+} from './lib/init-wizard.js';
+import { askQuestions, isInteractive } from './lib/interactive.js';
+import { FALLBACK_LANGUAGE } from './lib/language-support.js';
+import {
+  configureLogger,
+  isLevelEnabled,
+  LOG_LEVELS,
+  log,
+  logDiffPreview,
+  logDirectoryCreation,
+  logInitSummary,
+  logLintReport,
+  logParityReport,
+  logPromptStatus,
+  logResults,
+  logScaffoldedTemplates,
+  logTemplateCatalog,
+  logTemplateLoading,
+  logWelcome,
+} from './lib/logger.js';
+import {
+  getManifestKey,
+  type ManifestEntry,
+  readManifest,
+  writeManifest,
+} from './lib/manifest.js';
+import { DEFAULT_LAYOUT, LAYOUT_PRESETS } from './lib/output-layout.js';
+import { getPackageVersion } from './lib/package-info.js';
+import {
+  CONFIG_FILE_NAME,
+  findProjectConfig,
+  type LoadedProjectConfig,
+  type ProjectConfig,
+  writeProjectConfig,
+} from './lib/project-config.js';
+import {
+  checkLanguages,
+  checkLayout,
+  checkTemplateDirs,
+  DEFAULT_LANGUAGES,
+  DEFAULT_OUTPUT_DIR,
+  generatePrompts,
+  getLoadFailureResults,
+  loadLanguageTemplates,
+  selectLanguageTemplates,
+  type TemplateSourceOptions,
+  type VariableResolver,
+} from './lib/prompt-generation.js';
+import {
+  findTemplate,
+  readPromptInputs,
+  renderPrompt,
+  STDIN_INPUT,
+} from './lib/prompt-render.js';
+import {
+  collectPromptStatus,
+  hasDrift,
+  type StatusOptions,
+} from './lib/prompt-status.js';
+import { type UpdateOptions, updatePromptFile } from './lib/prompt-update.js';
+import {
+  LOG_FORMATS,
+  type LogFormat,
+  type OutputFormat,
+  summarizeFiles,
+  toFileReports,
+  writeEvent,
+  writeFileEvents,
+  writeFileSummaryEvent,
+  writeJsonReport,
+} from './lib/structured-output.js';
+import { buildTemplateCatalog } from './lib/template-catalog.js';
+import {
+  EMPTY_SELECTION,
+  type TemplateSelection,
+} from './lib/template-filter.js';
+import {
+  discoverTemplateFiles,
+  discoverTemplateLanguages,
+  loadTemplatesFromRepository,
+  type PromptTemplate,
+  readTemplateSource,
+  resolveIncludes,
+} from './lib/template-generator.js';
+import {
+  LINT_RULES,
+  type LintFile,
+  type LintRuleConfig,
+  type LintSeverity,
+  lintTemplates,
+  parseRuleAssignments,
+} from './lib/template-lint.js';
+import {
+  type ScaffoldOptions,
+  scaffoldTemplate,
+} from './lib/template-scaffold.js';
+import {
+  parseVariableAssignments,
+  type TemplateVariables,
+} from './lib/template-variables.js';
+import { diffLines, formatDiff } from './lib/text-diff.js';
+import type { TokenBudgets } from './lib/token-estimate.js';
+import { checkTranslationParity } from './lib/translation-parity.js';
+
+// Configuration constants
+const PROMPTS_CONFIG = {
+  baseDirectory: DEFAULT_OUTPUT_DIR,
+  supportedLanguages: DEFAULT_LANGUAGES,
+} as const;
+
+type CliOptions = TemplateSourceOptions & {
+  readonly outputDir: string;
+  /** Layout preset or file name pattern of the prompt files */
+  readonly layout: string;
+  readonly variables: TemplateVariables;
+  readonly keepFrontMatter: boolean;
+  readonly selection: TemplateSelection;
+  readonly conflictPolicy: ConflictPolicy;
+  readonly dryRun: boolean;
+  /** Tools to write the prompts for */
+  readonly targets: readonly ExportTarget[];
+  readonly tokenBudgets: TokenBudgets;
+  /** How exceeded token budgets are reported; errors skip the file */
+  readonly tokenBudgetSeverity: LintSeverity;
+  /** Format of the command output */
+  readonly output: OutputFormat;
+  /** The project configuration file in use, if any */
+  readonly configPath?: string;
+};
+
+const CONFLICT_ANSWERS: Readonly<Record<string, ConflictResolution>> = {
+  s: 'skip',
+  skip: 'skip',
+  o: 'overwrite',
+  overwrite: 'overwrite',
+  b: 'backup',
+  backup: 'backup',
+};
+
+type ListOptions = {
+  readonly languages?: readonly string[];
+  readonly templateDirs: readonly string[];
+  readonly tokenBudgets: TokenBudgets;
+  readonly output: OutputFormat;
+};
+
+type I18nCheckOptions = {
+  /** Languages to compare; defaults to every template language */
+  readonly languages?: readonly string[];
+  readonly templateDirs: readonly string[];
+  readonly output: OutputFormat;
+};
+
+type LintOptions = {
+  /** Languages to lint; defaults to every template language */
+  readonly languages?: readonly string[];
+  readonly templateDirs: readonly string[];
+  readonly rules: LintRuleConfig;
+  readonly tokenBudgets: TokenBudgets;
+  readonly output: OutputFormat;
+};
+
+type StatusCommandOptions = StatusOptions &
+  TemplateSourceOptions & {
+    readonly selection: TemplateSelection;
+    readonly output: OutputFormat;
+    readonly check: boolean;
+  };
+
+type InitCommandOptions = {
+  /** The choices made with the flags, the defaults of the wizard */
+  readonly choices: InitChoices;
+  readonly templateDirs: readonly string[];
+  /** Replace an existing configuration file */
+  readonly force: boolean;
+  readonly output: OutputFormat;
+};
+
+type NewTemplateOptions = ScaffoldOptions & {
+  readonly name: string;
+  readonly output: OutputFormat;
+};
+
+type RenderCommandOptions = {
+  /** Name of the template to render */
+  readonly template: string;
+  readonly language: string;
+  readonly templateDirs: readonly string[];
+  readonly variables: TemplateVariables;
+  /** Files to attach; "-" reads standard input */
+  readonly inputs: readonly string[];
+  readonly output: OutputFormat;
+};
+
+type UpdateCommandOptions = UpdateOptions &
+  TemplateSourceOptions & {
+    readonly selection: TemplateSelection;
+    readonly output: OutputFormat;
+  };
+
+/**
+ * Collect repeated option values into an array
+ */
+const collectValues = (value: string, previous: readonly string[]) => [
+  ...previous,
+  value,
+];
+
+/**
+ * Parse --var assignments, exiting with an error in the output format when
+ * malformed
+ */
+const parseVariablesOrExit = (
+  assignments: readonly string[],
+  output: OutputFormat,
+): TemplateVariables => {
+  try {
+    return parseVariableAssignments(assignments);
+  } catch (error) {
+    return exitWithFatalError(error, output, Date.now());
+  }
+};
+
+/**
+ * Create the --log-format option; every command needs its own instance
+ */
+const createLogFormatOption = (): Option =>
+  new Option(
+    '--log-format <format>',
+    'print text or one JSON event per line (ndjson)',
+  )
+    .choices(LOG_FORMATS)
+    .default('text')
+    .conflicts('json');
+
+/**
+ * Add the options controlling the level, presentation and destination of
+ * log messages
+ */
+const addLoggingOptions = (command: Command): Command =>
+  command
+    .addOption(
+      new Option('-v, --verbose', 'log debug messages (--log-level debug)')
+        .implies({ logLevel: 'debug' })
+        .conflicts('quiet'),
+    )
+    .addOption(
+      new Option(
+        '-q, --quiet',
+        'only log warnings and errors (--log-level warn)',
+      ).implies({ logLevel: 'warn' }),
+    )
+    .addOption(
+      new Option('--log-level <level>', 'minimum level of logged messages')
+        .choices(LOG_LEVELS)
+        .default('info'),
+    )
+    .option('--no-emoji', 'use plain text markers instead of emoji')
+    .option('--no-color', 'disable colored output')
+    .option('--log-file <path>', 'also write the log messages to a file');
+
+/**
+ * Configure the logger from the logging options of a command
+ */
+const configureLoggerFromOptions = (command: Command): void => {
+  const options = command.opts();
+
+  try {
+    configureLogger({
+      level: options.logLevel,
+      // Without the flags, NO_COLOR and the terminal decide
+      ...(!options.emoji && { emoji: false }),
+      ...(!options.color && { color: false }),
+      ...(options.logFile && { logFile: options.logFile }),
+    });
+  } catch (error) {
+    exitWithFatalError(
+      error,
+      toOutputFormat({ json: options.json, logFormat: options.logFormat }),
+      Date.now(),
+    );
+  }
+};
+
+/**
+ * Determine the output format from --json and --log-format
+ */
+const toOutputFormat = (options: {
+  readonly json: boolean;
+  readonly logFormat: LogFormat;
+}): OutputFormat => (options.json ? 'json' : options.logFormat);
+
+/**
+ * Find the project configuration, exiting with an error in the output format
+ * when invalid
+ */
+const loadProjectConfigOrExit = async (
+  output: OutputFormat,
+): Promise<LoadedProjectConfig | undefined> => {
+  try {
+    return await findProjectConfig();
+  } catch (error) {
+    return exitWithFatalError(error, output, Date.now());
+  }
+};
+
+/**
+ * Pick an option value: flags given on the command line win over the
+ * project configuration, which wins over the built-in defaults
+ */
+const fromCliOrConfig = <T>(
+  command: Command,
+  name: string,
+  configValue: T | undefined,
+): T => {
+  const source = command.getOptionValueSource(name);
+  const isDefault = source === undefined || source === 'default';
+  return isDefault && configValue !== undefined
+    ? configValue
+    : command.getOptionValue(name);
+};
+
+/**
+ * Build the template selection from the selection flags and the configuration
+ */
+const toTemplateSelection = (
+  command: Command,
+  config: ProjectConfig,
+): TemplateSelection => ({
+  include: fromCliOrConfig(command, 'templates', config.templates) ?? [],
+  exclude: fromCliOrConfig(command, 'exclude', config.exclude) ?? [],
+  tags: fromCliOrConfig(command, 'tag', config.tags) ?? [],
+});
+
+/**
+ * Merge the configured variables with --var assignments, which take precedence
+ */
+const resolveVariablesOrExit = (
+  assignments: readonly string[],
+  config: ProjectConfig,
+  output: OutputFormat,
+): TemplateVariables => ({
+  ...config.variables,
+  ...parseVariablesOrExit(assignments, output),
+});
+
+/**
+ * Create the resolver of template variables without a value, which asks the
+ * user for them when the run is interactive
+ */
+const createVariableResolver =
+  (interactive: boolean): VariableResolver =>
+  async (missing) => {
+    if (!interactive) {
+      throw new Error(
+        `Unresolved template variables: ${missing.join(', ')}. Provide them with --var <key=value>`,
+      );
+    }
+
+    const answers = await askQuestions(
+      missing.map((name) => `Value for {{${name}}}: `),
+    );
+
+    return Object.fromEntries(
+      missing.map((name, index) => [name, answers[index]]),
+    );
+  };
+
+/**
+ * Ask the user how to handle an existing file, showing a diff preview first
+ */
+const askConflictResolution: ConflictResolver = async (
+  filePath,
+  existingContent,
+  newContent,
+) => {
+  logDiffPreview(filePath, formatDiff(diffLines(existingContent, newContent)));
+
+  const [answer] = await askQuestions([
+    `Overwrite ${filePath}? [s]kip / [o]verwrite / [b]ackup and overwrite: `,
+  ]);
+  const key = answer.toLowerCase();
+  const resolution = Object.hasOwn(CONFLICT_ANSWERS, key)
+    ? CONFLICT_ANSWERS[key]
+    : undefined;
+
+  return (
+    resolution ?? askConflictResolution(filePath, existingContent, newContent)
+  );
+};
+
+/**
+ * Determine the conflict policy from --on-conflict and its shortcut flags
+ */
+const toConflictPolicy = (options: {
+  readonly onConflict: ConflictPolicy;
+  readonly force?: boolean;
+  readonly backup?: boolean;
+}): ConflictPolicy => {
+  if (options.backup) {
+    return 'backup';
+  }
+  if (options.force) {
+    return 'overwrite';
+  }
+  return options.onConflict;
+};
+
+/**
+ * Log the outcome of each written or failed file at the debug level
+ */
+const logFileResults = (
+  results: readonly FileCreationResult[],
+  dryRun: boolean,
+): void => {
+  for (const result of results) {
+    if (!result.success) {
+      log('error', `Failed to create ${result.path}: ${result.error}`, 'debug');
+    } else if (result.skipped) {
+      log(
+        'warn',
+        `${dryRun ? 'Would skip' : 'Skipped'} existing file: ${result.path}`,
+        'debug',
+      );
+    } else if (result.overwritten) {
+      log(
+        'warn',
+        `${dryRun ? 'Would overwrite' : 'Overwrote'} existing file: ${result.path}`,
+        'debug',
+      );
+    } else {
+      log(
+        'success',
+        `${dryRun ? 'Would create' : 'Created'} file: ${result.path}`,
+        'debug',
+      );
+    }
+  }
+};
+
+/**
+ * Report the error that ended a command in its output format and exit
+ */
+const exitWithFatalError = (
+  error: unknown,
+  output: OutputFormat,
+  startTime: number,
+): never => {
+  const errorMessage =
+    error instanceof Error ? error.message : 'Unknown error occurred';
+
+  if (output === 'json') {
+    writeJsonReport({ success: false, errors: [errorMessage] }, startTime);
+  } else if (output === 'ndjson') {
+    writeEvent({ event: 'error', message: errorMessage });
+  } else {
+    log('error', `Fatal error: ${errorMessage}`);
+  }
+  process.exit(1);
+};
+
+/**
+ * Report the results of a command that wrote prompt files
+ */
+const reportFileResults = (
+  results: readonly FileCreationResult[],
+  options: {
+    readonly output: OutputFormat;
+    readonly dryRun: boolean;
+    readonly success: boolean;
+    readonly startTime: number;
+    readonly outputDir: string;
+    readonly createdDirs?: readonly string[];
+    /** The project configuration file in use, if any */
+    readonly configPath?: string;
+    /** Languages without templates, generated from a fallback language */
+    readonly untranslatedLanguages?: readonly string[];
+  },
+): void => {
+  const { output, dryRun, success, startTime } = options;
+
+  if (output === 'json') {
+    writeJsonReport(
+      {
+        success,
+        dryRun,
+        outputDir: options.outputDir,
+        ...(options.createdDirs && { createdDirs: options.createdDirs }),
+        ...(options.configPath && { configPath: options.configPath }),
+        ...summarizeFiles(results),
+        files: toFileReports(results),
+        errors: [],
+      },
+      startTime,
+    );
+  } else if (output === 'ndjson') {
+    writeFileEvents(results);
+    writeFileSummaryEvent(results, startTime, { success, dryRun });
+  } else {
+    logResults(results, {
+      dryRun,
+      untranslatedLanguages: options.untranslatedLanguages ?? [],
+    });
+  }
+};
+
+/**
+ * Main CLI function that generates the prompt files and reports the results
+ */
+const main = async (options: CliOptions): Promise<void> => {
+  const startTime = Date.now();
+  const text = options.output === 'text';
+
+  try {
+    if (text) {
+      // Welcome message
+      logWelcome();
+    }
+
+    if (text && options.configPath) {
+      log('debug', `Using configuration: ${options.configPath}`);
+    }
+
+    if (text && isLevelEnabled('debug')) {
+      log(
+        'debug',
+        `Starting with options: ${JSON.stringify({
+          outputDir: options.outputDir,
+          layout: options.layout,
+          languages: options.languages,
+          templateDirs: options.templateDirs,
+          fallback: options.fallback,
+          variables: options.variables,
+          keepFrontMatter: options.keepFrontMatter,
+          selection: options.selection,
+          conflictPolicy: options.conflictPolicy,
+          dryRun: options.dryRun,
+          targets: options.targets,
+          tokenBudgets: options.tokenBudgets,
+        })}`,
+      );
+      options.languages.forEach((language) => {
+        log('debug', `Loading templates for language: ${language}`);
+      });
+    }
+
+    // Questions would mix with machine-readable output on stdout
+    const interactive = text && isInteractive();
+    if (options.conflictPolicy === 'ask' && !options.dryRun && !interactive) {
+      throw new Error(
+        'The "ask" conflict policy requires an interactive terminal',
+      );
+    }
+
+    const report = await generatePrompts({
+      ...options,
+      resolveVariables: createVariableResolver(interactive),
+      resolveConflict: askConflictResolution,
+    });
+
+    if (options.output === 'ndjson') {
+      report.createdDirs.forEach((path) => {
+        writeEvent({ event: 'directory', action: 'created', path });
+      });
+      report.languages.forEach(({ language, templates }) => {
+        writeEvent({ event: 'templates', language, count: templates });
+      });
+    }
+
+    if (text && options.targets.includes('prompts')) {
+      if (options.dryRun) {
+        report.createdDirs.forEach((dir) => {
+          logDirectoryCreation(dir, true, true);
+        });
+      } else {
+        logDirectoryCreation(
+          report.outputDir,
+          report.createdDirs.includes(report.outputDir),
+        );
+      }
+    }
+
+    if (text) {
+      report.languages.forEach(({ language, templates }) => {
+        logTemplateLoading(language, templates);
+      });
+    }
+
+    if (text && isLevelEnabled('debug')) {
+      logFileResults(report.results, options.dryRun);
+      if (report.manifestPath) {
+        log('debug', `Updated manifest: ${report.manifestPath}`);
+      }
+    }
+
+    // Report results in the requested format
+    reportFileResults(report.results, {
+      output: options.output,
+      dryRun: options.dryRun,
+      success: report.success,
+      startTime,
+      outputDir: report.outputDir,
+      createdDirs: report.createdDirs,
+      ...(options.configPath && { configPath: options.configPath }),
+      untranslatedLanguages: report.languages
+        .filter(({ untranslated }) => untranslated)
+        .map(({ language }) => language),
+    });
+
+    // Check if there were any errors and exit with appropriate code
+    if (!report.success) {
+      process.exit(1);
+    }
+  } catch (error) {
+    exitWithFatalError(error, options.output, startTime);
+  }
+};
+
+/**
+ * List the available templates per language
+ */
+const listTemplates = async (options: ListOptions): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    await checkTemplateDirs(options.templateDirs);
+    if (options.languages) {
+      await checkLanguages(options.languages, options.templateDirs);
+    }
+
+    const catalog = await buildTemplateCatalog(
+      options.languages,
+      options.templateDirs,
+      options.tokenBudgets,
+    );
+    const success = catalog.errors.length === 0;
+
+    if (options.output === 'json') {
+      writeJsonReport({ success, ...catalog }, startTime);
+    } else if (options.output === 'ndjson') {
+      catalog.templates.forEach((template) => {
+        writeEvent({ event: 'template', ...template });
+      });
+      catalog.errors.forEach((message) => {
+        writeEvent({ event: 'error', message });
+      });
+      writeEvent({
+        event: 'summary',
+        success,
+        templates: catalog.templates.length,
+        durationMs: Date.now() - startTime,
+      });
+    } else {
+      logTemplateCatalog(catalog);
+    }
+
+    if (!success) {
+      process.exit(1);
+    }
+  } catch (error) {
+    exitWithFatalError(error, options.output, startTime);
+  }
+};
+
+/**
+ * Compare the language versions of the templates and report translation drift
+ */
+const checkTranslations = async (options: I18nCheckOptions): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    await checkTemplateDirs(options.templateDirs);
+    const languages =
+      options.languages ??
+      (await discoverTemplateLanguages(options.templateDirs));
+    await checkLanguages(languages, options.templateDirs);
+
+    // Translations are compared with the fallback language when it is checked
+    const orderedLanguages = languages.includes(FALLBACK_LANGUAGE)
+      ? [
+          FALLBACK_LANGUAGE,
+          ...languages.filter((language) => language !== FALLBACK_LANGUAGE),
+        ]
+      : languages;
+
+    const templatesByLanguage = new Map<string, readonly PromptTemplate[]>();
+    const loadErrors: { language: string; error?: string }[] = [];
+    for (const language of orderedLanguages) {
+      const result = await loadTemplatesFromRepository(
+        language,
+        options.templateDirs,
+      );
+      if (!result.success) {
+        loadErrors.push({ language, error: result.error });
+      }
+      templatesByLanguage.set(language, result.templates);
+    }
+
+    const report = checkTranslationParity(templatesByLanguage);
+    const success = report.issues.length === 0 && loadErrors.length === 0;
+
+    if (options.output === 'json') {
+      writeJsonReport({ success, ...report, errors: loadErrors }, startTime);
+    } else if (options.output === 'ndjson') {
+      report.issues.forEach((issue) => {
+        writeEvent({ event: 'issue', ...issue });
+      });
+      loadErrors.forEach(({ language, error }) => {
+        writeEvent({
+          event: 'error',
+          language,
+          message: `Failed to load templates for ${language}: ${error}`,
+        });
+      });
+      writeEvent({
+        event: 'summary',
+        success,
+        languages: report.languages,
+        issues: report.issues.length,
+        durationMs: Date.now() - startTime,
+      });
+    } else {
+      logParityReport(report);
+      loadErrors.forEach(({ language, error }) => {
+        log('error', `Failed to load templates for ${language}: ${error}`);
+      });
+    }
+
+    if (!success) {
+      process.exit(1);
+    }
+  } catch (error) {
+    exitWithFatalError(error, options.output, startTime);
+  }
+};
+
+/**
+ * Read the template files of every language, along with their content as
+ * it would be used for generation. Files whose includes fail are kept
+ * unresolved with the error.
+ */
+const collectLintFiles = async (
+  languages: readonly string[],
+  templateDirs: readonly string[],
+): Promise<readonly LintFile[]> => {
+  const files: LintFile[] = [];
+
+  for (const language of languages) {
+    for (const fileName of await discoverTemplateFiles(
+      language,
+      templateDirs,
+    )) {
+      const { content, source } = await readTemplateSource(
+        fileName,
+        language,
+        templateDirs,
+      );
+      try {
+        files.push({
+          fileName,
+          language,
+          source,
+          content,
+          resolvedContent: await resolveIncludes(
+            fileName,
+            content,
+            language,
+            templateDirs,
+          ),
+        });
+      } catch (error) {
+        // Lint the file as it is, reporting the broken include
+        files.push({
+          fileName,
+          language,
+          source,
+          content,
+          includeError: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  return files;
+};
+
+/**
+ * Check the template files against the lint rules
+ */
+const lintTemplateFiles = async (options: LintOptions): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    await checkTemplateDirs(options.templateDirs);
+    const languages =
+      options.languages ??
+      (await discoverTemplateLanguages(options.templateDirs));
+    await checkLanguages(languages, options.templateDirs);
+
+    const report = lintTemplates(
+      await collectLintFiles(languages, options.templateDirs),
+      options.rules,
+      options.tokenBudgets,
+    );
+    const success = report.errorCount === 0;
+
+    if (options.output === 'json') {
+      writeJsonReport({ success, ...report }, startTime);
+    } else if (options.output === 'ndjson') {
+      report.issues.forEach((issue) => {
+        writeEvent({ event: 'issue', ...issue });
+      });
+      writeEvent({
+        event: 'summary',
+        success,
+        files: report.files,
+        errorCount: report.errorCount,
+        warningCount: report.warningCount,
+        durationMs: Date.now() - startTime,
+      });
+    } else {
+      logLintReport(report);
+    }
+
+    if (!success) {
+      process.exit(1);
+    }
+  } catch (error) {
+    exitWithFatalError(error, options.output, startTime);
+  }
+};
+
+/**
+ * Show the state of the generated prompt files compared to the templates
+ */
+const showStatus = async (options: StatusCommandOptions): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    const languageTemplates = selectLanguageTemplates(
+      await loadLanguageTemplates(options),
+      options.selection,
+    );
+    const loadErrors = languageTemplates
+      .filter(({ result }) => !result.success)
+      .map(({ language, result }) => ({ language, error: result.error }));
+    checkLayout(
+      options.outputDir,
+      options.layout ?? DEFAULT_LAYOUT,
+      languageTemplates,
+    );
+    const manifest = await readManifest(options.outputDir);
+
+    const statuses = await collectPromptStatus(
+      languageTemplates.flatMap(({ result }) => result.templates),
+      manifest,
+      options,
+    );
+    const drift = hasDrift(statuses);
+    const success = loadErrors.length === 0 && !(options.check && drift);
+
+    if (options.output === 'json') {
+      writeJsonReport(
+        {
+          success,
+          outputDir: options.outputDir,
+          drift,
+          files: statuses,
+          errors: loadErrors,
+        },
+        startTime,
+      );
+    } else if (options.output === 'ndjson') {
+      statuses.forEach((status) => {
+        writeEvent({ event: 'file', ...status });
+      });
+      loadErrors.forEach(({ language, error }) => {
+        writeEvent({
+          event: 'error',
+          language,
+          message: `Failed to load templates for ${language}: ${error}`,
+        });
+      });
+      writeEvent({
+        event: 'summary',
+        success,
+        drift,
+        files: statuses.length,
+        durationMs: Date.now() - startTime,
+      });
+    } else {
+      logPromptStatus(statuses);
+      loadErrors.forEach(({ language, error }) => {
+        log('error', `Failed to load templates for ${language}: ${error}`);
+      });
+      if (options.check && drift) {
+        log('error', 'Prompt files differ from the templates');
+      }
+    }
+
+    if (!success) {
+      process.exit(1);
+    }
+  } catch (error) {
+    exitWithFatalError(error, options.output, startTime);
+  }
+};
+
+/**
+ * Update generated prompt files to the current templates
+ */
+const updatePrompts = async (options: UpdateCommandOptions): Promise<void> => {
+  const startTime = Date.now();
+  const text = options.output === 'text';
+
+  try {
+    if (text) {
+      logWelcome();
+    }
+
+    const languageTemplates = selectLanguageTemplates(
+      await loadLanguageTemplates(options),
+      options.selection,
+    );
+    const manifest = await readManifest(options.outputDir);
+    const manifestFiles: Record<string, ManifestEntry> = { ...manifest.files };
+
+    await createDirectoryStructure(
+      options.outputDir,
+      checkLayout(
+        options.outputDir,
+        options.layout ?? DEFAULT_LAYOUT,
+        languageTemplates,
+      ),
+      { dryRun: options.dryRun },
+    );
+
+    const allResults: FileCreationResult[] = [];
+
+    for (const { language, result } of languageTemplates) {
+      allResults.push(...getLoadFailureResults(language, result));
+      if (!result.success && result.templates.length === 0) {
+        continue;
+      }
+
+      if (text) {
+        logTemplateLoading(language, result.templates.length);
+      } else if (options.output === 'ndjson') {
+        writeEvent({
+          event: 'templates',
+          language,
+          count: result.templates.length,
+        });
+      }
+
+      for (const template of result.templates) {
+        const outcome = await updatePromptFile(template, manifest, options);
+        allResults.push({
+          ...outcome.result,
+          ...(template.fallbackLanguage !== undefined && {
+            fallbackLanguage: template.fallbackLanguage,
+          }),
+        });
+
+        if (outcome.entry) {
+          manifestFiles[
+            getManifestKey(options.outputDir, outcome.result.path)
+          ] = outcome.entry;
+        }
+      }
+    }
+
+    if (!options.dryRun) {
+      await writeManifest(options.outputDir, {
+        ...manifest,
+        files: manifestFiles,
+      });
+    }
+
+    const hasErrors = allResults.some(
+      (result) => !result.success || (result.conflicts ?? 0) > 0,
+    );
+    reportFileResults(allResults, {
+      output: options.output,
+      dryRun: options.dryRun,
+      success: !hasErrors,
+      startTime,
+      outputDir: options.outputDir,
+      untranslatedLanguages: languageTemplates
+        .filter(({ untranslated }) => untranslated)
+        .map(({ language }) => language),
+    });
+
+    if (hasErrors) {
+      process.exit(1);
+    }
+  } catch (error) {
+    exitWithFatalError(error, options.output, startTime);
+  }
+};
+
+/**
+ * Set up a project: collect the choices with the wizard on a terminal or
+ * from the flags alone, write the configuration file and generate the
+ * prompt files
+ */
+const initProject = async (options: InitCommandOptions): Promise<void> => {
+  const startTime = Date.now();
+  const text = options.output === 'text';
+  const interactive = text && isInteractive();
+  const { templateDirs } = options;
+
+  try {
+    const configPath = join(process.cwd(), CONFIG_FILE_NAME);
+    if (!options.force && (await checkFileExists(configPath)).exists) {
+      throw new Error(
+        `Configuration file already exists: ${configPath}. Use --force to replace it`,
+      );
+    }
+
+    await checkTemplateDirs(templateDirs);
+    const loadTemplates = async (languages: readonly string[]) =>
+      (
+        await loadLanguageTemplates({
+          languages,
+          templateDirs,
+          fallback: false,
+        })
+      ).flatMap(({ result }) => result.templates);
+
+    const choices = interactive
+      ? await runInitWizard(options.choices, {
+          ask: askQuestions,
+          availableLanguages: await discoverTemplateLanguages(templateDirs),
+          loadTemplates,
+        })
+      : options.choices;
+
+    // Check the choices before anything is written
+    const selected = selectLanguageTemplates(
+      await loadLanguageTemplates({
+        languages: choices.languages,
+        templateDirs,
+        fallback: false,
+      }),
+      { ...EMPTY_SELECTION, include: choices.templates },
+    );
+    const missing = findInitVariables(
+      selected.flatMap(({ result }) => result.templates),
+      choices.variables,
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `Unresolved template variables: ${missing.map(({ name }) => name).join(', ')}. Provide them with --var <key=value>`,
+      );
+    }
+
+    if (text) {
+      logInitSummary(choices);
+    }
+
+    if (interactive) {
+      const [answer] = await askQuestions([
+        'Write the configuration and generate the prompt files? [Y/n]: ',
+      ]);
+      if (/^n/i.test(answer)) {
+        log('info', 'Setup cancelled: nothing was written.');
+        return;
+      }
+    }
+
+    await writeProjectConfig(
+      {
+        ...toInitConfig(choices),
+        ...(templateDirs.length > 0 && { templateDirs }),
+      },
+      process.cwd(),
+      options.force,
+    );
+
+    if (text) {
+      log('success', `Wrote configuration: ${configPath}`);
+    } else if (options.output === 'ndjson') {
+      writeEvent({ event: 'config', path: configPath });
+    }
+
+    await main({
+      outputDir: choices.outputDir,
+      layout: DEFAULT_LAYOUT,
+      languages: choices.languages,
+      templateDirs,
+      fallback: false,
+      variables: choices.variables,
+      keepFrontMatter: false,
+      selection: { ...EMPTY_SELECTION, include: choices.templates },
+      conflictPolicy: 'skip',
+      dryRun: false,
+      targets: [DEFAULT_EXPORT_TARGET],
+      tokenBudgets: {},
+      tokenBudgetSeverity: LINT_RULES['token-budget'].severity,
+      output: options.output,
+      configPath,
+    });
+  } catch (error) {
+    exitWithFatalError(error, options.output, startTime);
+  }
+};
+
+/**
+ * Create a new template in every language of a template root
+ */
+const createTemplate = async (options: NewTemplateOptions): Promise<void> => {
+  const startTime = Date.now();
+
+  try {
+    const templates = await scaffoldTemplate(options.name, options);
+
+    if (options.output === 'json') {
+      writeJsonReport({ success: true, templates, errors: [] }, startTime);
+    } else if (options.output === 'ndjson') {
+      templates.forEach((template) => {
+        writeEvent({ event: 'file', action: 'created', ...template });
+      });
+      writeEvent({
+        event: 'summary',
+        success: true,
+        created: templates.length,
+        durationMs: Date.now() - startTime,
+      });
+    } else {
+      logScaffoldedTemplates(templates);
+    }
+  } catch (error) {
+    exitWithFatalError(error, options.output, startTime);
+  }
+};
+
+/**
+ * Render a single prompt with its inputs attached and print it to stdout
+ */
+const renderSinglePrompt = async (
+  options: RenderCommandOptions,
+): Promise<void> => {
+  const startTime = Date.now();
+  const { language, templateDirs } = options;
+
+  try {
+    await checkTemplateDirs(templateDirs);
+    await checkLanguages([language], templateDirs);
+
+    const template = await findTemplate(
+      options.template,
+      language,
+      templateDirs,
+    );
+    const inputs = await readPromptInputs(options.inputs);
+    const context = await resolveTemplateContext(template);
+    const { content, unresolved } = renderPrompt(
+      context.template,
+      { ...options.variables, ...context.variables },
+      inputs,
+    );
+    if (unresolved.length > 0) {
+      throw new Error(
+        `Unresolved template variables: ${unresolved.join(', ')}. Provide them with --var <key=value>`,
+      );
+    }
+
+    if (options.output === 'json') {
+      writeJsonReport(
+        {
+          success: true,
+          template: template.fileName,
+          language,
+          source: template.source,
+          inputs: inputs.map((input) => input.name),
+          content,
+          errors: [],
+        },
+        startTime,
+      );
+    } else if (options.output === 'ndjson') {
+      writeEvent({
+        event: 'prompt',
+        template: template.fileName,
+        language,
+        content,
+      });
+      writeEvent({
+        event: 'summary',
+        success: true,
+        durationMs: Date.now() - startTime,
+      });
+    } else {
+      process.stdout.write(content);
+    }
+  } catch (error) {
+    exitWithFatalError(error, options.output, startTime);
+  }
+};
+
+/**
+ * Setup and configure the CLI using Commander.js
+ */
+const setupCli = (): void => {
+  const program = new Command();
+
+  program
+    .name('atman-prompts')
+    .enablePositionalOptions()
+    .description(
+      'CLI tool to generate prompt files in a structured directory format',
+    )
+    .version('0.1.0')
+    .option(
+      '-o, --output-dir <dir>',
+      'output directory for prompt files',
+      PROMPTS_CONFIG.baseDirectory,
+    )
+    .option(
+      '--layout <layout>',
+      `layout of the prompt files: ${Object.keys(LAYOUT_PRESETS).join(', ')} or a pattern such as "{category}/{name}.{lang}.md"`,
+      DEFAULT_LAYOUT,
+    )
+    .option(
+      '-l, --languages <languages...>',
+      'languages to generate (space-separated)',
+      [...PROMPTS_CONFIG.supportedLanguages],
+    )
+    .option(
+      '--template-dir <dir>',
+      'additional template directory, searched before the bundled templates (repeatable)',
+      collectValues,
+      [],
+    )
+    .option(
+      '--fallback',
+      `use the ${FALLBACK_LANGUAGE} version of templates missing in a language`,
+      false,
+    )
+    .option(
+      '-t, --templates <names...>',
+      'only generate these templates (names or glob patterns)',
+    )
+    .option(
+      '-x, --exclude <names...>',
+      'skip these templates (names or glob patterns)',
+    )
+    .option('--tag <tags...>', 'only generate templates with one of these tags')
+    .addOption(
+      new Option(
+        '--target <targets...>',
+        'tools to write the prompts for (space-separated)',
+      )
+        .choices(EXPORT_TARGETS)
+        .default([DEFAULT_EXPORT_TARGET]),
+    )
+    .addOption(
+      new Option('--on-conflict <policy>', 'how to handle existing files')
+        .choices(CONFLICT_POLICIES)
+        .default('skip'),
+    )
+    .option('-f, --force', 'overwrite existing files (--on-conflict overwrite)')
+    .option(
+      '--backup',
+      'back up existing files before overwriting (--on-conflict backup)',
+    )
+    .option(
+      '--var <key=value>',
+      'set a template variable (repeatable)',
+      collectValues,
+      [],
+    )
+    .option(
+      '--keep-front-matter',
+      'keep template front matter in the generated files',
+      false,
+    )
+    .option(
+      '--dry-run',
+      'report the planned file actions without writing anything',
+      false,
+    )
+    .option('--json', 'print a JSON report of the results', false)
+    .addOption(createLogFormatOption())
+    .action(async (options, command: Command) => {
+      const loaded = await loadProjectConfigOrExit(toOutputFormat(options));
+      const config = loaded?.config ?? {};
+      const languages = fromCliOrConfig(command, 'languages', config.languages);
+
+      const cliOptions: CliOptions = {
+        outputDir: fromCliOrConfig(command, 'outputDir', config.outputDir),
+        layout: fromCliOrConfig(command, 'layout', config.layout),
+        languages: Array.isArray(languages)
+          ? languages
+          : PROMPTS_CONFIG.supportedLanguages,
+        templateDirs: fromCliOrConfig(
+          command,
+          'templateDir',
+          config.templateDirs,
+        ),
+        variables: resolveVariablesOrExit(
+          options.var,
+          config,
+          toOutputFormat(options),
+        ),
+        keepFrontMatter: fromCliOrConfig(
+          command,
+          'keepFrontMatter',
+          config.keepFrontMatter,
+        ),
+        selection: toTemplateSelection(command, config),
+        fallback: fromCliOrConfig(command, 'fallback', config.fallback),
+        conflictPolicy: toConflictPolicy({
+          ...options,
+          onConflict: fromCliOrConfig(command, 'onConflict', config.onConflict),
+        }),
+        dryRun: options.dryRun,
+        targets: fromCliOrConfig(command, 'target', config.targets),
+        tokenBudgets: config.tokenBudgets ?? {},
+        tokenBudgetSeverity:
+          config.lintRules?.['token-budget'] ??
+          LINT_RULES['token-budget'].severity,
+        output: toOutputFormat(options),
+        ...(loaded && { configPath: loaded.path }),
+      };
+
+      try {
+        await main(cliOptions);
+      } catch (error) {
+        console.error('Unexpected error:', error);
+        process.exit(1);
+      }
+    });
+
+  program
+    .command('list')
+    .description('list the available templates per language')
+    .option('-l, --languages <languages...>', 'languages to list')
+    .option(
+      '--template-dir <dir>',
+      'additional template directory, searched before the bundled templates (repeatable)',
+      collectValues,
+      [],
+    )
+    .option('--json', 'print the template list as JSON', false)
+    .addOption(createLogFormatOption())
+    .action(async (options, command: Command) => {
+      const config =
+        (await loadProjectConfigOrExit(toOutputFormat(options)))?.config ?? {};
+
+      await listTemplates({
+        languages: fromCliOrConfig(command, 'languages', config.languages),
+        templateDirs: fromCliOrConfig(
+          command,
+          'templateDir',
+          config.templateDirs,
+        ),
+        tokenBudgets: config.tokenBudgets ?? {},
+        output: toOutputFormat(options),
+      });
+    });
+
+  program
+    .command('check-i18n')
+    .description(
+      'check that the language versions of every template are in sync',
+    )
+    .option(
+      '-l, --languages <languages...>',
+      'languages to compare (default: all template languages)',
+    )
+    .option(
+      '--template-dir <dir>',
+      'additional template directory, searched before the bundled templates (repeatable)',
+      collectValues,
+      [],
+    )
+    .option('--json', 'print the issues as JSON', false)
+    .addOption(createLogFormatOption())
+    .action(async (options, command: Command) => {
+      const config =
+        (await loadProjectConfigOrExit(toOutputFormat(options)))?.config ?? {};
+
+      await checkTranslations({
+        languages: options.languages,
+        templateDirs: fromCliOrConfig(
+          command,
+          'templateDir',
+          config.templateDirs,
+        ),
+        output: toOutputFormat(options),
+      });
+    });
+
+  program
+    .command('lint')
+    .description('check the template files for common problems')
+    .option(
+      '-l, --languages <languages...>',
+      'languages to lint (default: all template languages)',
+    )
+    .option(
+      '--template-dir <dir>',
+      'additional template directory, searched before the bundled templates (repeatable)',
+      collectValues,
+      [],
+    )
+    .option(
+      '--rule <rule=severity>',
+      'set a rule to error, warning or off (repeatable)',
+      collectValues,
+      [],
+    )
+    .option('--json', 'print the issues as JSON', false)
+    .addOption(createLogFormatOption())
+    .action(async (options, command: Command) => {
+      const config =
+        (await loadProjectConfigOrExit(toOutputFormat(options)))?.config ?? {};
+
+      let rules: LintRuleConfig;
+      try {
+        rules = { ...config.lintRules, ...parseRuleAssignments(options.rule) };
+      } catch (error) {
+        return exitWithFatalError(error, toOutputFormat(options), Date.now());
+      }
+
+      await lintTemplateFiles({
+        languages: options.languages,
+        templateDirs: fromCliOrConfig(
+          command,
+          'templateDir',
+          config.templateDirs,
+        ),
+        rules,
+        tokenBudgets: config.tokenBudgets ?? {},
+        output: toOutputFormat(options),
+      });
+    });
+
+  program
+    .command('status')
+    .description(
+      'show which prompt files are missing, unmodified, modified or outdated',
+    )
+    .option(
+      '-o, --output-dir <dir>',
+      'output directory for prompt files',
+      PROMPTS_CONFIG.baseDirectory,
+    )
+    .option(
+      '--layout <layout>',
+      `layout of the prompt files: ${Object.keys(LAYOUT_PRESETS).join(', ')} or a pattern such as "{category}/{name}.{lang}.md"`,
+      DEFAULT_LAYOUT,
+    )
+    .option(
+      '-l, --languages <languages...>',
+      'languages to check (space-separated)',
+      [...PROMPTS_CONFIG.supportedLanguages],
+    )
+    .option(
+      '--template-dir <dir>',
+      'additional template directory, searched before the bundled templates (repeatable)',
+      collectValues,
+      [],
+    )
+    .option(
+      '--fallback',
+      `use the ${FALLBACK_LANGUAGE} version of templates missing in a language`,
+      false,
+    )
+    .option(
+      '-t, --templates <names...>',
+      'only check these templates (names or glob patterns)',
+    )
+    .option(
+      '-x, --exclude <names...>',
+      'skip these templates (names or glob patterns)',
+    )
+    .option('--tag <tags...>', 'only check templates with one of these tags')
+    .option(
+      '--var <key=value>',
+      'template variable used for files missing from the manifest',
+      collectValues,
+      [],
+    )
+    .option(
+      '--keep-front-matter',
+      'compare against templates including their front matter',
+      false,
+    )
+    .option('--json', 'print the status as JSON', false)
+    .addOption(createLogFormatOption())
+    .option('--check', 'exit with code 1 when any file has drifted', false)
+    .action(async (options, command: Command) => {
+      const config =
+        (await loadProjectConfigOrExit(toOutputFormat(options)))?.config ?? {};
+
+      await showStatus({
+        outputDir: fromCliOrConfig(command, 'outputDir', config.outputDir),
+        layout: fromCliOrConfig(command, 'layout', config.layout),
+        languages: fromCliOrConfig(command, 'languages', config.languages),
+        templateDirs: fromCliOrConfig(
+          command,
+          'templateDir',
+          config.templateDirs,
+        ),
+        selection: toTemplateSelection(command, config),
+        fallback: fromCliOrConfig(command, 'fallback', config.fallback),
+        variables: resolveVariablesOrExit(
+          options.var,
+          config,
+          toOutputFormat(options),
+        ),
+        keepFrontMatter: fromCliOrConfig(
+          command,
+          'keepFrontMatter',
+          config.keepFrontMatter,
+        ),
+        output: toOutputFormat(options),
+        check: options.check,
+      });
+    });
+
+  program
+    .command('init')
+    .description(
+      'set up a project configuration, asking on a terminal, and generate the prompt files',
+    )
+    .option(
+      '-o, --output-dir <dir>',
+      'output directory for prompt files',
+      PROMPTS_CONFIG.baseDirectory,
+    )
+    .option(
+      '-l, --languages <languages...>',
+      'languages to generate (space-separated)',
+      [...PROMPTS_CONFIG.supportedLanguages],
+    )
+    .option(
+      '-t, --templates <names...>',
+      'only generate these templates (names or glob patterns)',
+    )
+    .option(
+      '--template-dir <dir>',
+      'additional template directory, searched before the bundled templates (repeatable)',
+      collectValues,
+      [],
+    )
+    .option(
+      '--var <key=value>',
+      'set a template variable (repeatable)',
+      collectValues,
+      [],
+    )
+    .option('-f, --force', 'replace an existing configuration file', false)
+    .option('--json', 'print a JSON report of the results', false)
+    .addOption(createLogFormatOption())
+    .action(async (options) => {
+      await initProject({
+        choices: {
+          outputDir: options.outputDir,
+          languages: options.languages,
+          templates: options.templates ?? [],
+          variables: parseVariablesOrExit(options.var, toOutputFormat(options)),
+        },
+        templateDirs: options.templateDir,
+        force: options.force,
+        output: toOutputFormat(options),
+      });
+    });
+
+  program
+    .command('new')
+    .description(
+      'create a new template with a skeleton in every language directory',
+    )
+    .argument('<name>', 'name of the template, e.g. "api-design"')
+    .option(
+      '--template-dir <dir>',
+      'template directory to create the template in (default: the first configured template directory, or "templates")',
+    )
+    .option(
+      '-l, --languages <languages...>',
+      'languages to create the template in (space-separated)',
+      [...PROMPTS_CONFIG.supportedLanguages],
+    )
+    .option('--json', 'print a JSON report of the created files', false)
+    .addOption(createLogFormatOption())
+    .action(async (name: string, options, command: Command) => {
+      const config =
+        (await loadProjectConfigOrExit(toOutputFormat(options)))?.config ?? {};
+
+      await createTemplate({
+        name,
+        templateDir:
+          options.templateDir ?? config.templateDirs?.[0] ?? 'templates',
+        languages: fromCliOrConfig(command, 'languages', config.languages),
+        output: toOutputFormat(options),
+      });
+    });
+
+  program
+    .command('render')
+    .description(
+      'print a prompt with its variables filled in and files attached, e.g. to pipe it to another tool',
+    )
+    .argument('<template>', 'name of the template, e.g. "code-review"')
+    .option(
+      '--lang <language>',
+      `language of the prompt (default: the first configured language, or ${FALLBACK_LANGUAGE})`,
+    )
+    .option(
+      '--var <key=value>',
+      'set a template variable (repeatable)',
+      collectValues,
+      [],
+    )
+    .option(
+      '-i, --input <paths...>',
+      `files to attach in code blocks; "${STDIN_INPUT}" reads standard input`,
+      [],
+    )
+    .option(
+      '--template-dir <dir>',
+      'additional template directory, searched before the bundled templates (repeatable)',
+      collectValues,
+      [],
+    )
+    .option('--json', 'print a JSON report with the prompt', false)
+    .addOption(createLogFormatOption())
+    .action(async (template: string, options, command: Command) => {
+      const config =
+        (await loadProjectConfigOrExit(toOutputFormat(options)))?.config ?? {};
+
+      await renderSinglePrompt({
+        template,
+        language: options.lang ?? config.languages?.[0] ?? FALLBACK_LANGUAGE,
+        templateDirs: fromCliOrConfig(
+          command,
+          'templateDir',
+          config.templateDirs,
+        ),
+        variables: resolveVariablesOrExit(
+          options.var,
+          config,
+          toOutputFormat(options),
+        ),
+        inputs: options.input,
+        output: toOutputFormat(options),
+      });
+    });
+
+  program
+    .command('update')
+    .description(
+      'update generated prompt files to the current templates, merging local edits',
+    )
+    .option(
+      '-o, --output-dir <dir>',
+      'output directory for prompt files',
+      PROMPTS_CONFIG.baseDirectory,
+    )
+    .option(
+      '--layout <layout>',
+      `layout of the prompt files: ${Object.keys(LAYOUT_PRESETS).join(', ')} or a pattern such as "{category}/{name}.{lang}.md"`,
+      DEFAULT_LAYOUT,
+    )
+    .option(
+      '-l, --languages <languages...>',
+      'languages to update (space-separated)',
+      [...PROMPTS_CONFIG.supportedLanguages],
+    )
+    .option(
+      '--template-dir <dir>',
+      'additional template directory, searched before the bundled templates (repeatable)',
+      collectValues,
+      [],
+    )
+    .option(
+      '--fallback',
+      `use the ${FALLBACK_LANGUAGE} version of templates missing in a language`,
+      false,
+    )
+    .option(
+      '-t, --templates <names...>',
+      'only update these templates (names or glob patterns)',
+    )
+    .option(
+      '-x, --exclude <names...>',
+      'skip these templates (names or glob patterns)',
+    )
+    .option('--tag <tags...>', 'only update templates with one of these tags')
+    .option(
+      '--var <key=value>',
+      'set a template variable (repeatable)',
+      collectValues,
+      [],
+    )
+    .option(
+      '--keep-front-matter',
+      'keep template front matter in the generated files',
+      false,
+    )
+    .option('--backup', 'back up files before overwriting or merging', false)
+    .option(
+      '--dry-run',
+      'report the planned file actions without writing anything',
+      false,
+    )
+    .option('--json', 'print a JSON report of the results', false)
+    .addOption(createLogFormatOption())
+    .action(async (options, command: Command) => {
+      const config =
+        (await loadProjectConfigOrExit(toOutputFormat(options)))?.config ?? {};
+
+      await updatePrompts({
+        outputDir: fromCliOrConfig(command, 'outputDir', config.outputDir),
+        layout: fromCliOrConfig(command, 'layout', config.layout),
+        languages: fromCliOrConfig(command, 'languages', config.languages),
+        templateDirs: fromCliOrConfig(
+          command,
+          'templateDir',
+          config.templateDirs,
+        ),
+        selection: toTemplateSelection(command, config),
+        fallback: fromCliOrConfig(command, 'fallback', config.fallback),
+        variables: resolveVariablesOrExit(
+          options.var,
+          config,
+          toOutputFormat(options),
+        ),
+        keepFrontMatter: fromCliOrConfig(
+          command,
+          'keepFrontMatter',
+          config.keepFrontMatter,
+        ),
+        packageVersion: await getPackageVersion(),
+        backup: options.backup || config.onConflict === 'backup',
+        dryRun: options.dryRun,
+        output: toOutputFormat(options),
+      });
+    });
+
+  [program, ...program.commands].forEach(addLoggingOptions);
+  program.hook('preAction', (_, actionCommand) => {
+    configureLoggerFromOptions(actionCommand);
+  });
+
+  program.parse();
+};
+
+// Execute CLI - always run when this module is executed
+setupCli();
@@ -0,0 +1,338 @@
+import { execFileSync } from 'node:child_process';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { basename, join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  hasContextDirectives,
+  isIgnored,
+  NO_CHANGES,
+  parseFileArgument,
+  parseIgnoreRules,
+  resolveTemplateContext,
+} from './context-directives.js';
+import { parseTemplate, renderPromptTemplate } from './template-generator.js';
+
+/**
+ * Resolve the directives of a content and render it with the variables
+ */
+const render = async (
+  content: string,
+  cwd: string,
+  variables: Record<string, string> = {},
+  options: { maxBytes?: number; maxTreeEntries?: number } = {},
+): Promise<string> => {
+  const context = await resolveTemplateContext(
+    parseTemplate('task.md', 'en', content),
+    { cwd, ...options },
+  );
+  return renderPromptTemplate(context.template, {
+    ...variables,
+    ...context.variables,
+  }).content;
+};
+
+describe('context-directives', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'context-directives-test-'));
+  });
+
+  afterEach(async () => {
+    vi.unstubAllEnvs();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('hasContextDirectives', () => {
+    it('should find directives but not placeholders or includes', () => {
+      expect(hasContextDirectives('See {{@file a.ts}}')).toBe(true);
+      expect(hasContextDirectives('{{name}} {{> header}}')).toBe(false);
+    });
+  });
+
+  describe('parseFileArgument', () => {
+    it('should parse the path and line range', () => {
+      expect(parseFileArgument('src/a.ts')).toEqual({ path: 'src/a.ts' });
+      expect(parseFileArgument('a.ts:3')).toEqual({
+        path: 'a.ts',
+        start: 3,
+        end: 3,
+      });
+      expect(parseFileArgument('a.ts:3-5')).toEqual({
+        path: 'a.ts',
+        start: 3,
+        end: 5,
+      });
+      expect(parseFileArgument('a.ts:3-')).toEqual({ path: 'a.ts', start: 3 });
+    });
+
+    it('should reject reversed and zero line ranges', () => {
+      expect(() => parseFileArgument('a.ts:5-3')).toThrow(
+        'Invalid line range in a.ts:5-3',
+      );
+      expect(() => parseFileArgument('a.ts:0')).toThrow('Invalid line range');
+    });
+  });
+
+  describe('ignore rules', () => {
+    it('should match names, anchored paths and directories', () => {
+      const rules = parseIgnoreRules(
+        '# build output\n*.log\n/dist\nbuild/\n!keep.log\ndocs/**/*.tmp\n',
+      );
+
+      expect(isIgnored(rules, 'a/b/debug.log', false)).toBe(true);
+      expect(isIgnored(rules, 'keep.log', false)).toBe(false);
+      expect(isIgnored(rules, 'dist', true)).toBe(true);
+      expect(isIgnored(rules, 'src/dist', true)).toBe(false);
+      expect(isIgnored(rules, 'src/build', true)).toBe(true);
+      expect(isIgnored(rules, 'build', false)).toBe(false);
+      expect(isIgnored(rules, 'docs/a/b/x.tmp', false)).toBe(true);
+      expect(isIgnored(rules, 'docs/x.tmp', false)).toBe(true);
+    });
+
+    it('should apply rules only below the directory of their file', () => {
+      const rules = parseIgnoreRules('*.txt\n', 'sub');
+
+      expect(isIgnored(rules, 'sub/a.txt', false)).toBe(true);
+      expect(isIgnored(rules, 'a.txt', false)).toBe(false);
+    });
+  });
+
+  describe('file directive', () => {
+    beforeEach(async () => {
+      await fs.mkdir(join(tempDir, 'src'));
+      await fs.writeFile(
+        join(tempDir, 'src', 'app.ts'),
+        'line 1\nline 2\nline 3\nline 4\n',
+      );
+    });
+
+    it('should include a file in a fenced code block', async () => {
+      expect(await render('Code:\n{{@file src/app.ts}}\nEnd\n', tempDir)).toBe(
+        'Code:\n```typescript\nline 1\nline 2\nline 3\nline 4\n```\nEnd\n',
+      );
+    });
+
+    it('should include a range of lines', async () => {
+      expect(await render('{{@file src/app.ts:2-3}}', tempDir)).toBe(
+        '```typescript\nline 2\nline 3\n```',
+      );
+      expect(await render('{{@file src/app.ts:3-}}', tempDir)).toBe(
+        '```typescript\nline 3\nline 4\n```',
+      );
+    });
+
+    it('should reject a range past the end of the file', async () => {
+      await expect(render('{{@file src/app.ts:9}}', tempDir)).rejects.toThrow(
+        'Failed to resolve {{@file src/app.ts:9}}: Line 9 is past the end of src/app.ts, which has 4 lines',
+      );
+    });
+
+    it('should not fill in placeholders of the included file', async () => {
+      await fs.writeFile(join(tempDir, 'view.html'), '<p>{{name}}</p>\n');
+
+      expect(
+        await render('{{name}}\n{{@file view.html}}', tempDir, { name: 'x' }),
+      ).toBe('x\n```html\n<p>{{name}}</p>\n```');
+    });
+
+    it('should reject missing files and paths outside the project', async () => {
+      await expect(render('{{@file missing.ts}}', tempDir)).rejects.toThrow(
+        'Failed to resolve {{@file missing.ts}}: File not found: missing.ts',
+      );
+      await expect(render('{{@file ../secret}}', tempDir)).rejects.toThrow(
+        'Path is outside the project directory: ../secret',
+      );
+    });
+
+    it('should accept names starting with two dots inside the project', async () => {
+      await fs.mkdir(join(tempDir, '..config'));
+      await fs.writeFile(join(tempDir, '..config', 'x'), 'value\n');
+
+      expect(await render('{{@file ..config/x}}', tempDir)).toBe(
+        '```\nvalue\n```',
+      );
+    });
+
+    it('should reject symbolic links pointing outside the project', async () => {
+      const outside = await fs.mkdtemp(join(tmpdir(), 'context-outside-'));
+      try {
+        await fs.writeFile(join(outside, 'secret.txt'), 'secret\n');
+        await fs.symlink(outside, join(tempDir, 'linked'));
+        await fs.symlink(
+          join(outside, 'secret.txt'),
+          join(tempDir, 'secret.txt'),
+        );
+
+        await expect(render('{{@file secret.txt}}', tempDir)).rejects.toThrow(
+          'Path is outside the project directory: secret.txt',
+        );
+        await expect(
+          render('{{@file linked/secret.txt}}', tempDir),
+        ).rejects.toThrow(
+          'Path is outside the project directory: linked/secret.txt',
+        );
+        await expect(render('{{@tree linked}}', tempDir)).rejects.toThrow(
+          'Path is outside the project directory: linked',
+        );
+      } finally {
+        await fs.rm(outside, { recursive: true, force: true });
+      }
+    });
+
+    it('should truncate files over the size limit', async () => {
+      const output = await render(
+        '{{@file src/app.ts}}',
+        tempDir,
+        {},
+        {
+          maxBytes: 16,
+        },
+      );
+
+      expect(output).toBe(
+        '```typescript\nline 1\nline 2\n[truncated: 14 more bytes over the limit of 16 bytes]\n```',
+      );
+    });
+  });
+
+  describe('tree directive', () => {
+    beforeEach(async () => {
+      await fs.mkdir(join(tempDir, 'src', 'lib'), { recursive: true });
+      await fs.mkdir(join(tempDir, 'node_modules', 'pkg'), { recursive: true });
+      await fs.mkdir(join(tempDir, '.git'));
+      await fs.writeFile(join(tempDir, '.gitignore'), 'node_modules/\n*.log\n');
+      await fs.writeFile(join(tempDir, 'src', 'lib', '.gitignore'), '*.tmp\n');
+      for (const file of [
+        'README.md',
+        'debug.log',
+        'src/index.ts',
+        'src/lib/util.ts',
+        'src/lib/cache.tmp',
+      ]) {
+        await fs.writeFile(join(tempDir, file), '');
+      }
+    });
+
+    it('should list the project honoring the .gitignore files', async () => {
+      const name = basename(tempDir);
+
+      expect(await render('{{@tree}}', tempDir)).toBe(
+        `\`\`\`text\n${name}/\n├── src/\n│   ├── lib/\n│   │   ├── .gitignore\n│   │   └── util.ts\n│   └── index.ts\n├── .gitignore\n└── README.md\n\`\`\``,
+      );
+    });
+
+    it('should list a directory to a depth', async () => {
+      expect(await render('{{@tree src depth=1}}', tempDir)).toBe(
+        '```text\nsrc/\n├── lib/\n└── index.ts\n```',
+      );
+    });
+
+    it('should apply the .gitignore files above the listed directory', async () => {
+      await fs.writeFile(join(tempDir, 'src', 'trace.log'), '');
+
+      expect(await render('{{@tree src}}', tempDir)).not.toContain('trace.log');
+    });
+
+    it('should stop at the entry limit', async () => {
+      expect(
+        await render('{{@tree src}}', tempDir, {}, { maxTreeEntries: 2 }),
+      ).toBe(
+        '```text\nsrc/\n├── lib/\n│   ├── .gitignore\n[truncated: 2 more entries over the limit of 2]\n```',
+      );
+    });
+
+    it('should reject missing directories', async () => {
+      await expect(render('{{@tree missing}}', tempDir)).rejects.toThrow(
+        'Directory not found: missing',
+      );
+    });
+  });
+
+  describe('diff directive', () => {
+    const git = (...args: string[]) =>
+      execFileSync('git', args, { cwd: tempDir, stdio: 'pipe' });
+
+    beforeEach(async () => {
+      git('init', '--quiet');
+      git('config', 'user.email', 'test@example.com');
+      git('config', 'user.name', 'Test');
+      await fs.writeFile(join(tempDir, 'a.txt'), 'one\n');
+      await fs.writeFile(join(tempDir, 'b.txt'), 'two\n');
+      git('add', '.');
+      git('commit', '--quiet', '-m', 'Initial commit');
+    });
+
+    it('should include the uncommitted changes', async () => {
+      await fs.writeFile(join(tempDir, 'a.txt'), 'one\nmore\n');
+
+      const output = await render('{{@diff}}', tempDir);
+
+      expect(output).toMatch(/^```diff\ndiff --git a\/a.txt b\/a.txt\n/);
+      expect(output).toContain('\n+more\n');
+    });
+
+    it('should include the staged changes of some paths', async () => {
+      await fs.writeFile(join(tempDir, 'a.txt'), 'changed\n');
+      await fs.writeFile(join(tempDir, 'b.txt'), 'changed\n');
+      git('add', 'a.txt');
+
+      expect(await render('{{@diff staged b.txt}}', tempDir)).toBe(NO_CHANGES);
+      expect(await render('{{@diff staged}}', tempDir)).toContain(
+        '+++ b/a.txt',
+      );
+      expect(await render('{{@diff staged}}', tempDir)).not.toContain('b.txt');
+    });
+
+    it('should name a directory outside a git repository', async () => {
+      await fs.rm(join(tempDir, '.git'), { recursive: true });
+      vi.stubEnv('GIT_CEILING_DIRECTORIES', tempDir);
+
+      await expect(render('{{@diff}}', tempDir)).rejects.toThrow(
+        `Failed to resolve {{@diff}}: ${tempDir} is not inside a git repository`,
+      );
+    });
+
+    it('should explain when git is not available', async () => {
+      vi.stubEnv('PATH', tempDir);
+
+      await expect(render('{{@diff}}', tempDir)).rejects.toThrow(
+        'git is not available: install git or make sure it is on the PATH',
+      );
+    });
+  });
+
+  describe('resolveTemplateContext', () => {
+    it('should leave templates without directives alone', async () => {
+      const template = parseTemplate('task.md', 'en', '# {{name}}\n');
+
+      expect(await resolveTemplateContext(template)).toEqual({
+        template,
+        variables: {},
+      });
+    });
+
+    it('should list the directives for an unknown one', async () => {
+      await expect(render('{{@files a.ts}}', tempDir)).rejects.toThrow(
+        'Unknown context directive {{@files a.ts}}. Available directives: file, tree, diff',
+      );
+      for (const name of ['toString', 'constructor', '__proto__']) {
+        await expect(render(`{{@${name}}}`, tempDir)).rejects.toThrow(
+          `Unknown context directive {{@${name}}}`,
+        );
+      }
+    });
+
+    it('should resolve a repeated directive once', async () => {
+      await fs.writeFile(join(tempDir, 'a.txt'), 'a\n');
+
+      const context = await resolveTemplateContext(
+        parseTemplate('task.md', 'en', '{{@file a.txt}} {{@file a.txt}}'),
+        { cwd: tempDir },
+      );
+
+      expect(Object.keys(context.variables)).toHaveLength(1);
+    });
+  });
+});
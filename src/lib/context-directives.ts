@@ -0,0 +1,552 @@
+/**
+ * Context directives embedding project context in a prompt when it is
+ * rendered: `{{@file path:10-20}}` includes a file or some of its lines,
+ * `{{@tree dir}}` a directory tree honoring .gitignore and `{{@diff}}`
+ * the uncommitted changes of the git repository.
+ */
+
+import { execFile } from 'node:child_process';
+import { readdir, readFile, realpath } from 'node:fs/promises';
+import { basename, isAbsolute, join, relative, resolve, sep } from 'node:path';
+import { promisify } from 'node:util';
+import { detectCodeLanguage, fenceCode } from './prompt-render.js';
+import type { PromptTemplate } from './template-generator.js';
+import {
+  extractPlaceholders,
+  type TemplateVariables,
+} from './template-variables.js';
+
+// Type definitions for context directives
+export type ContextOptions = {
+  /** Project directory paths are resolved against; defaults to the working directory */
+  readonly cwd?: string;
+  /** Maximum size of the output of a directive, in bytes */
+  readonly maxBytes?: number;
+  /** Maximum number of entries listed by a tree */
+  readonly maxTreeEntries?: number;
+};
+
+export type ContextResolution = {
+  /** The template with every directive replaced by a placeholder */
+  readonly template: PromptTemplate;
+  /** Values of the placeholders standing in for the directives */
+  readonly variables: TemplateVariables;
+};
+
+type ContextSettings = Required<ContextOptions>;
+
+type ContextDirective = (
+  args: readonly string[],
+  settings: ContextSettings,
+) => Promise<string>;
+
+type IgnoreRule = {
+  /** Directory of the .gitignore file, relative to the project directory */
+  readonly base: string;
+  readonly pattern: RegExp;
+  /** The pattern has a slash and matches the whole path below its base */
+  readonly anchored: boolean;
+  readonly negated: boolean;
+  readonly directoryOnly: boolean;
+};
+
+type TreeEntry = {
+  readonly name: string;
+  readonly directory: boolean;
+};
+
+const DIRECTIVE_PATTERN = /\{\{@\s*([\w-]*)([^}]*)\}\}/g;
+
+/** Name of the placeholders standing in for the directives */
+const CONTEXT_VARIABLE_PREFIX = '__context_';
+
+export const DEFAULT_CONTEXT_MAX_BYTES = 100_000;
+export const DEFAULT_CONTEXT_MAX_TREE_ENTRIES = 500;
+
+/** Written in place of a diff without changes */
+export const NO_CHANGES = '(no changes)';
+
+/** Entries a tree never lists, whatever the .gitignore files say */
+const ALWAYS_IGNORED = new Set(['.git']);
+
+/** Buffer size of git's output; larger diffs are an error */
+const GIT_MAX_BUFFER = 64 * 1024 * 1024;
+
+const LINE_RANGE_PATTERN = /^(.+?)(?::(\d+)(-(\d*))?)?$/;
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Cut an output to the size limit at a line break, noting what was left out
+ */
+const truncateOutput = (output: string, maxBytes: number): string => {
+  const size = Buffer.byteLength(output);
+  if (size <= maxBytes) {
+    return output;
+  }
+
+  const cut = Buffer.from(output).subarray(0, maxBytes).toString('utf-8');
+  const kept = cut.slice(0, Math.max(0, cut.lastIndexOf('\n') + 1));
+  return `${kept}[truncated: ${size - Buffer.byteLength(kept)} more bytes over the limit of ${maxBytes} bytes]\n`;
+};
+
+/**
+ * Check whether a path is the directory itself or inside it
+ */
+const isInsideDirectory = (directory: string, path: string): boolean => {
+  const relativePath = relative(directory, path);
+  return !(
+    relativePath === '..' ||
+    relativePath.startsWith(`..${sep}`) ||
+    isAbsolute(relativePath)
+  );
+};
+
+/**
+ * Resolve the symbolic links of a path; a missing path is kept as it is and
+ * left to the directive to report
+ */
+const toRealPath = async (path: string): Promise<string> => {
+  try {
+    return await realpath(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return path;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Resolve a path of a directive, which must stay inside the project
+ * directory, also when symbolic links are followed
+ */
+const resolveProjectPath = async (
+  path: string,
+  cwd: string,
+): Promise<string> => {
+  const absolute = resolve(cwd, path);
+  if (
+    !isInsideDirectory(cwd, absolute) ||
+    !isInsideDirectory(await toRealPath(cwd), await toRealPath(absolute))
+  ) {
+    throw new Error(`Path is outside the project directory: ${path}`);
+  }
+  return absolute;
+};
+
+/**
+ * Parse the argument of a file directive: a path with an optional line
+ * range such as `:10`, `:10-20` or `:10-` for the rest of the file
+ */
+export const parseFileArgument = (
+  argument: string,
+): { path: string; start?: number; end?: number } => {
+  const [, path, start, range, end] = LINE_RANGE_PATTERN.exec(argument) ?? [];
+  if (start === undefined) {
+    return { path: argument };
+  }
+
+  const first = Number(start);
+  const last = range === undefined ? first : end ? Number(end) : undefined;
+  if (first < 1 || (last !== undefined && last < first)) {
+    throw new Error(`Invalid line range in ${argument}`);
+  }
+  return { path, start: first, ...(last !== undefined && { end: last }) };
+};
+
+/**
+ * Include a file, or some of its lines, in a fenced code block
+ */
+const fileDirective: ContextDirective = async (args, settings) => {
+  if (args.length !== 1) {
+    throw new Error('Expected one file path, e.g. {{@file src/index.ts:1-20}}');
+  }
+
+  const { path, start, end } = parseFileArgument(args[0]);
+  let content: string;
+  try {
+    content = await readFile(
+      await resolveProjectPath(path, settings.cwd),
+      'utf-8',
+    );
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`File not found: ${path}`);
+    }
+    throw error;
+  }
+
+  if (start !== undefined) {
+    const lines = content.split('\n');
+    if (lines.at(-1) === '') {
+      lines.pop();
+    }
+    if (start > lines.length) {
+      throw new Error(
+        `Line ${start} is past the end of ${path}, which has ${lines.length} lines`,
+      );
+    }
+    content = lines.slice(start - 1, end).join('\n');
+  }
+
+  return fenceCode(
+    truncateOutput(content, settings.maxBytes),
+    detectCodeLanguage(path),
+  );
+};
+
+/**
+ * Turn a .gitignore pattern into a regular expression
+ */
+const toIgnorePattern = (glob: string): RegExp => {
+  let source = '';
+  for (let index = 0; index < glob.length; index++) {
+    const char = glob[index];
+    if (glob.startsWith('**/', index)) {
+      source += '(?:.*/)?';
+      index += 2;
+    } else if (glob.startsWith('**', index)) {
+      source += '.*';
+      index += 1;
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * Parse the rules of a .gitignore file
+ * @param content - The file content
+ * @param base - Directory of the file, relative to the project directory
+ */
+export const parseIgnoreRules = (
+  content: string,
+  base = '',
+): readonly IgnoreRule[] =>
+  content
+    .split('\n')
+    .map((line) => line.replace(/\s+$/, ''))
+    .filter((line) => line !== '' && !line.startsWith('#'))
+    .map((line) => {
+      const negated = line.startsWith('!');
+      let pattern = negated ? line.slice(1) : line;
+      const directoryOnly = pattern.endsWith('/');
+      pattern = pattern.replace(/\/+$/, '');
+      const anchored = pattern.includes('/');
+      pattern = pattern.replace(/^\//, '');
+
+      return {
+        base,
+        pattern: toIgnorePattern(pattern),
+        anchored,
+        negated,
+        directoryOnly,
+      };
+    });
+
+/**
+ * Check a path against the ignore rules; the last matching rule decides
+ * @param path - The path relative to the project directory, with slashes
+ * @param directory - Whether the path is a directory
+ */
+export const isIgnored = (
+  rules: readonly IgnoreRule[],
+  path: string,
+  directory: boolean,
+): boolean => {
+  let ignored = false;
+
+  for (const rule of rules) {
+    if (rule.base !== '' && !path.startsWith(`${rule.base}/`)) {
+      continue;
+    }
+    if (rule.directoryOnly && !directory) {
+      continue;
+    }
+
+    const subject = rule.base === '' ? path : path.slice(rule.base.length + 1);
+    const target = rule.anchored ? subject : basename(subject);
+    if (rule.pattern.test(target)) {
+      ignored = !rule.negated;
+    }
+  }
+
+  return ignored;
+};
+
+/**
+ * Read the ignore rules of a directory, if it has a .gitignore file
+ */
+const readIgnoreRules = async (
+  directory: string,
+  base: string,
+): Promise<readonly IgnoreRule[]> => {
+  try {
+    return parseIgnoreRules(
+      await readFile(join(directory, '.gitignore'), 'utf-8'),
+      base,
+    );
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Convert a path relative to the project directory to use slashes
+ */
+const toPosixPath = (path: string): string => path.split(sep).join('/');
+
+/**
+ * List a directory tree with box-drawing lines, directories first
+ */
+const treeDirective: ContextDirective = async (args, settings) => {
+  let root = '.';
+  let maxDepth = Number.POSITIVE_INFINITY;
+  for (const arg of args) {
+    const depth = /^depth=(\d+)$/.exec(arg);
+    if (depth) {
+      maxDepth = Number(depth[1]);
+    } else if (root === '.') {
+      root = arg;
+    } else {
+      throw new Error(
+        `Unexpected argument "${arg}", e.g. {{@tree src depth=2}}`,
+      );
+    }
+  }
+
+  const rootPath = await resolveProjectPath(root, settings.cwd);
+  const rootBase = toPosixPath(relative(settings.cwd, rootPath));
+
+  // The .gitignore files between the project directory and the listed one apply too
+  const rootRules: IgnoreRule[] = [];
+  const parents = rootBase === '' ? [] : rootBase.split('/');
+  for (let depth = 0; depth < parents.length; depth++) {
+    const base = parents.slice(0, depth).join('/');
+    rootRules.push(...(await readIgnoreRules(join(settings.cwd, base), base)));
+  }
+
+  const lines = [
+    `${root === '.' ? basename(settings.cwd) : root.replace(/\/+$/, '')}/`,
+  ];
+  let listed = 0;
+  let omitted = 0;
+
+  const walk = async (
+    directory: string,
+    base: string,
+    prefix: string,
+    depth: number,
+    inheritedRules: readonly IgnoreRule[],
+  ): Promise<void> => {
+    const rules = [
+      ...inheritedRules,
+      ...(await readIgnoreRules(directory, base)),
+    ];
+    const entries: TreeEntry[] = (
+      await readdir(directory, { withFileTypes: true })
+    )
+      .map((entry) => ({ name: entry.name, directory: entry.isDirectory() }))
+      .filter(
+        (entry) =>
+          !ALWAYS_IGNORED.has(entry.name) &&
+          !isIgnored(
+            rules,
+            base === '' ? entry.name : `${base}/${entry.name}`,
+            entry.directory,
+          ),
+      )
+      .sort(
+        (a, b) =>
+          Number(b.directory) - Number(a.directory) ||
+          a.name.localeCompare(b.name),
+      );
+
+    for (const [index, entry] of entries.entries()) {
+      if (listed >= settings.maxTreeEntries) {
+        omitted++;
+        continue;
+      }
+
+      listed++;
+      const last = index === entries.length - 1;
+      lines.push(
+        `${prefix}${last ? '└── ' : '├── '}${entry.name}${entry.directory ? '/' : ''}`,
+      );
+      if (entry.directory && depth < maxDepth) {
+        await walk(
+          join(directory, entry.name),
+          base === '' ? entry.name : `${base}/${entry.name}`,
+          `${prefix}${last ? '    ' : '│   '}`,
+          depth + 1,
+          rules,
+        );
+      }
+    }
+  };
+
+  try {
+    await walk(rootPath, rootBase, '', 1, rootRules);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      throw new Error(`Directory not found: ${root}`);
+    }
+    throw error;
+  }
+
+  if (omitted > 0) {
+    lines.push(
+      `[truncated: ${omitted} more entries over the limit of ${settings.maxTreeEntries}]`,
+    );
+  }
+  return fenceCode(
+    truncateOutput(`${lines.join('\n')}\n`, settings.maxBytes),
+    'text',
+  );
+};
+
+/**
+ * Run the local git binary in the project directory
+ * @returns Promise resolving to git's output
+ */
+const runGit = async (
+  args: readonly string[],
+  settings: ContextSettings,
+): Promise<string> => {
+  try {
+    const { stdout } = await execFileAsync('git', args, {
+      cwd: settings.cwd,
+      maxBuffer: GIT_MAX_BUFFER,
+    });
+    return stdout;
+  } catch (error) {
+    const { code, stderr } = error as NodeJS.ErrnoException & {
+      stderr?: string;
+    };
+    if (code === 'ENOENT') {
+      throw new Error(
+        'git is not available: install git or make sure it is on the PATH',
+      );
+    }
+    if (stderr && /not a git repository/i.test(stderr)) {
+      throw new Error(`${settings.cwd} is not inside a git repository`);
+    }
+    throw new Error(
+      `git ${args[0]} failed: ${stderr?.trim() || (error instanceof Error ? error.message : 'Unknown error')}`,
+    );
+  }
+};
+
+/**
+ * Include the uncommitted changes, or with "staged" the staged changes, of
+ * the git repository; further arguments limit the diff to some paths
+ */
+const diffDirective: ContextDirective = async (args, settings) => {
+  const staged = args[0] === 'staged';
+  const paths = staged ? args.slice(1) : args;
+
+  // Outside a repository git diff would compare paths instead
+  await runGit(['rev-parse', '--git-dir'], settings);
+  const diff = await runGit(
+    [
+      'diff',
+      '--no-color',
+      '--no-ext-diff',
+      ...(staged ? ['--staged'] : []),
+      '--',
+      ...paths,
+    ],
+    settings,
+  );
+
+  return diff === ''
+    ? `${NO_CHANGES}\n`
+    : fenceCode(truncateOutput(diff, settings.maxBytes), 'diff');
+};
+
+/** Context directives by name */
+const CONTEXT_DIRECTIVES: Readonly<Record<string, ContextDirective>> = {
+  file: fileDirective,
+  tree: treeDirective,
+  diff: diffDirective,
+};
+
+/**
+ * Checks whether a content has context directives
+ */
+export const hasContextDirectives = (content: string): boolean =>
+  content.match(DIRECTIVE_PATTERN) !== null;
+
+/**
+ * Resolves the context directives of a template. Each directive is replaced
+ * by a placeholder whose value is the directive's output, so the output is
+ * filled in along with the variables and never treated as template text.
+ * @param template - The template to resolve
+ * @param options - The project directory and size limits
+ * @returns Promise resolving to the template and the placeholder values
+ * @throws Error naming the directive that is unknown or fails, e.g. a
+ * missing file or git not being available
+ */
+export const resolveTemplateContext = async (
+  template: PromptTemplate,
+  options: ContextOptions = {},
+): Promise<ContextResolution> => {
+  if (!hasContextDirectives(template.content)) {
+    return { template, variables: {} };
+  }
+
+  const settings: ContextSettings = {
+    cwd: resolve(options.cwd ?? process.cwd()),
+    maxBytes: options.maxBytes ?? DEFAULT_CONTEXT_MAX_BYTES,
+    maxTreeEntries: options.maxTreeEntries ?? DEFAULT_CONTEXT_MAX_TREE_ENTRIES,
+  };
+  const variables: Record<string, string> = {};
+  const outputs = new Map<string, string>();
+
+  for (const match of template.content.matchAll(DIRECTIVE_PATTERN)) {
+    const [text, name, rest] = match;
+    if (outputs.has(text)) {
+      continue;
+    }
+
+    if (!Object.hasOwn(CONTEXT_DIRECTIVES, name)) {
+      throw new Error(
+        `Unknown context directive ${text}. Available directives: ${Object.keys(CONTEXT_DIRECTIVES).join(', ')}`,
+      );
+    }
+
+    const variable = `${CONTEXT_VARIABLE_PREFIX}${outputs.size}`;
+    try {
+      const output = await CONTEXT_DIRECTIVES[name](
+        rest.trim().split(/\s+/).filter(Boolean),
+        settings,
+      );
+      // The directive usually sits on its own line, which keeps its line break
+      variables[variable] = output.replace(/\n$/, '');
+    } catch (error) {
+      throw new Error(
+        `Failed to resolve ${text}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+    outputs.set(text, variable);
+  }
+
+  const content = template.content.replace(
+    DIRECTIVE_PATTERN,
+    (text) => `{{${outputs.get(text)}}}`,
+  );
+  return {
+    template: {
+      ...template,
+      content,
+      placeholders: extractPlaceholders(content),
+    },
+    variables,
+  };
+};
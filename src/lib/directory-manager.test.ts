@@ -4,6 +4,7 @@ import { join } from 'node:path';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import {
   createDirectoryStructure,
+  directoryExists,
   ensureDirectoryExists,
 } from './directory-manager.js';
 
@@ -62,9 +63,9 @@ describe('directory-manager', () => {
       const result = await createDirectoryStructure(baseDir, languages);
 
       expect(result.baseDir).toBe(baseDir);
-      expect(result.languageDirs).toHaveLength(2);
-      expect(result.languageDirs).toContain(join(baseDir, 'en'));
-      expect(result.languageDirs).toContain(join(baseDir, 'ja'));
+      expect(result.subDirs).toHaveLength(2);
+      expect(result.subDirs).toContain(join(baseDir, 'en'));
+      expect(result.subDirs).toContain(join(baseDir, 'ja'));
 
       // Verify directories actually exist
       const baseStats = await stat(baseDir);
@@ -84,7 +85,7 @@ describe('directory-manager', () => {
       const result = await createDirectoryStructure(baseDir, languages);
 
       expect(result.baseDir).toBe(baseDir);
-      expect(result.languageDirs).toHaveLength(0);
+      expect(result.subDirs).toHaveLength(0);
 
       // Base directory should still exist
       const baseStats = await stat(baseDir);
@@ -98,8 +99,8 @@ describe('directory-manager', () => {
       const result = await createDirectoryStructure(baseDir, languages);
 
       expect(result.baseDir).toBe(baseDir);
-      expect(result.languageDirs).toHaveLength(1);
-      expect(result.languageDirs[0]).toBe(join(baseDir, 'en'));
+      expect(result.subDirs).toHaveLength(1);
+      expect(result.subDirs[0]).toBe(join(baseDir, 'en'));
 
       // Verify directory exists
       const enStats = await stat(join(baseDir, 'en'));
@@ -116,7 +117,7 @@ describe('directory-manager', () => {
       const result = await createDirectoryStructure(baseDir, languages);
 
       expect(result.baseDir).toBe(baseDir);
-      expect(result.languageDirs).toHaveLength(2);
+      expect(result.subDirs).toHaveLength(2);
 
       // Verify all directories exist
       const baseStats = await stat(baseDir);
@@ -128,5 +129,32 @@ describe('directory-manager', () => {
       const jaStats = await stat(join(baseDir, 'ja'));
       expect(jaStats.isDirectory()).toBe(true);
     });
+
+    it('should report which directories were created', async () => {
+      const baseDir = join(tempDir, '.prompts');
+      await ensureDirectoryExists(join(baseDir, 'en'));
+
+      const result = await createDirectoryStructure(baseDir, ['en', 'ja']);
+
+      expect(result.createdDirs).toEqual([join(baseDir, 'ja')]);
+    });
+
+    it('should only plan directories in a dry run', async () => {
+      const baseDir = join(tempDir, '.prompts');
+
+      const result = await createDirectoryStructure(baseDir, ['en'], {
+        dryRun: true,
+      });
+
+      expect(result.createdDirs).toEqual([baseDir, join(baseDir, 'en')]);
+      expect(await directoryExists(baseDir)).toBe(false);
+    });
+  });
+
+  describe('directoryExists', () => {
+    it('should detect existing and missing directories', async () => {
+      expect(await directoryExists(tempDir)).toBe(true);
+      expect(await directoryExists(join(tempDir, 'missing'))).toBe(false);
+    });
   });
 });
@@ -1,9 +1,30 @@
-import { mkdir } from 'node:fs/promises';
+import { mkdir, stat } from 'node:fs/promises';
 import { join } from 'node:path';
 
 type DirectoryStructure = {
   readonly baseDir: string;
-  readonly languageDirs: readonly string[];
+  /** Subdirectories of the base directory given by the output layout */
+  readonly subDirs: readonly string[];
+  /** Directories that did not exist before (or would be created in a dry run) */
+  readonly createdDirs: readonly string[];
+};
+
+type DirectoryOptions = {
+  /** Only plan the directories without creating them */
+  readonly dryRun?: boolean;
+};
+
+/**
+ * Checks whether a directory exists at the given path
+ * @param dirPath - The path to check
+ * @returns Promise<boolean> - true if the path exists and is a directory
+ */
+const directoryExists = async (dirPath: string): Promise<boolean> => {
+  try {
+    return (await stat(dirPath)).isDirectory();
+  } catch {
+    return false;
+  }
 };
 
 /**
@@ -25,32 +46,39 @@ const ensureDirectoryExists = async (dirPath: string): Promise<boolean> => {
 };
 
 /**
- * Creates the complete directory structure for prompts with language subdirectories
+ * Creates the complete directory structure for prompts with the subdirectories
+ * of the output layout
  * @param baseDir - The base directory name (e.g., '.prompts')
- * @param languages - Array of language codes (e.g., ['en', 'ja'])
+ * @param subdirectories - Relative subdirectories (e.g., ['en', 'ja'] for the by-language layout)
+ * @param options - Set dryRun to only report the directories that would be created
  * @returns Promise<DirectoryStructure> - The created directory structure
  */
 const createDirectoryStructure = async (
   baseDir: string,
-  languages: readonly string[],
+  subdirectories: readonly string[],
+  options: DirectoryOptions = {},
 ): Promise<DirectoryStructure> => {
-  // Create the base directory
-  await ensureDirectoryExists(baseDir);
-
-  // Create language subdirectories
-  const languageDirs = await Promise.all(
-    languages.map(async (lang) => {
-      const langDir = join(baseDir, lang);
-      await ensureDirectoryExists(langDir);
-      return langDir;
-    }),
-  );
+  const subDirs = subdirectories.map((dir) => join(baseDir, dir));
+
+  // Record which directories are missing before creating anything
+  const allDirs = [baseDir, ...subDirs];
+  const existing = await Promise.all(allDirs.map(directoryExists));
+  const createdDirs = allDirs.filter((_dir, index) => !existing[index]);
+
+  if (!options.dryRun) {
+    // Create the base directory
+    await ensureDirectoryExists(baseDir);
+
+    // Create the subdirectories
+    await Promise.all(subDirs.map(ensureDirectoryExists));
+  }
 
   return {
     baseDir,
-    languageDirs,
+    subDirs,
+    createdDirs,
   };
 };
 
-export { createDirectoryStructure, ensureDirectoryExists };
-export type { DirectoryStructure };
+export { createDirectoryStructure, directoryExists, ensureDirectoryExists };
+export type { DirectoryOptions, DirectoryStructure };
@@ -0,0 +1,158 @@
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  exportPrompts,
+  hasManagedSection,
+  insertManagedSection,
+  MANAGED_SECTION_END,
+  MANAGED_SECTION_START,
+  type RenderedPrompt,
+} from './export-targets.js';
+import { parseTemplate } from './template-generator.js';
+
+const createPrompt = (
+  fileName: string,
+  language: string,
+  raw: string,
+): RenderedPrompt => {
+  const template = parseTemplate(fileName, language, raw);
+  return { template, content: template.content };
+};
+
+const REVIEW = createPrompt(
+  'code-review.md',
+  'en',
+  '---\ntitle: Code Review\ndescription: Review code\n---\n# Code Review\n\n## Output Format\nA list.\n',
+);
+const REVIEW_JA = createPrompt(
+  'code-review.md',
+  'ja',
+  '---\ntitle: コードレビュー\ndescription: "コードを: レビュー"\n---\n# コードレビュー\n',
+);
+const NOTES = createPrompt('notes.md', 'en', 'Take notes.\n');
+
+const OPTIONS = {
+  outputDir: '.prompts',
+  layout: 'by-language',
+  primaryLanguage: 'en',
+};
+
+const pathsOf = (target: Parameters<typeof exportPrompts>[0]) =>
+  exportPrompts(target, [REVIEW, REVIEW_JA], OPTIONS).map((file) => file.path);
+
+describe('export-targets', () => {
+  describe('exportPrompts', () => {
+    it('should write plain prompts per language', () => {
+      const prompt = { ...REVIEW, withFrontMatter: '---\nx: y\n---\nBody' };
+
+      expect(exportPrompts('prompts', [prompt], OPTIONS)).toEqual([
+        {
+          target: 'prompts',
+          path: join('.prompts', 'en', 'code-review.md'),
+          content: '---\nx: y\n---\nBody',
+          prompts: [prompt],
+        },
+      ]);
+    });
+
+    it('should use the layout of each tool with language suffixes', () => {
+      expect(pathsOf('copilot')).toEqual([
+        join('.github', 'prompts', 'code-review.prompt.md'),
+        join('.github', 'prompts', 'code-review.ja.prompt.md'),
+      ]);
+      expect(pathsOf('cursor')).toEqual([
+        join('.cursor', 'rules', 'code-review.mdc'),
+        join('.cursor', 'rules', 'code-review.ja.mdc'),
+      ]);
+      expect(pathsOf('claude')).toEqual([
+        join('.claude', 'commands', 'code-review.md'),
+        join('.claude', 'commands', 'code-review.ja.md'),
+      ]);
+      expect(pathsOf('kiro')).toEqual([
+        join('.kiro', 'steering', 'code-review.md'),
+        join('.kiro', 'steering', 'code-review.ja.md'),
+      ]);
+      expect(pathsOf('gemini')).toEqual(['GEMINI.md']);
+    });
+
+    it('should add the front matter each tool expects', () => {
+      const [cursor] = exportPrompts('cursor', [REVIEW], OPTIONS);
+      const [copilot] = exportPrompts('copilot', [REVIEW_JA], OPTIONS);
+      const [kiro] = exportPrompts('kiro', [NOTES], OPTIONS);
+
+      expect(cursor.content).toBe(
+        '---\ndescription: Review code\nglobs:\nalwaysApply: false\n---\n\n# Code Review\n\n## Output Format\nA list.\n',
+      );
+      expect(copilot.content).toBe(
+        '---\ndescription: "コードを: レビュー"\n---\n\n# コードレビュー\n',
+      );
+      expect(kiro.content).toBe('---\ninclusion: manual\n---\n\nTake notes.\n');
+    });
+
+    it('should only export templates for the targets they list', () => {
+      const copilotOnly = createPrompt(
+        'pr.md',
+        'en',
+        '---\ntargets: [copilot]\n---\n# PR\n',
+      );
+
+      expect(
+        exportPrompts('cursor', [REVIEW, copilotOnly], OPTIONS).map(
+          (file) => file.path,
+        ),
+      ).toEqual([join('.cursor', 'rules', 'code-review.mdc')]);
+      expect(exportPrompts('copilot', [copilotOnly], OPTIONS)).toHaveLength(1);
+      expect(exportPrompts('prompts', [copilotOnly], OPTIONS)).toHaveLength(1);
+    });
+
+    it('should combine prompts into a managed GEMINI.md section', () => {
+      const [gemini] = exportPrompts('gemini', [REVIEW, NOTES], OPTIONS);
+
+      expect(gemini.content).toBe(
+        `${MANAGED_SECTION_START}\n## Prompts\n\n### Code Review\n\n#### Output Format\nA list.\n\n### notes\n\nTake notes.\n${MANAGED_SECTION_END}\n`,
+      );
+      expect(gemini.prompts).toEqual([REVIEW, NOTES]);
+      expect(gemini.managedSection).toBe(true);
+    });
+
+    it('should only export the primary language for gemini', () => {
+      expect(
+        exportPrompts('gemini', [REVIEW, REVIEW_JA], OPTIONS).map(
+          (file) => file.prompts,
+        ),
+      ).toEqual([[REVIEW]]);
+      expect(
+        exportPrompts('gemini', [REVIEW_JA], {
+          ...OPTIONS,
+          primaryLanguage: 'ja',
+        })[0].path,
+      ).toBe('GEMINI.md');
+      expect(exportPrompts('gemini', [REVIEW_JA], OPTIONS)).toEqual([]);
+    });
+  });
+
+  describe('insertManagedSection', () => {
+    const section = `${MANAGED_SECTION_START}\n## Prompts\n${MANAGED_SECTION_END}\n`;
+
+    it('should use the section alone for a missing or empty file', () => {
+      expect(insertManagedSection(undefined, section)).toBe(section);
+      expect(insertManagedSection('\n', section)).toBe(section);
+    });
+
+    it('should append the section to a file without one', () => {
+      expect(insertManagedSection('# My Project\n\nNotes.\n', section)).toBe(
+        `# My Project\n\nNotes.\n\n${section}`,
+      );
+    });
+
+    it('should replace the previous section and keep the rest', () => {
+      const existing = `# My Project\n\n${MANAGED_SECTION_START}\n## Old\n${MANAGED_SECTION_END}\n\n## Mine\nKeep me.\n`;
+
+      expect(insertManagedSection(existing, section)).toBe(
+        `# My Project\n\n${section}\n## Mine\nKeep me.\n`,
+      );
+      expect(hasManagedSection(existing)).toBe(true);
+      expect(hasManagedSection('# My Project\n')).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * Export targets writing the prompts in the layout and file format expected
+ * by AI coding tools.
+ */
+
+import { join } from 'node:path';
+import { demoteHeadings } from './markdown-outline.js';
+import { getPromptPath } from './output-layout.js';
+import { getTemplateName } from './template-filter.js';
+import type { PromptTemplate } from './template-generator.js';
+
+// Type definitions for export targets
+/**
+ * - prompts: plain Markdown files under <output-dir>/<language>
+ * - copilot: GitHub Copilot prompt files in .github/prompts
+ * - cursor: Cursor rules in .cursor/rules
+ * - claude: Claude Code slash commands in .claude/commands
+ * - kiro: Kiro steering files in .kiro/steering
+ * - gemini: one section per prompt in a managed section of GEMINI.md, for
+ *   the primary language only
+ */
+export type ExportTarget =
+  | 'prompts'
+  | 'copilot'
+  | 'cursor'
+  | 'claude'
+  | 'kiro'
+  | 'gemini';
+
+export type RenderedPrompt = {
+  readonly template: PromptTemplate;
+  /** The rendered prompt without template front matter */
+  readonly content: string;
+  /** The rendered prompt with its template front matter, when it is kept */
+  readonly withFrontMatter?: string;
+};
+
+export type ExportFile = {
+  readonly target: ExportTarget;
+  readonly path: string;
+  readonly content: string;
+  /** The prompts the file was built from */
+  readonly prompts: readonly RenderedPrompt[];
+  /** The content is a section to insert into the file, keeping the rest of it */
+  readonly managedSection?: boolean;
+};
+
+export type ExportOptions = {
+  /** Directory of the prompts target */
+  readonly outputDir: string;
+  /** Output layout of the prompts target */
+  readonly layout: string;
+  /** Language written without a language suffix; others get e.g. `.ja` */
+  readonly primaryLanguage: string;
+};
+
+export const EXPORT_TARGETS: readonly ExportTarget[] = [
+  'prompts',
+  'copilot',
+  'cursor',
+  'claude',
+  'kiro',
+  'gemini',
+];
+
+export const DEFAULT_EXPORT_TARGET: ExportTarget = 'prompts';
+
+/** Markers delimiting the section of a file that atman-prompts manages */
+export const MANAGED_SECTION_START = '<!-- atman-prompts:start -->';
+export const MANAGED_SECTION_END = '<!-- atman-prompts:end -->';
+
+type FrontMatterFields = Readonly<Record<string, string | boolean>>;
+
+/**
+ * Format a YAML front matter block, quoting strings that need it
+ */
+const formatFrontMatter = (fields: FrontMatterFields): string => {
+  const lines = Object.entries(fields).map(([key, value]) => {
+    const formatted =
+      typeof value === 'string' && !/^[\p{L}\p{N} .,()'/-]*$/u.test(value)
+        ? JSON.stringify(value)
+        : String(value);
+    return formatted === '' ? `${key}:` : `${key}: ${formatted}`;
+  });
+  return `---\n${lines.join('\n')}\n---\n\n`;
+};
+
+/**
+ * Describe a prompt for the tools that show a description in their picker
+ */
+const describePrompt = ({ template }: RenderedPrompt): string =>
+  template.metadata.description ??
+  template.metadata.title ??
+  getTemplateName(template.fileName);
+
+/**
+ * Build a file name, adding a language suffix outside the primary language
+ */
+const toFileName = (
+  name: string,
+  extension: string,
+  language: string,
+  options: ExportOptions,
+): string =>
+  language === options.primaryLanguage
+    ? `${name}${extension}`
+    : `${name}.${language}${extension}`;
+
+type FileAdapter = {
+  readonly directory: string;
+  readonly extension: string;
+  readonly formatContent: (prompt: RenderedPrompt) => string;
+};
+
+/** Targets writing one file per prompt */
+const FILE_ADAPTERS: Readonly<
+  Record<Exclude<ExportTarget, 'prompts' | 'gemini'>, FileAdapter>
+> = {
+  copilot: {
+    directory: join('.github', 'prompts'),
+    extension: '.prompt.md',
+    formatContent: (prompt) =>
+      `${formatFrontMatter({ description: describePrompt(prompt) })}${prompt.content}`,
+  },
+  cursor: {
+    directory: join('.cursor', 'rules'),
+    extension: '.mdc',
+    // Rules are attached on request instead of to matching files
+    formatContent: (prompt) =>
+      `${formatFrontMatter({
+        description: describePrompt(prompt),
+        globs: '',
+        alwaysApply: false,
+      })}${prompt.content}`,
+  },
+  claude: {
+    directory: join('.claude', 'commands'),
+    extension: '.md',
+    formatContent: (prompt) =>
+      `${formatFrontMatter({ description: describePrompt(prompt) })}${prompt.content}`,
+  },
+  kiro: {
+    directory: join('.kiro', 'steering'),
+    extension: '.md',
+    // Steering files are included when referenced in the chat
+    formatContent: (prompt) =>
+      `${formatFrontMatter({ inclusion: 'manual' })}${prompt.content}`,
+  },
+};
+
+/**
+ * Checks whether a file content has a managed section
+ */
+export const hasManagedSection = (content: string): boolean => {
+  const start = content.indexOf(MANAGED_SECTION_START);
+  return start !== -1 && content.indexOf(MANAGED_SECTION_END, start) !== -1;
+};
+
+/**
+ * Inserts a managed section into the content of a file. A previous version
+ * of the section is replaced; without one, the section is appended. The
+ * rest of the content is kept as it is.
+ * @param existing - The file content, or undefined when there is no file
+ * @param section - The section, including its markers
+ * @returns The new file content
+ */
+export const insertManagedSection = (
+  existing: string | undefined,
+  section: string,
+): string => {
+  if (existing === undefined || existing.trim() === '') {
+    return section;
+  }
+
+  if (!hasManagedSection(existing)) {
+    return `${existing.trimEnd()}\n\n${section}`;
+  }
+
+  const start = existing.indexOf(MANAGED_SECTION_START);
+  const end =
+    existing.indexOf(MANAGED_SECTION_END, start) + MANAGED_SECTION_END.length;
+  return `${existing.slice(0, start)}${section.trimEnd()}${existing.slice(end)}`;
+};
+
+/**
+ * Build the managed GEMINI.md section with one subsection per prompt.
+ * Gemini CLI only reads GEMINI.md, so other languages are not exported.
+ */
+const exportGeminiFiles = (
+  prompts: readonly RenderedPrompt[],
+  options: ExportOptions,
+): readonly ExportFile[] => {
+  const languagePrompts = prompts.filter(
+    ({ template }) => template.language === options.primaryLanguage,
+  );
+  if (languagePrompts.length === 0) {
+    return [];
+  }
+
+  const sections = languagePrompts.map((prompt) => {
+    const content = prompt.content.trim();
+    // Prompts without a title heading get one, so each stays a section
+    const section = content.startsWith('# ')
+      ? content
+      : `# ${prompt.template.metadata.title ?? getTemplateName(prompt.template.fileName)}\n\n${content}`;
+    return demoteHeadings(section, 2);
+  });
+
+  return [
+    {
+      target: 'gemini',
+      path: 'GEMINI.md',
+      content: `${MANAGED_SECTION_START}\n## Prompts\n\n${sections.join('\n\n')}\n${MANAGED_SECTION_END}\n`,
+      prompts: languagePrompts,
+      managedSection: true,
+    },
+  ];
+};
+
+/**
+ * Checks whether a prompt is exported for a tool. Templates listing
+ * `targets` in their front matter are only exported for those tools; the
+ * prompts target always gets every template.
+ */
+const isExportedFor = (
+  target: ExportTarget,
+  { template }: RenderedPrompt,
+): boolean =>
+  target === 'prompts' ||
+  template.metadata.targets.length === 0 ||
+  template.metadata.targets.includes(target);
+
+/**
+ * Lays out rendered prompts as the files of an export target
+ * @param target - The tool to export for
+ * @param renderedPrompts - The rendered prompts of every language
+ * @param options - The prompts directory and primary language
+ * @returns The files to write, in prompt order
+ */
+export const exportPrompts = (
+  target: ExportTarget,
+  renderedPrompts: readonly RenderedPrompt[],
+  options: ExportOptions,
+): readonly ExportFile[] => {
+  const prompts = renderedPrompts.filter((prompt) =>
+    isExportedFor(target, prompt),
+  );
+
+  if (target === 'gemini') {
+    return exportGeminiFiles(prompts, options);
+  }
+
+  if (target === 'prompts') {
+    return prompts.map((prompt) => ({
+      target,
+      path: getPromptPath(options.outputDir, options.layout, prompt.template),
+      content: prompt.withFrontMatter ?? prompt.content,
+      prompts: [prompt],
+    }));
+  }
+
+  const adapter = FILE_ADAPTERS[target];
+  return prompts.map((prompt) => ({
+    target,
+    path: join(
+      adapter.directory,
+      toFileName(
+        getTemplateName(prompt.template.fileName),
+        adapter.extension,
+        prompt.template.language,
+        options,
+      ),
+    ),
+    content: adapter.formatContent(prompt),
+    prompts: [prompt],
+  }));
+};
@@ -1,8 +1,13 @@
 import { promises as fs } from 'node:fs';
 import { tmpdir } from 'node:os';
 import { join } from 'node:path';
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
-import { checkFileExists, createFileIfNotExists } from './file-operations.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import {
+  checkFileExists,
+  createBackupPath,
+  createFileIfNotExists,
+  writeFileWithPolicy,
+} from './file-operations.js';
 
 describe('file-operations', () => {
   let tempDir: string;
@@ -92,4 +97,170 @@ describe('file-operations', () => {
       expect(typeof result.error).toBe('string');
     });
   });
+
+  describe('createBackupPath', () => {
+    it('should append a UTC timestamp and .bak extension', () => {
+      const date = new Date('2024-01-02T03:04:05.678Z');
+
+      expect(createBackupPath('prompts/en/a.md', date)).toBe(
+        'prompts/en/a.md.20240102T030405678Z.bak',
+      );
+      expect(createBackupPath('prompts/en/a.md', date, 2)).toBe(
+        'prompts/en/a.md.20240102T030405678Z-2.bak',
+      );
+    });
+  });
+
+  describe('writeFileWithPolicy', () => {
+    it('should create missing files regardless of policy', async () => {
+      const result = await writeFileWithPolicy(testFilePath, 'new', {
+        policy: 'backup',
+      });
+
+      expect(result).toEqual({
+        success: true,
+        path: testFilePath,
+        skipped: false,
+      });
+      expect(await fs.readFile(testFilePath, 'utf8')).toBe('new');
+    });
+
+    it('should keep existing files with the skip policy', async () => {
+      await fs.writeFile(testFilePath, 'original');
+
+      const result = await writeFileWithPolicy(testFilePath, 'new', {
+        policy: 'skip',
+      });
+
+      expect(result.skipped).toBe(true);
+      expect(await fs.readFile(testFilePath, 'utf8')).toBe('original');
+    });
+
+    it('should overwrite existing files with the overwrite policy', async () => {
+      await fs.writeFile(testFilePath, 'original');
+
+      const result = await writeFileWithPolicy(testFilePath, 'new', {
+        policy: 'overwrite',
+      });
+
+      expect(result.overwritten).toBe(true);
+      expect(result.backupPath).toBeUndefined();
+      expect(await fs.readFile(testFilePath, 'utf8')).toBe('new');
+    });
+
+    it('should back up existing files before overwriting', async () => {
+      await fs.writeFile(testFilePath, 'original');
+
+      const result = await writeFileWithPolicy(testFilePath, 'new', {
+        policy: 'backup',
+      });
+
+      expect(result.overwritten).toBe(true);
+      expect(result.backupPath).toMatch(/test-file\.txt\.\d{8}T\d{9}Z\.bak$/);
+      expect(await fs.readFile(result.backupPath as string, 'utf8')).toBe(
+        'original',
+      );
+      expect(await fs.readFile(testFilePath, 'utf8')).toBe('new');
+    });
+
+    it('should keep every backup of repeated overwrites', async () => {
+      vi.useFakeTimers({
+        now: new Date('2024-01-02T03:04:05.678Z'),
+        toFake: ['Date'],
+      });
+      await fs.writeFile(testFilePath, 'first');
+
+      const backups: (string | undefined)[] = [];
+      for (const content of ['second', 'third']) {
+        const result = await writeFileWithPolicy(testFilePath, content, {
+          policy: 'backup',
+        });
+        backups.push(result.backupPath);
+      }
+      vi.useRealTimers();
+
+      expect(backups).toEqual([
+        `${testFilePath}.20240102T030405678Z.bak`,
+        `${testFilePath}.20240102T030405678Z-1.bak`,
+      ]);
+      expect(await fs.readFile(backups[0] as string, 'utf8')).toBe('first');
+      expect(await fs.readFile(backups[1] as string, 'utf8')).toBe('second');
+    });
+
+    it('should skip files whose content is unchanged', async () => {
+      await fs.writeFile(testFilePath, 'same');
+
+      const result = await writeFileWithPolicy(testFilePath, 'same', {
+        policy: 'overwrite',
+      });
+
+      expect(result.skipped).toBe(true);
+      expect(result.unchanged).toBe(true);
+      expect(result.overwritten).toBeUndefined();
+    });
+
+    it('should delegate to the resolver with the ask policy', async () => {
+      await fs.writeFile(testFilePath, 'original');
+      const resolver = vi.fn().mockResolvedValue('skip');
+
+      const result = await writeFileWithPolicy(testFilePath, 'new', {
+        policy: 'ask',
+        resolveConflict: resolver,
+      });
+
+      expect(resolver).toHaveBeenCalledWith(testFilePath, 'original', 'new');
+      expect(result.skipped).toBe(true);
+      expect(await fs.readFile(testFilePath, 'utf8')).toBe('original');
+    });
+
+    it('should fail when asking without a resolver', async () => {
+      await fs.writeFile(testFilePath, 'original');
+
+      const result = await writeFileWithPolicy(testFilePath, 'new', {
+        policy: 'ask',
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toMatch(/No conflict resolver/);
+    });
+
+    it('should only plan the outcome in a dry run', async () => {
+      const missingPath = join(tempDir, 'missing.txt');
+      await fs.writeFile(testFilePath, 'original');
+
+      const created = await writeFileWithPolicy(missingPath, 'new', {
+        policy: 'backup',
+        dryRun: true,
+      });
+      const overwritten = await writeFileWithPolicy(testFilePath, 'new', {
+        policy: 'backup',
+        dryRun: true,
+      });
+
+      expect(created).toEqual({
+        success: true,
+        path: missingPath,
+        skipped: false,
+      });
+      expect(overwritten.overwritten).toBe(true);
+      expect(overwritten.backupPath).toBeDefined();
+      expect((await checkFileExists(missingPath)).exists).toBe(false);
+      expect(await fs.readdir(tempDir)).toEqual(['test-file.txt']);
+      expect(await fs.readFile(testFilePath, 'utf8')).toBe('original');
+    });
+
+    it('should plan conflicts as overwrites without asking in a dry run', async () => {
+      await fs.writeFile(testFilePath, 'original');
+      const resolver = vi.fn();
+
+      const result = await writeFileWithPolicy(testFilePath, 'new', {
+        policy: 'ask',
+        resolveConflict: resolver,
+        dryRun: true,
+      });
+
+      expect(resolver).not.toHaveBeenCalled();
+      expect(result.overwritten).toBe(true);
+    });
+  });
 });
@@ -13,9 +13,54 @@ export type FileCreationResult = {
   readonly success: boolean;
   readonly path: string;
   readonly skipped: boolean;
+  /** The existing file was skipped because it already has the content */
+  readonly unchanged?: boolean;
+  readonly overwritten?: boolean;
+  readonly backupPath?: string;
+  /** The new content was merged with local edits instead of replacing them */
+  readonly merged?: boolean;
+  /** Number of conflict blocks left in a merged file */
+  readonly conflicts?: number;
+  /** Language the content was taken from when no translation exists */
+  readonly fallbackLanguage?: string;
+  /** Estimated token count of the written prompt */
+  readonly tokens?: number;
+  /** Token budget of the template, when one is configured */
+  readonly tokenBudget?: number;
   readonly error?: string;
 };
 
+/**
+ * How to handle a file that already exists:
+ * - skip: keep the existing file
+ * - overwrite: replace it with the new content
+ * - backup: copy it to a timestamped .bak file, then overwrite it
+ * - ask: let a resolver decide per file
+ */
+export type ConflictPolicy = 'skip' | 'overwrite' | 'backup' | 'ask';
+
+export type ConflictResolution = Exclude<ConflictPolicy, 'ask'>;
+
+export type ConflictResolver = (
+  filePath: string,
+  existingContent: string,
+  newContent: string,
+) => Promise<ConflictResolution>;
+
+export type WriteOptions = {
+  readonly policy: ConflictPolicy;
+  readonly resolveConflict?: ConflictResolver;
+  /** Only report what would happen without writing anything */
+  readonly dryRun?: boolean;
+};
+
+export const CONFLICT_POLICIES: readonly ConflictPolicy[] = [
+  'skip',
+  'overwrite',
+  'backup',
+  'ask',
+];
+
 /**
  * Check if a file exists at the specified path
  */
@@ -76,3 +121,143 @@ export const createFileIfNotExists = async (
     };
   }
 };
+
+/**
+ * Build a timestamped backup path for a file, e.g.
+ * file.md.20240101T120000123Z.bak, or file.md.20240101T120000123Z-1.bak
+ * for further backups within the same millisecond
+ */
+export const createBackupPath = (
+  filePath: string,
+  date = new Date(),
+  attempt = 0,
+): string => {
+  const timestamp = date.toISOString().replace(/[-:.]/g, '');
+  return `${filePath}.${timestamp}${attempt > 0 ? `-${attempt}` : ''}.bak`;
+};
+
+/**
+ * Write a backup of a file's content. Backups are never overwritten: a
+ * path that is already taken gets a counter suffix instead.
+ * @returns Promise resolving to the backup path
+ */
+const writeBackup = async (
+  filePath: string,
+  content: string,
+): Promise<string> => {
+  const date = new Date();
+
+  for (let attempt = 0; ; attempt++) {
+    const backupPath = createBackupPath(filePath, date, attempt);
+    try {
+      await fs.writeFile(backupPath, content, { encoding: 'utf8', flag: 'wx' });
+      return backupPath;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+  }
+};
+
+/**
+ * Write a file, resolving conflicts with an existing file by the given policy.
+ * The skip policy writes through createFileIfNotExists. Existing files whose
+ * content already matches are always left untouched.
+ * In a dry run nothing is written and the planned outcome is returned;
+ * the "ask" policy is then planned as an overwrite without asking.
+ */
+export const writeFileWithPolicy = async (
+  filePath: string,
+  content: string,
+  options: WriteOptions,
+): Promise<FileCreationResult> => {
+  const { policy, resolveConflict, dryRun = false } = options;
+
+  if (policy === 'skip' && !dryRun) {
+    return createFileIfNotExists(filePath, content);
+  }
+
+  try {
+    const fileCheck = await checkFileExists(filePath);
+
+    if (!fileCheck.exists) {
+      if (!dryRun) {
+        await fs.writeFile(filePath, content, 'utf8');
+      }
+      return {
+        success: true,
+        path: filePath,
+        skipped: false,
+      };
+    }
+
+    if (policy === 'skip') {
+      return {
+        success: true,
+        path: filePath,
+        skipped: true,
+      };
+    }
+
+    const existingContent = await fs.readFile(filePath, 'utf8');
+    if (existingContent === content) {
+      return {
+        success: true,
+        path: filePath,
+        skipped: true,
+        unchanged: true,
+      };
+    }
+
+    let resolution: ConflictResolution;
+    if (policy === 'ask') {
+      if (dryRun) {
+        resolution = 'overwrite';
+      } else if (!resolveConflict) {
+        throw new Error('No conflict resolver available for policy "ask"');
+      } else {
+        resolution = await resolveConflict(filePath, existingContent, content);
+      }
+    } else {
+      resolution = policy;
+    }
+
+    if (resolution === 'skip') {
+      return {
+        success: true,
+        path: filePath,
+        skipped: true,
+      };
+    }
+
+    let backupPath: string | undefined;
+    if (resolution === 'backup') {
+      backupPath = dryRun
+        ? createBackupPath(filePath)
+        : await writeBackup(filePath, existingContent);
+    }
+
+    if (!dryRun) {
+      await fs.writeFile(filePath, content, 'utf8');
+    }
+
+    return {
+      success: true,
+      path: filePath,
+      skipped: false,
+      overwritten: true,
+      ...(backupPath !== undefined && { backupPath }),
+    };
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error occurred';
+
+    return {
+      success: false,
+      path: filePath,
+      skipped: false,
+      error: errorMessage,
+    };
+  }
+};
@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { getDeclaredDefaults, parseFrontMatter } from './front-matter.js';
+
+describe('front-matter', () => {
+  describe('parseFrontMatter', () => {
+    it('should return empty metadata when there is no front matter', () => {
+      const result = parseFrontMatter('# Title\n\nBody');
+
+      expect(result.metadata).toEqual({ tags: [], variables: [], targets: [] });
+      expect(result.frontMatter).toBeUndefined();
+      expect(result.body).toBe('# Title\n\nBody');
+    });
+
+    it('should parse scalar fields and inline lists', () => {
+      const result = parseFrontMatter(
+        [
+          '---',
+          'title: Code Review',
+          'description: "Review: quality and security"',
+          'category: review',
+          'tags: [review, quality]',
+          'version: 1.2.0',
+          'targets: [copilot, cursor]',
+          '---',
+          '',
+          '# Body',
+        ].join('\n'),
+      );
+
+      expect(result.metadata).toEqual({
+        title: 'Code Review',
+        description: 'Review: quality and security',
+        category: 'review',
+        tags: ['review', 'quality'],
+        version: '1.2.0',
+        variables: [],
+        targets: ['copilot', 'cursor'],
+      });
+      expect(result.body).toBe('# Body');
+      expect(result.frontMatter).toMatch(/^---\n[\s\S]*\n---\n$/);
+    });
+
+    it('should parse block lists and variable mappings', () => {
+      const result = parseFrontMatter(
+        [
+          '---',
+          'tags:',
+          '  - review',
+          '  - quality',
+          'variables:',
+          '  projectName:',
+          '    description: Name of the project',
+          '  language: TypeScript',
+          '---',
+          'Body',
+        ].join('\n'),
+      );
+
+      expect(result.metadata.tags).toEqual(['review', 'quality']);
+      expect(result.metadata.variables).toEqual([
+        { name: 'projectName', description: 'Name of the project' },
+        { name: 'language', defaultValue: 'TypeScript' },
+      ]);
+    });
+
+    it('should parse variables declared as a list of mappings', () => {
+      const result = parseFrontMatter(
+        [
+          '---',
+          'variables:',
+          '- name: language',
+          '  default: code',
+          '- owner',
+          '---',
+          'Body',
+        ].join('\n'),
+      );
+
+      expect(result.metadata.variables).toEqual([
+        { name: 'language', defaultValue: 'code' },
+        { name: 'owner' },
+      ]);
+    });
+
+    it('should throw a descriptive error for malformed front matter', () => {
+      expect(() =>
+        parseFrontMatter('---\ntitle: ok\nnot a key value\n---\nBody'),
+      ).toThrow(/line 3: expected "key: value"/);
+    });
+
+    it('should reject keys that would replace the prototype', () => {
+      expect(() =>
+        parseFrontMatter('---\n__proto__:\n  title: Injected\n---\nBody'),
+      ).toThrow(/line 2: "__proto__" is not allowed as a key/);
+      expect(() =>
+        parseFrontMatter(
+          '---\nvariables:\n  - name: tone\n    "__proto__": x\n---\nBody',
+        ),
+      ).toThrow(/line 4: "__proto__" is not allowed as a key/);
+      expect(
+        parseFrontMatter('---\nvariables:\n  constructor: x\n---\nBody')
+          .metadata.variables,
+      ).toEqual([{ name: 'constructor', defaultValue: 'x' }]);
+    });
+
+    it('should throw when a field has the wrong type', () => {
+      expect(() => parseFrontMatter('---\ntitle: [a, b]\n---\nBody')).toThrow(
+        /"title" must be a string/,
+      );
+    });
+  });
+
+  describe('getDeclaredDefaults', () => {
+    it('should collect defaults of declared variables', () => {
+      expect(
+        getDeclaredDefaults({
+          tags: [],
+          targets: [],
+          variables: [
+            { name: 'language', defaultValue: 'code' },
+            { name: 'projectName' },
+          ],
+        }),
+      ).toEqual({ language: 'code' });
+    });
+  });
+});
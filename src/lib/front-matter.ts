@@ -0,0 +1,368 @@
+/**
+ * Front matter parsing for prompt templates.
+ * Supports the YAML subset templates need: scalars, quoted strings,
+ * inline lists (`[a, b]`), block lists and nested mappings.
+ */
+
+import type { TemplateVariables } from './template-variables.js';
+
+// Type definitions for template metadata
+export type TemplateVariableDeclaration = {
+  readonly name: string;
+  readonly description?: string;
+  readonly defaultValue?: string;
+};
+
+export type TemplateMetadata = {
+  readonly title?: string;
+  readonly description?: string;
+  /** Group of the template, usable in output layouts */
+  readonly category?: string;
+  readonly tags: readonly string[];
+  readonly version?: string;
+  readonly variables: readonly TemplateVariableDeclaration[];
+  readonly targets: readonly string[];
+};
+
+export type FrontMatterParseResult = {
+  readonly metadata: TemplateMetadata;
+  readonly frontMatter?: string;
+  readonly body: string;
+};
+
+type FrontMatterValue =
+  | string
+  | readonly FrontMatterValue[]
+  | { readonly [key: string]: FrontMatterValue };
+
+type FrontMatterLine = {
+  readonly indent: number;
+  readonly text: string;
+  readonly lineNumber: number;
+};
+
+const FRONT_MATTER_PATTERN = /^---\r?\n([\s\S]*?)\r?\n---[ \t]*(?:\r?\n|$)/;
+
+export const EMPTY_METADATA: TemplateMetadata = {
+  tags: [],
+  variables: [],
+  targets: [],
+};
+
+const unquote = (value: string): string => {
+  if (
+    value.length >= 2 &&
+    ((value.startsWith('"') && value.endsWith('"')) ||
+      (value.startsWith("'") && value.endsWith("'")))
+  ) {
+    return value.slice(1, -1);
+  }
+  return value;
+};
+
+const parseScalar = (raw: string): FrontMatterValue => {
+  const value = raw.trim();
+
+  if (value.startsWith('[') && value.endsWith(']')) {
+    const inner = value.slice(1, -1).trim();
+    return inner === ''
+      ? []
+      : inner.split(',').map((item) => unquote(item.trim()));
+  }
+
+  return unquote(value);
+};
+
+const splitKeyValue = (
+  line: FrontMatterLine,
+): { readonly key: string; readonly rest: string } => {
+  const match = /^([^:]+?)\s*:(?:\s+(.*))?$/.exec(line.text);
+  if (!match) {
+    throw new Error(
+      `Invalid front matter at line ${line.lineNumber}: expected "key: value"`,
+    );
+  }
+  return { key: unquote(match[1].trim()), rest: match[2] ?? '' };
+};
+
+const isSequenceItem = (text: string): boolean =>
+  text === '-' || text.startsWith('- ');
+
+/**
+ * Parse a block (mapping or sequence) starting at the given line index
+ * @returns The parsed value and the index of the first unconsumed line
+ */
+const parseBlock = (
+  lines: FrontMatterLine[],
+  start: number,
+  indent: number,
+): { readonly value: FrontMatterValue; readonly next: number } => {
+  if (isSequenceItem(lines[start].text)) {
+    const items: FrontMatterValue[] = [];
+    let index = start;
+
+    while (
+      index < lines.length &&
+      lines[index].indent === indent &&
+      isSequenceItem(lines[index].text)
+    ) {
+      const itemText = lines[index].text.slice(1).trim();
+
+      if (itemText === '') {
+        const child = lines[index + 1];
+        if (!child || child.indent <= indent) {
+          items.push('');
+          index++;
+          continue;
+        }
+        const parsed = parseBlock(lines, index + 1, child.indent);
+        items.push(parsed.value);
+        index = parsed.next;
+      } else if (/^[^:[\]"']+:(\s|$)/.test(itemText)) {
+        // "- key: value" starts a mapping nested in the sequence item
+        const itemIndent = indent + 2;
+        lines[index] = { ...lines[index], indent: itemIndent, text: itemText };
+        const parsed = parseBlock(lines, index, itemIndent);
+        items.push(parsed.value);
+        index = parsed.next;
+      } else {
+        items.push(parseScalar(itemText));
+        index++;
+      }
+    }
+
+    return { value: items, next: index };
+  }
+
+  const mapping: Record<string, FrontMatterValue> = {};
+  let index = start;
+
+  while (index < lines.length && lines[index].indent === indent) {
+    const line = lines[index];
+    if (isSequenceItem(line.text)) {
+      throw new Error(
+        `Invalid front matter at line ${line.lineNumber}: unexpected list item`,
+      );
+    }
+
+    const { key, rest } = splitKeyValue(line);
+    // Assigning this key would replace the prototype of the mapping
+    if (key === '__proto__') {
+      throw new Error(
+        `Invalid front matter at line ${line.lineNumber}: "${key}" is not allowed as a key`,
+      );
+    }
+    index++;
+
+    if (rest.trim() !== '') {
+      mapping[key] = parseScalar(rest);
+      continue;
+    }
+
+    const child = lines[index];
+    if (
+      child &&
+      (child.indent > indent ||
+        (child.indent === indent && isSequenceItem(child.text)))
+    ) {
+      const parsed = parseBlock(lines, index, child.indent);
+      mapping[key] = parsed.value;
+      index = parsed.next;
+    } else {
+      mapping[key] = '';
+    }
+  }
+
+  if (index < lines.length && lines[index].indent > indent) {
+    throw new Error(
+      `Invalid front matter at line ${lines[index].lineNumber}: unexpected indentation`,
+    );
+  }
+
+  return { value: mapping, next: index };
+};
+
+const parseFrontMatterBlock = (source: string): FrontMatterValue => {
+  const lines: FrontMatterLine[] = [];
+
+  source.split(/\r?\n/).forEach((rawLine, index) => {
+    const text = rawLine.trim();
+    if (text === '' || text.startsWith('#')) {
+      return;
+    }
+    if (/^\t/.test(rawLine)) {
+      throw new Error(
+        `Invalid front matter at line ${index + 2}: tabs are not allowed for indentation`,
+      );
+    }
+    lines.push({
+      indent: rawLine.length - rawLine.trimStart().length,
+      text,
+      lineNumber: index + 2,
+    });
+  });
+
+  if (lines.length === 0) {
+    return {};
+  }
+
+  const { value, next } = parseBlock(lines, 0, lines[0].indent);
+  if (next < lines.length) {
+    throw new Error(
+      `Invalid front matter at line ${lines[next].lineNumber}: unexpected indentation`,
+    );
+  }
+  return value;
+};
+
+const isMapping = (
+  value: FrontMatterValue | undefined,
+): value is { readonly [key: string]: FrontMatterValue } =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toOptionalString = (
+  value: FrontMatterValue | undefined,
+  field: string,
+): string | undefined => {
+  if (value === undefined || value === '') {
+    return undefined;
+  }
+  if (typeof value !== 'string') {
+    throw new Error(`Invalid front matter: "${field}" must be a string`);
+  }
+  return value;
+};
+
+const toStringList = (
+  value: FrontMatterValue | undefined,
+  field: string,
+): readonly string[] => {
+  if (value === undefined || value === '') {
+    return [];
+  }
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value) && value.every((item) => typeof item === 'string')) {
+    return value as readonly string[];
+  }
+  throw new Error(`Invalid front matter: "${field}" must be a list of strings`);
+};
+
+const toVariableDeclaration = (
+  name: string,
+  value: FrontMatterValue,
+): TemplateVariableDeclaration => {
+  if (typeof value === 'string') {
+    return value === '' ? { name } : { name, defaultValue: value };
+  }
+  if (!isMapping(value)) {
+    throw new Error(
+      `Invalid front matter: variable "${name}" must be a string or a mapping`,
+    );
+  }
+
+  const description = toOptionalString(
+    value.description,
+    `variables.${name}.description`,
+  );
+  const defaultValue =
+    value.default === undefined
+      ? undefined
+      : toOptionalString(value.default, `variables.${name}.default`);
+
+  return {
+    name,
+    ...(description !== undefined && { description }),
+    ...(defaultValue !== undefined && { defaultValue }),
+  };
+};
+
+const toVariableDeclarations = (
+  value: FrontMatterValue | undefined,
+): readonly TemplateVariableDeclaration[] => {
+  if (value === undefined || value === '') {
+    return [];
+  }
+  if (isMapping(value)) {
+    return Object.entries(value).map(([name, declaration]) =>
+      toVariableDeclaration(name, declaration),
+    );
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => {
+      if (typeof item === 'string') {
+        return { name: item };
+      }
+      if (isMapping(item) && typeof item.name === 'string') {
+        const { name, ...rest } = item;
+        return toVariableDeclaration(name, rest);
+      }
+      throw new Error(
+        'Invalid front matter: each entry in "variables" needs a "name"',
+      );
+    });
+  }
+  throw new Error(
+    'Invalid front matter: "variables" must be a mapping or a list',
+  );
+};
+
+/**
+ * Convert a parsed front matter value into typed template metadata
+ */
+const toTemplateMetadata = (value: FrontMatterValue): TemplateMetadata => {
+  if (!isMapping(value)) {
+    throw new Error('Invalid front matter: expected a mapping of fields');
+  }
+
+  const title = toOptionalString(value.title, 'title');
+  const description = toOptionalString(value.description, 'description');
+  const category = toOptionalString(value.category, 'category');
+  const version = toOptionalString(value.version, 'version');
+
+  return {
+    ...(title !== undefined && { title }),
+    ...(description !== undefined && { description }),
+    ...(category !== undefined && { category }),
+    tags: toStringList(value.tags, 'tags'),
+    ...(version !== undefined && { version }),
+    variables: toVariableDeclarations(value.variables),
+    targets: toStringList(value.targets, 'targets'),
+  };
+};
+
+/**
+ * Splits template content into its optional front matter and the body.
+ * @param content - The raw template file content
+ * @returns The typed metadata, the raw front matter block and the body
+ * @throws Error when the front matter block is malformed
+ */
+export const parseFrontMatter = (content: string): FrontMatterParseResult => {
+  const match = FRONT_MATTER_PATTERN.exec(content);
+
+  if (!match) {
+    return { metadata: EMPTY_METADATA, body: content };
+  }
+
+  const frontMatter = match[0];
+  const body = content.slice(frontMatter.length).replace(/^\r?\n/, '');
+
+  return {
+    metadata: toTemplateMetadata(parseFrontMatterBlock(match[1])),
+    frontMatter,
+    body,
+  };
+};
+
+/**
+ * Collect the default values declared for variables in the front matter
+ */
+export const getDeclaredDefaults = (
+  metadata: TemplateMetadata,
+): TemplateVariables =>
+  Object.fromEntries(
+    metadata.variables
+      .filter((variable) => variable.defaultValue !== undefined)
+      .map((variable) => [variable.name, variable.defaultValue as string]),
+  );
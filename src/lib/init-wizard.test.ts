@@ -0,0 +1,163 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  findInitVariables,
+  getTemplateOptions,
+  type InitChoices,
+  parseChoiceList,
+  runInitWizard,
+  toInitConfig,
+} from './init-wizard.js';
+import { parseTemplate } from './template-generator.js';
+
+const TEMPLATES = [
+  parseTemplate(
+    'review.md',
+    'en',
+    '---\ndescription: Review code\nvariables:\n  language:\n    description: Programming language\n---\n# Review {{language}}\n',
+  ),
+  parseTemplate('debugging.md', 'en', '# Debug {{tool|gdb}}\n'),
+  parseTemplate('review.md', 'ja', '# レビュー {{language}}\n'),
+  parseTemplate('docs.md', 'en', '# Docs for {{project}}\n'),
+];
+
+const DEFAULTS: InitChoices = {
+  outputDir: '.prompts',
+  languages: ['en', 'ja'],
+  templates: [],
+  variables: {},
+};
+
+/**
+ * Create an asker answering the questions in order
+ */
+const answering = (...answers: string[]) =>
+  vi.fn(async (queries: readonly string[]) =>
+    queries.map(() => answers.shift() ?? ''),
+  );
+
+describe('init-wizard', () => {
+  describe('getTemplateOptions', () => {
+    it('should list each template once, sorted, with a description', () => {
+      expect(getTemplateOptions(TEMPLATES)).toEqual([
+        { name: 'debugging' },
+        { name: 'docs' },
+        { name: 'review', description: 'Review code' },
+      ]);
+    });
+  });
+
+  describe('findInitVariables', () => {
+    it('should find the variables without a value or default', () => {
+      expect(findInitVariables(TEMPLATES, { project: 'atman' })).toEqual([
+        { name: 'language', description: 'Programming language' },
+      ]);
+    });
+  });
+
+  describe('parseChoiceList', () => {
+    it('should parse numbers and ranges into sorted indexes', () => {
+      expect(parseChoiceList('3, 1-2 2', 4)).toEqual([0, 1, 2]);
+    });
+
+    it('should reject choices out of range or malformed', () => {
+      expect(parseChoiceList('5', 4)).toBeUndefined();
+      expect(parseChoiceList('0', 4)).toBeUndefined();
+      expect(parseChoiceList('3-2', 4)).toBeUndefined();
+      expect(parseChoiceList('one', 4)).toBeUndefined();
+      expect(parseChoiceList('', 4)).toBeUndefined();
+    });
+  });
+
+  describe('runInitWizard', () => {
+    it('should collect the answers of every question', async () => {
+      const ask = answering('prompts', 'en', '2-3', 'TypeScript');
+      const loadTemplates = vi.fn(async () =>
+        TEMPLATES.filter((template) => template.language === 'en'),
+      );
+
+      const choices = await runInitWizard(DEFAULTS, {
+        ask,
+        availableLanguages: ['en', 'ja'],
+        loadTemplates,
+      });
+
+      expect(choices).toEqual({
+        outputDir: 'prompts',
+        languages: ['en'],
+        templates: ['docs', 'review'],
+        variables: { language: 'TypeScript', project: '' },
+      });
+      expect(loadTemplates).toHaveBeenCalledWith(['en']);
+      expect(ask).toHaveBeenCalledWith([
+        'Value for {{language}} (Programming language): ',
+        'Value for {{project}}: ',
+      ]);
+      expect(ask.mock.calls[2][0][0]).toContain('  3) review - Review code\n');
+    });
+
+    it('should keep the defaults for empty answers', async () => {
+      const ask = answering();
+
+      const choices = await runInitWizard(
+        {
+          ...DEFAULTS,
+          templates: ['deb*'],
+          variables: { language: 'Go' },
+        },
+        {
+          ask,
+          availableLanguages: ['en', 'ja'],
+          loadTemplates: async () => TEMPLATES,
+        },
+      );
+
+      expect(choices).toEqual({
+        outputDir: '.prompts',
+        languages: ['en', 'ja'],
+        templates: ['debugging'],
+        variables: { language: 'Go' },
+      });
+      expect(ask).toHaveBeenCalledTimes(3);
+    });
+
+    it('should ask again after an invalid answer', async () => {
+      const ask = answering('', 'fr', 'ja', '9', 'all', 'Rust');
+
+      const choices = await runInitWizard(DEFAULTS, {
+        ask,
+        availableLanguages: ['en', 'ja'],
+        loadTemplates: async () =>
+          TEMPLATES.filter((template) => template.language === 'ja'),
+      });
+
+      expect(choices.languages).toEqual(['ja']);
+      expect(choices.templates).toEqual([]);
+      expect(choices.variables).toEqual({ language: 'Rust' });
+      expect(ask).toHaveBeenCalledTimes(6);
+    });
+  });
+
+  describe('toInitConfig', () => {
+    it('should leave out every template and empty variables', () => {
+      expect(toInitConfig(DEFAULTS)).toEqual({
+        outputDir: '.prompts',
+        languages: ['en', 'ja'],
+      });
+    });
+
+    it('should write the chosen templates and variables', () => {
+      expect(
+        toInitConfig({
+          ...DEFAULTS,
+          templates: ['review'],
+          variables: { language: 'Go' },
+        }),
+      ).toEqual({
+        outputDir: '.prompts',
+        languages: ['en', 'ja'],
+        templates: ['review'],
+        variables: { language: 'Go' },
+      });
+    });
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * Setup wizard of the init command: collects the output directory,
+ * languages, templates and variable values of a project, either from
+ * questions on a terminal or from the command line flags alone.
+ */
+
+import type { ProjectConfig } from './project-config.js';
+import { getTemplateName, matchesTemplatePattern } from './template-filter.js';
+import type { PromptTemplate } from './template-generator.js';
+import {
+  findMissingVariables,
+  type TemplateVariables,
+} from './template-variables.js';
+
+// Type definitions for the setup wizard
+export type InitChoices = {
+  readonly outputDir: string;
+  readonly languages: readonly string[];
+  /** Names or glob patterns of the templates to generate; empty for all */
+  readonly templates: readonly string[];
+  readonly variables: TemplateVariables;
+};
+
+export type InitTemplateOption = {
+  readonly name: string;
+  readonly description?: string;
+};
+
+export type InitVariable = {
+  readonly name: string;
+  readonly description?: string;
+};
+
+/** Asks questions and resolves to the trimmed answers in order */
+export type QuestionAsker = (
+  queries: readonly string[],
+) => Promise<readonly string[]>;
+
+export type InitWizardOptions = {
+  readonly ask: QuestionAsker;
+  /** Languages that have templates */
+  readonly availableLanguages: readonly string[];
+  /** Loads the templates of the chosen languages */
+  readonly loadTemplates: (
+    languages: readonly string[],
+  ) => Promise<readonly PromptTemplate[]>;
+};
+
+/**
+ * Lists each template name once with the first description found
+ */
+export const getTemplateOptions = (
+  templates: readonly PromptTemplate[],
+): readonly InitTemplateOption[] => {
+  const options = new Map<string, InitTemplateOption>();
+
+  for (const template of templates) {
+    const name = getTemplateName(template.fileName);
+    const existing = options.get(name);
+    const { description } = template.metadata;
+
+    if (!existing || (existing.description === undefined && description)) {
+      options.set(name, {
+        name,
+        ...(description !== undefined && { description }),
+      });
+    }
+  }
+
+  return [...options.values()].sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Finds the variables of the chosen templates that have no value yet,
+ * with their descriptions from the front matter
+ * @param templates - The templates to generate
+ * @param variables - The values given so far
+ */
+export const findInitVariables = (
+  templates: readonly PromptTemplate[],
+  variables: TemplateVariables,
+): readonly InitVariable[] => {
+  const found = new Map<string, InitVariable>();
+
+  for (const template of templates) {
+    const descriptions = new Map(
+      template.metadata.variables.map((variable) => [
+        variable.name,
+        variable.description,
+      ]),
+    );
+
+    for (const name of findMissingVariables(template.placeholders, variables)) {
+      const description =
+        descriptions.get(name) ?? found.get(name)?.description;
+      found.set(name, {
+        name,
+        ...(description !== undefined && { description }),
+      });
+    }
+  }
+
+  return [...found.values()];
+};
+
+/**
+ * Parses a list of choices such as "1, 3-5" into zero-based indexes
+ * @param answer - Comma or space separated numbers and ranges
+ * @param count - Number of choices
+ * @returns The sorted indexes, or undefined when the answer is invalid
+ */
+export const parseChoiceList = (
+  answer: string,
+  count: number,
+): readonly number[] | undefined => {
+  const indexes = new Set<number>();
+
+  for (const part of answer.split(/[\s,]+/).filter(Boolean)) {
+    const match = /^(\d+)(?:-(\d+))?$/.exec(part);
+    if (!match) {
+      return undefined;
+    }
+    const from = Number(match[1]);
+    const to = Number(match[2] ?? match[1]);
+    if (from < 1 || to > count || from > to) {
+      return undefined;
+    }
+    for (let choice = from; choice <= to; choice++) {
+      indexes.add(choice - 1);
+    }
+  }
+
+  return indexes.size > 0 ? [...indexes].sort((a, b) => a - b) : undefined;
+};
+
+/**
+ * Ask a single question until the answer is accepted
+ * @param parse - Returns the value of an answer, or undefined to ask again
+ */
+const askUntilValid = async <T>(
+  ask: QuestionAsker,
+  query: string,
+  parse: (answer: string) => T | undefined,
+): Promise<T> => {
+  const [answer] = await ask([query]);
+  const value = parse(answer);
+  return value === undefined ? askUntilValid(ask, query, parse) : value;
+};
+
+/**
+ * Format the numbered list of templates of the template question
+ */
+const formatTemplateChoices = (
+  options: readonly InitTemplateOption[],
+): string => {
+  const width = String(options.length).length;
+  return options
+    .map(({ name, description }, index) => {
+      const number = String(index + 1).padStart(width);
+      return `  ${number}) ${name}${description ? ` - ${description}` : ''}`;
+    })
+    .join('\n');
+};
+
+/**
+ * Walk through the setup questions. Every question offers the choice made
+ * with the command line flags as its default, taken by an empty answer.
+ * @param defaults - The choices made with the flags
+ * @param options - How to ask questions and find the templates
+ * @returns The choices of the user
+ */
+export const runInitWizard = async (
+  defaults: InitChoices,
+  options: InitWizardOptions,
+): Promise<InitChoices> => {
+  const { ask, availableLanguages } = options;
+
+  const [outputAnswer] = await ask([
+    `Output directory [${defaults.outputDir}]: `,
+  ]);
+  const outputDir = outputAnswer || defaults.outputDir;
+
+  const languages = await askUntilValid(
+    ask,
+    `Languages (available: ${availableLanguages.join(', ')}) [${defaults.languages.join(' ')}]: `,
+    (answer) => {
+      if (!answer) {
+        return defaults.languages;
+      }
+      const chosen = [...new Set(answer.split(/[\s,]+/).filter(Boolean))];
+      return chosen.every((language) => availableLanguages.includes(language))
+        ? chosen
+        : undefined;
+    },
+  );
+
+  const templates = await options.loadTemplates(languages);
+  const templateOptions = getTemplateOptions(templates);
+  const names = templateOptions.map(({ name }) => name);
+  const defaultTemplates = names.filter((name) =>
+    defaults.templates.some((pattern) => matchesTemplatePattern(name, pattern)),
+  );
+  const chosenTemplates = await askUntilValid(
+    ask,
+    `Templates:\n${formatTemplateChoices(templateOptions)}\nChoose templates by number, e.g. "1,3-4" [${defaultTemplates.length > 0 ? defaultTemplates.join(' ') : 'all'}]: `,
+    (answer) => {
+      if (!answer) {
+        return defaultTemplates;
+      }
+      if (answer.toLowerCase() === 'all') {
+        return [];
+      }
+      const indexes = parseChoiceList(answer, names.length);
+      return indexes?.map((index) => names[index]);
+    },
+  );
+
+  const selected =
+    chosenTemplates.length === 0 || chosenTemplates.length === names.length
+      ? []
+      : chosenTemplates;
+  const missing = findInitVariables(
+    templates.filter(
+      (template) =>
+        selected.length === 0 ||
+        selected.includes(getTemplateName(template.fileName)),
+    ),
+    defaults.variables,
+  );
+  const answers =
+    missing.length === 0
+      ? []
+      : await ask(
+          missing.map(
+            ({ name, description }) =>
+              `Value for {{${name}}}${description ? ` (${description})` : ''}: `,
+          ),
+        );
+
+  return {
+    outputDir,
+    languages,
+    templates: selected,
+    variables: {
+      ...defaults.variables,
+      ...Object.fromEntries(
+        missing.map(({ name }, index) => [name, answers[index]]),
+      ),
+    },
+  };
+};
+
+/**
+ * Build the project configuration of the choices, leaving out the
+ * template list when every template is chosen
+ */
+export const toInitConfig = (choices: InitChoices): ProjectConfig => ({
+  outputDir: choices.outputDir,
+  languages: choices.languages,
+  ...(choices.templates.length > 0 && { templates: choices.templates }),
+  ...(Object.keys(choices.variables).length > 0 && {
+    variables: choices.variables,
+  }),
+});
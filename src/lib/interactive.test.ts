@@ -0,0 +1,41 @@
+import { PassThrough } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import { askQuestions } from './interactive.js';
+
+describe('askQuestions', () => {
+  it('should collect the trimmed answers in order', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+
+    const answers = askQuestions(['First? ', 'Second? '], { input, output });
+    input.write('  one \n');
+    await new Promise((resolve) => setImmediate(resolve));
+    input.write('two\n');
+
+    await expect(answers).resolves.toEqual(['one', 'two']);
+  });
+
+  it('should reject when the input closes before an answer', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+
+    const answers = askQuestions(['First? '], { input, output });
+    input.end();
+
+    await expect(answers).rejects.toThrow(
+      'Input closed before all questions were answered',
+    );
+  });
+
+  it('should reject when the input closes between questions', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+
+    const answers = askQuestions(['First? ', 'Second? '], { input, output });
+    input.end('one\n');
+
+    await expect(answers).rejects.toThrow(
+      'Input closed before all questions were answered',
+    );
+  });
+});
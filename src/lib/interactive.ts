@@ -0,0 +1,53 @@
+/**
+ * Terminal interaction helpers for prompting the user during a CLI run.
+ */
+
+import { createInterface, type Interface } from 'node:readline';
+
+/**
+ * Check whether both stdin and stdout are attached to a terminal
+ */
+export const isInteractive = (): boolean =>
+  Boolean(process.stdin.isTTY && process.stdout.isTTY);
+
+const question = (readline: Interface, query: string): Promise<string> =>
+  new Promise((resolve) => {
+    readline.question(query, resolve);
+  });
+
+/**
+ * Ask the user a series of questions and collect the trimmed answers in order.
+ * A single readline interface is shared so buffered input is not lost.
+ * Rejects when the input closes before every question is answered.
+ *
+ * @param queries - Questions to ask, one after another
+ * @param streams - Where to read answers and write questions (default: stdin and stdout)
+ */
+export const askQuestions = async (
+  queries: readonly string[],
+  streams: {
+    readonly input: NodeJS.ReadableStream;
+    readonly output: NodeJS.WritableStream;
+  } = { input: process.stdin, output: process.stdout },
+): Promise<readonly string[]> => {
+  const readline = createInterface(streams);
+  const closed = new Promise<never>((_resolve, reject) => {
+    readline.once('close', () => {
+      reject(new Error('Input closed before all questions were answered'));
+    });
+  });
+  // The interface is always closed at the end, answered or not
+  closed.catch(() => undefined);
+
+  try {
+    const answers: string[] = [];
+    for (const query of queries) {
+      answers.push(
+        (await Promise.race([closed, question(readline, query)])).trim(),
+      );
+    }
+    return answers;
+  } finally {
+    readline.close();
+  }
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import {
+  addFallbackTemplates,
+  createFallbackTemplate,
+  getUntranslatedNotice,
+  isLanguageCode,
+  validateLanguages,
+} from './language-support.js';
+import { parseTemplate } from './template-generator.js';
+
+describe('language-support', () => {
+  describe('validateLanguages', () => {
+    it('should accept available languages', () => {
+      expect(validateLanguages(['en', 'ja'], ['en', 'ja'])).toBeUndefined();
+    });
+
+    it('should list unknown and available languages', () => {
+      expect(validateLanguages(['en', 'fr', 'de'], ['en', 'ja'])).toBe(
+        'Unknown language(s): fr, de. Available languages: en, ja',
+      );
+    });
+
+    it('should accept unknown language codes when missing ones are allowed', () => {
+      expect(
+        validateLanguages(['en', 'fr', 'pt-BR'], ['en', 'ja'], {
+          allowMissing: true,
+        }),
+      ).toBeUndefined();
+    });
+
+    it('should reject values that are not language codes', () => {
+      expect(
+        validateLanguages(['fr', '../escape', 'a/b'], ['en', 'ja'], {
+          allowMissing: true,
+        }),
+      ).toBe(
+        'Invalid language code(s): ../escape, a/b. Available languages: en, ja',
+      );
+    });
+  });
+
+  describe('isLanguageCode', () => {
+    it('should accept language codes with regions', () => {
+      expect(isLanguageCode('ja')).toBe(true);
+      expect(isLanguageCode('zh-Hant')).toBe(true);
+    });
+
+    it('should reject paths and other values', () => {
+      for (const value of ['..', '../en', 'en/ja', 'en\\ja', 'EN', '']) {
+        expect(isLanguageCode(value)).toBe(false);
+      }
+    });
+  });
+
+  describe('createFallbackTemplate', () => {
+    it('should move the template to the language with a notice', () => {
+      const template = parseTemplate(
+        'review.md',
+        'en',
+        '---\ntitle: Review\n---\n# Review\n',
+      );
+
+      const fallback = createFallbackTemplate(template, 'ja');
+
+      expect(fallback.language).toBe('ja');
+      expect(fallback.fallbackLanguage).toBe('en');
+      expect(fallback.metadata.title).toBe('Review');
+      expect(fallback.content).toBe(
+        `${getUntranslatedNotice('ja', 'en')}# Review\n`,
+      );
+    });
+  });
+
+  describe('addFallbackTemplates', () => {
+    it('should only add templates missing from the language', () => {
+      const translated = [parseTemplate('a.md', 'ja', '# A (ja)\n')];
+      const fallbackTemplates = [
+        parseTemplate('a.md', 'en', '# A\n'),
+        parseTemplate('b.md', 'en', '# B\n'),
+      ];
+
+      const templates = addFallbackTemplates(
+        translated,
+        fallbackTemplates,
+        'ja',
+      );
+
+      expect(
+        templates.map((template) => [
+          template.fileName,
+          template.language,
+          template.fallbackLanguage,
+        ]),
+      ).toEqual([
+        ['a.md', 'ja', undefined],
+        ['b.md', 'ja', 'en'],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,99 @@
+import type { PromptTemplate } from './template-generator.js';
+
+/** Language whose templates stand in for missing translations */
+export const FALLBACK_LANGUAGE = 'en';
+
+/**
+ * Language codes accepted without templates of their own, e.g. "fr" or
+ * "pt-BR"; they never contain path separators or ".."
+ */
+const LANGUAGE_CODE_PATTERN = /^[a-z]{2,3}(-[A-Za-z0-9]+)*$/;
+
+/**
+ * Checks whether a string looks like a language code
+ */
+export const isLanguageCode = (language: string): boolean =>
+  LANGUAGE_CODE_PATTERN.test(language);
+
+export type LanguageValidationOptions = {
+  /** Accept unknown languages that look like a language code */
+  readonly allowMissing?: boolean;
+};
+
+/**
+ * Checks the requested languages against the languages that have templates
+ * @param languages - The requested language codes
+ * @param availableLanguages - The languages found in the template roots
+ * @param options - Whether languages without templates are accepted
+ * @returns An error message, or undefined when every language is available
+ */
+export const validateLanguages = (
+  languages: readonly string[],
+  availableLanguages: readonly string[],
+  options: LanguageValidationOptions = {},
+): string | undefined => {
+  const unknownLanguages = languages.filter(
+    (language) => !availableLanguages.includes(language),
+  );
+
+  if (options.allowMissing) {
+    const invalidLanguages = unknownLanguages.filter(
+      (language) => !isLanguageCode(language),
+    );
+    return invalidLanguages.length === 0
+      ? undefined
+      : `Invalid language code(s): ${invalidLanguages.join(', ')}. Available languages: ${availableLanguages.join(', ')}`;
+  }
+
+  if (unknownLanguages.length === 0) {
+    return undefined;
+  }
+
+  return `Unknown language(s): ${unknownLanguages.join(', ')}. Available languages: ${availableLanguages.join(', ')}`;
+};
+
+/**
+ * Builds the notice shown at the top of a prompt generated from the
+ * fallback language
+ */
+export const getUntranslatedNotice = (
+  language: string,
+  fallbackLanguage: string,
+): string =>
+  `> **Untranslated:** this prompt is not available in "${language}" yet; the "${fallbackLanguage}" version is used instead.\n\n`;
+
+/**
+ * Turns a template of the fallback language into a stand-in for another
+ * language, prefixed with an untranslated notice
+ */
+export const createFallbackTemplate = (
+  template: PromptTemplate,
+  language: string,
+): PromptTemplate => ({
+  ...template,
+  language,
+  content: `${getUntranslatedNotice(language, template.language)}${template.content}`,
+  fallbackLanguage: template.language,
+});
+
+/**
+ * Adds stand-ins for the fallback templates missing from a language
+ * @param templates - The templates available in the language
+ * @param fallbackTemplates - The templates of the fallback language
+ * @param language - The language to complete
+ * @returns The language's templates followed by the stand-ins, by file name
+ */
+export const addFallbackTemplates = (
+  templates: readonly PromptTemplate[],
+  fallbackTemplates: readonly PromptTemplate[],
+  language: string,
+): readonly PromptTemplate[] => {
+  const translated = new Set(templates.map((template) => template.fileName));
+
+  return [
+    ...templates,
+    ...fallbackTemplates
+      .filter((template) => !translated.has(template.fileName))
+      .map((template) => createFallbackTemplate(template, language)),
+  ].sort((a, b) => a.fileName.localeCompare(b.fileName));
+};
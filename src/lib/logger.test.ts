@@ -1,9 +1,23 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import type { FileCreationResult } from './file-operations.js';
 import {
+  configureLogger,
+  createConsoleSink,
+  isLevelEnabled,
+  type LogEntry,
   log,
+  logDiffPreview,
   logDirectoryCreation,
+  logInitSummary,
+  logLintReport,
+  logParityReport,
+  logPromptStatus,
   logResults,
+  logScaffoldedTemplates,
+  logTemplateCatalog,
   logTemplateLoading,
   logWelcome,
 } from './logger.js';
@@ -17,10 +31,15 @@ describe('logger', () => {
     mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
     mockConsoleWarn = vi.spyOn(console, 'warn').mockImplementation(() => {});
     mockConsoleError = vi.spyOn(console, 'error').mockImplementation(() => {});
+    // Icons are asserted whatever NO_COLOR is in the environment
+    vi.stubEnv('NO_COLOR', '');
+    configureLogger({ emoji: true, color: false });
   });
 
   afterEach(() => {
     vi.restoreAllMocks();
+    vi.unstubAllEnvs();
+    configureLogger();
   });
 
   describe('log', () => {
@@ -37,7 +56,7 @@ describe('logger', () => {
     });
 
     it('should log warning messages with warning icon', () => {
-      log('warning', 'Test warning message');
+      log('warn', 'Test warning message');
 
       expect(mockConsoleWarn).toHaveBeenCalledWith('⚠️  Test warning message');
     });
@@ -47,6 +66,118 @@ describe('logger', () => {
 
       expect(mockConsoleError).toHaveBeenCalledWith('❌ Test error message');
     });
+
+    it('should only log debug messages at the debug level', () => {
+      log('debug', 'Hidden message');
+      configureLogger({ level: 'debug', emoji: true, color: false });
+      log('debug', 'Test debug message');
+
+      expect(mockConsoleLog).toHaveBeenCalledTimes(1);
+      expect(mockConsoleLog).toHaveBeenCalledWith('🔍 Test debug message');
+    });
+
+    it('should use the given level instead of the level of the kind', () => {
+      configureLogger({ level: 'warn', emoji: true, color: false });
+      log('info', 'Hidden message');
+      log('info', 'Test header', 'error');
+
+      expect(mockConsoleLog).not.toHaveBeenCalled();
+      expect(mockConsoleError).toHaveBeenCalledWith('ℹ️  Test header');
+    });
+
+    it('should use plain text markers without emoji', () => {
+      configureLogger({ emoji: false, color: false });
+      log('success', 'Test success message');
+      logDirectoryCreation('.prompts', true);
+      logDiffPreview('.prompts/en/test.md', ['-old']);
+
+      expect(mockConsoleLog).toHaveBeenCalledWith('[ok] Test success message');
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '[ok] Created directory: .prompts',
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '[warn] File already exists: .prompts/en/test.md',
+      );
+    });
+
+    it('should turn emoji off when NO_COLOR is set', () => {
+      vi.stubEnv('NO_COLOR', '1');
+      configureLogger();
+      log('error', 'Test error message');
+
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        '[error] Test error message',
+      );
+    });
+
+    it('should send the messages to the configured sinks', () => {
+      const entries: LogEntry[] = [];
+      configureLogger({
+        level: 'warn',
+        sinks: [(entry) => entries.push(entry)],
+      });
+
+      log('info', 'Hidden message');
+      logResults([
+        {
+          success: false,
+          path: '.prompts/en/test.md',
+          skipped: false,
+          error: 'Permission denied',
+        },
+      ]);
+
+      expect(isLevelEnabled('info')).toBe(false);
+      expect(mockConsoleLog).not.toHaveBeenCalled();
+      expect(entries).toEqual([
+        {
+          level: 'error',
+          kind: 'error',
+          text: '❌ Failed to create 1 files:',
+          detail: false,
+        },
+        {
+          level: 'error',
+          kind: 'error',
+          text: '  💥 .prompts/en/test.md: Permission denied',
+          detail: true,
+        },
+        {
+          level: 'warn',
+          kind: 'warn',
+          text: '⚠️  Completed with 1 errors. Check the messages above for details.',
+          detail: false,
+        },
+      ]);
+    });
+
+    it('should also write the messages to a log file', async () => {
+      const tempDir = await fs.mkdtemp(join(tmpdir(), 'logger-test-'));
+      const logFile = join(tempDir, 'logs', 'atman.log');
+      configureLogger({ emoji: true, color: false, logFile });
+
+      log('warn', 'Test warning message');
+
+      expect(mockConsoleWarn).toHaveBeenCalledWith('⚠️  Test warning message');
+      expect(await fs.readFile(logFile, 'utf-8')).toMatch(
+        /^\d{4}-\d{2}-\d{2}T[\d:.]+Z WARN {2}⚠️ {2}Test warning message\n$/,
+      );
+      await fs.rm(tempDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('createConsoleSink', () => {
+    it('should color message headings but not their details', () => {
+      const sink = createConsoleSink(true);
+
+      sink({ level: 'error', kind: 'error', text: '❌ Failed', detail: false });
+      sink({ level: 'error', kind: 'error', text: '  💥 a.md', detail: true });
+
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        '\u001b[31m❌ Failed\u001b[0m',
+      );
+      expect(mockConsoleError).toHaveBeenCalledWith('  💥 a.md');
+    });
   });
 
   describe('logResults', () => {
@@ -71,6 +202,54 @@ describe('logger', () => {
       );
     });
 
+    it('should show token estimates and exceeded budgets', () => {
+      const results: FileCreationResult[] = [
+        {
+          success: true,
+          path: '.prompts/en/small.md',
+          skipped: false,
+          tokens: 120,
+          tokenBudget: 500,
+        },
+        {
+          success: true,
+          path: '.prompts/en/large.md',
+          skipped: false,
+          tokens: 1500,
+          tokenBudget: 1000,
+        },
+      ];
+
+      logResults(results);
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '  📄 .prompts/en/small.md (~120 tokens)',
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '⚠️  1 prompt files exceed their token budget:',
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '  📏 .prompts/en/large.md: ~1,500 tokens (budget: 1000)',
+      );
+    });
+
+    it('should name the languages generated without templates', () => {
+      const results: FileCreationResult[] = [
+        {
+          success: true,
+          path: '.prompts/fr/test1.md',
+          skipped: false,
+          fallbackLanguage: 'en',
+        },
+      ];
+
+      logResults(results, { untranslatedLanguages: ['fr'] });
+
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '⚠️  No templates found for fr; generated every prompt from a fallback language',
+      );
+    });
+
     it('should log results for skipped files', () => {
       const results: FileCreationResult[] = [
         { success: true, path: '.prompts/en/test1.md', skipped: true },
@@ -88,7 +267,7 @@ describe('logger', () => {
       expect(mockConsoleWarn).toHaveBeenCalledWith(
         '⚠️  Skipped 1 existing files (preserved):',
       );
-      expect(mockConsoleLog).toHaveBeenCalledWith('  📋 .prompts/en/test1.md');
+      expect(mockConsoleWarn).toHaveBeenCalledWith('  📋 .prompts/en/test1.md');
     });
 
     it('should log results for failed file creation', () => {
@@ -110,7 +289,7 @@ describe('logger', () => {
       expect(mockConsoleError).toHaveBeenCalledWith(
         '❌ Failed to create 1 files:',
       );
-      expect(mockConsoleLog).toHaveBeenCalledWith(
+      expect(mockConsoleError).toHaveBeenCalledWith(
         '  💥 .prompts/en/test1.md: Permission denied',
       );
       expect(mockConsoleWarn).toHaveBeenCalledWith(
@@ -146,6 +325,134 @@ describe('logger', () => {
       );
     });
 
+    it('should log overwritten files with their backups', () => {
+      const results: FileCreationResult[] = [
+        {
+          success: true,
+          path: '.prompts/en/a.md',
+          skipped: false,
+          overwritten: true,
+        },
+        {
+          success: true,
+          path: '.prompts/en/b.md',
+          skipped: false,
+          overwritten: true,
+          backupPath: '.prompts/en/b.md.20240101T000000000Z.bak',
+        },
+      ];
+
+      logResults(results);
+
+      expect(mockConsoleLog).not.toHaveBeenCalledWith(
+        expect.stringContaining('Created'),
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '⚠️  Overwrote 2 existing files:',
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith('  ✏️  .prompts/en/a.md');
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '  ✏️  .prompts/en/b.md (backup: .prompts/en/b.md.20240101T000000000Z.bak)',
+      );
+    });
+
+    it('should log merged files and files left with conflicts', () => {
+      const results: FileCreationResult[] = [
+        {
+          success: true,
+          path: '.prompts/en/a.md',
+          skipped: false,
+          overwritten: true,
+          merged: true,
+        },
+        {
+          success: true,
+          path: '.prompts/en/b.md',
+          skipped: false,
+          overwritten: true,
+          merged: true,
+          conflicts: 2,
+        },
+      ];
+
+      logResults(results);
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '✅ Merged template updates into 1 edited files:',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith('  🔀 .prompts/en/a.md');
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '⚠️  Left merge conflicts in 1 files:',
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '  ⚔️  .prompts/en/b.md: 2 conflicts',
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '⚠️  Resolve the conflict markers (<<<<<<< / ======= / >>>>>>>) in the files above.',
+      );
+      expect(mockConsoleWarn).not.toHaveBeenCalledWith(
+        expect.stringContaining('Overwrote'),
+      );
+      expect(mockConsoleLog).not.toHaveBeenCalledWith(
+        '✅ All operations completed successfully!',
+      );
+    });
+
+    it('should report untranslated files separately', () => {
+      const results: FileCreationResult[] = [
+        { success: true, path: '.prompts/ja/a.md', skipped: false },
+        {
+          success: true,
+          path: '.prompts/ja/b.md',
+          skipped: false,
+          fallbackLanguage: 'en',
+        },
+      ];
+
+      logResults(results);
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '✅ Created 1 new prompt files:',
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '⚠️  Generated 1 untranslated files from a fallback language:',
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '  🌐 .prompts/ja/b.md (untranslated, from en)',
+      );
+    });
+
+    it('should describe planned actions in a dry run', () => {
+      const results: FileCreationResult[] = [
+        { success: true, path: '.prompts/en/new.md', skipped: false },
+        { success: true, path: '.prompts/en/kept.md', skipped: true },
+        {
+          success: true,
+          path: '.prompts/en/changed.md',
+          skipped: false,
+          overwritten: true,
+        },
+      ];
+
+      logResults(results, { dryRun: true });
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        'ℹ️  Dry run completed: 3 files planned',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '✅ Would create 1 new prompt files:',
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '⚠️  Would overwrite 1 existing files:',
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '⚠️  Would skip 1 existing files (preserved):',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        'ℹ️  Dry run: no files or directories were written.',
+      );
+    });
+
     it('should handle empty results array', () => {
       const results: FileCreationResult[] = [];
 
@@ -179,6 +486,14 @@ describe('logger', () => {
       );
     });
 
+    it('should log planned directories in a dry run', () => {
+      logDirectoryCreation('.prompts', true, true);
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        'ℹ️  Would create directory: .prompts',
+      );
+    });
+
     it('should log info message for existing directory', () => {
       logDirectoryCreation('.prompts', false);
 
@@ -205,4 +520,275 @@ describe('logger', () => {
       );
     });
   });
+
+  describe('logTemplateCatalog', () => {
+    it('should list templates per language with description and tags', () => {
+      logTemplateCatalog({
+        languages: ['en', 'ja'],
+        sources: ['bundled'],
+        templates: [
+          {
+            fileName: 'code-review.md',
+            language: 'en',
+            source: 'bundled',
+            description: 'Review code',
+            tags: ['review'],
+            tokens: 1234,
+            missingLanguages: [],
+          },
+          {
+            fileName: 'extra.md',
+            language: 'en',
+            source: 'bundled',
+            tags: [],
+            tokens: 80,
+            tokenBudget: 50,
+            missingLanguages: ['ja'],
+          },
+        ],
+        errors: [],
+      });
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        'ℹ️  Templates for language: en',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '  📄 code-review.md - Review code [review] (~1,234 tokens)',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '  📄 extra.md (~80 tokens, budget: 50 exceeded) (missing in: ja)',
+      );
+      expect(mockConsoleLog).not.toHaveBeenCalledWith(
+        'ℹ️  Templates for language: ja',
+      );
+    });
+
+    it('should show template sources when custom directories are used', () => {
+      logTemplateCatalog({
+        languages: ['en'],
+        sources: ['company-prompts', 'bundled'],
+        templates: [
+          {
+            fileName: 'code-review.md',
+            language: 'en',
+            source: 'company-prompts',
+            tags: [],
+            tokens: 10,
+            missingLanguages: [],
+          },
+          {
+            fileName: 'debugging.md',
+            language: 'en',
+            source: 'bundled',
+            tags: [],
+            tokens: 20,
+            missingLanguages: [],
+          },
+        ],
+        errors: [],
+      });
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '  📄 code-review.md (~10 tokens) <company-prompts>',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '  📄 debugging.md (~20 tokens) <bundled>',
+      );
+    });
+
+    it('should log catalog errors', () => {
+      logTemplateCatalog({
+        languages: ['fr'],
+        sources: ['bundled'],
+        templates: [],
+        errors: ['No template files found for language: fr'],
+      });
+
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        '❌ No template files found for language: fr',
+      );
+    });
+  });
+
+  describe('logDiffPreview', () => {
+    it('should warn about the existing file and print the diff', () => {
+      logDiffPreview('.prompts/en/a.md', ['- old', '+ new']);
+
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '⚠️  File already exists: .prompts/en/a.md',
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith('  - old');
+      expect(mockConsoleWarn).toHaveBeenCalledWith('  + new');
+    });
+  });
+
+  describe('logPromptStatus', () => {
+    it('should print a status table per language with a summary', () => {
+      logPromptStatus([
+        {
+          path: '.prompts/en/code-review.md',
+          language: 'en',
+          template: 'code-review.md',
+          state: 'unmodified',
+        },
+        {
+          path: '.prompts/en/debugging.md',
+          language: 'en',
+          template: 'debugging.md',
+          state: 'modified',
+        },
+        {
+          path: '.prompts/ja/debugging.md',
+          language: 'ja',
+          template: 'debugging.md',
+          state: 'missing',
+        },
+      ]);
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        'ℹ️  Prompt status for language: en',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '  ✅ code-review.md  unmodified',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '  ✏️  debugging.md    modified',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        'ℹ️  Prompt status for language: ja',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        'ℹ️  Status: 1 unmodified, 1 modified, 1 missing',
+      );
+    });
+  });
+
+  describe('logParityReport', () => {
+    it('should confirm translations in sync', () => {
+      logParityReport({ languages: ['en', 'ja'], issues: [] });
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '✅ Translations are in sync across: en, ja',
+      );
+    });
+
+    it('should group issues by template', () => {
+      logParityReport({
+        languages: ['en', 'ja'],
+        issues: [
+          {
+            template: 'review.md',
+            language: 'ja',
+            referenceLanguage: 'en',
+            kind: 'headings',
+            message: 'has 1 ## sections, en has 2',
+          },
+          {
+            template: 'review.md',
+            language: 'ja',
+            referenceLanguage: 'en',
+            kind: 'placeholders',
+            message: 'placeholders differ from en: missing {{language}}',
+          },
+        ],
+      });
+
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '⚠️  Translation issues in review.md:',
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '  📑 ja: has 1 ## sections, en has 2',
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '  🧩 ja: placeholders differ from en: missing {{language}}',
+      );
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        '❌ Found 2 translation issues in 1 templates',
+      );
+    });
+  });
+
+  describe('logLintReport', () => {
+    it('should list issues per file with a summary', () => {
+      logLintReport({
+        files: 2,
+        issues: [
+          {
+            template: 'review.md',
+            language: 'en',
+            source: 'company',
+            rule: 'front-matter',
+            severity: 'error',
+            message: 'Invalid front matter at line 2: bad',
+          },
+          {
+            template: 'review.md',
+            language: 'en',
+            source: 'company',
+            rule: 'empty-section',
+            severity: 'warning',
+            message: 'Section "## Notes" is empty',
+            line: 8,
+          },
+        ],
+        errorCount: 1,
+        warningCount: 1,
+      });
+
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        'ℹ️  en/review.md <company>',
+      );
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        '  ❌ Invalid front matter at line 2: bad (front-matter)',
+      );
+      expect(mockConsoleWarn).toHaveBeenCalledWith(
+        '  ⚠️  8: Section "## Notes" is empty (empty-section)',
+      );
+      expect(mockConsoleError).toHaveBeenCalledWith(
+        '❌ Linted 2 templates: 1 errors, 1 warnings',
+      );
+    });
+
+    it('should report clean templates', () => {
+      logLintReport({ files: 2, issues: [], errorCount: 0, warningCount: 0 });
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '✅ Linted 2 templates: 0 errors, 0 warnings',
+      );
+    });
+  });
+
+  describe('logInitSummary', () => {
+    it('should list the chosen settings', () => {
+      logInitSummary({
+        outputDir: '.prompts',
+        languages: ['en', 'ja'],
+        templates: [],
+        variables: { language: 'TypeScript' },
+      });
+
+      expect(mockConsoleLog).toHaveBeenCalledWith('ℹ️  Project setup:');
+      expect(mockConsoleLog).toHaveBeenCalledWith('  🌐 Languages: en, ja');
+      expect(mockConsoleLog).toHaveBeenCalledWith('  📄 Templates: all');
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '  🧩 {{language}}: TypeScript',
+      );
+    });
+  });
+
+  describe('logScaffoldedTemplates', () => {
+    it('should list the created files', () => {
+      logScaffoldedTemplates([
+        { language: 'en', path: 'templates/en/api-design.md' },
+        { language: 'ja', path: 'templates/ja/api-design.md' },
+      ]);
+
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '✅ Created 2 template files:',
+      );
+      expect(mockConsoleLog).toHaveBeenCalledWith(
+        '  📄 templates/ja/api-design.md',
+      );
+    });
+  });
 });
@@ -1,79 +1,396 @@
 /**
  * Logging and user feedback utilities for the atman-prompts CLI tool.
- * Provides structured logging with different levels and result reporting.
+ * Messages have a level and go to pluggable sinks, the console by default,
+ * with emoji or plain text markers and optional colors.
  */
 
+import { appendFileSync, mkdirSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
 import type { FileCreationResult } from './file-operations.js';
+import type { InitChoices } from './init-wizard.js';
+import type { PromptFileState, PromptFileStatus } from './prompt-status.js';
+import type { TemplateCatalog } from './template-catalog.js';
+import type { LintReport } from './template-lint.js';
+import type { ScaffoldedTemplate } from './template-scaffold.js';
+import { formatTokenCount } from './token-estimate.js';
+import type { ParityIssueKind, ParityReport } from './translation-parity.js';
 
-export type LogLevel = 'info' | 'success' | 'warning' | 'error';
+/** Severity of a message; messages below the configured level are dropped */
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+/** How a message is presented; successes are logged at the info level */
+export type LogKind = LogLevel | 'success';
+
+export type LogEntry = {
+  readonly level: LogLevel;
+  readonly kind: LogKind;
+  /** The formatted line with its icon, without colors */
+  readonly text: string;
+  /** Indented lines listing the details of the message before them */
+  readonly detail: boolean;
+};
+
+/** Receives every message at or above the configured level */
+export type LogSink = (entry: LogEntry) => void;
+
+export type LoggerOptions = {
+  /** Minimum level of logged messages; defaults to info */
+  readonly level?: LogLevel;
+  /** Use emoji icons; defaults to on unless NO_COLOR is set */
+  readonly emoji?: boolean;
+  /** Color console messages; defaults to on for terminals unless NO_COLOR is set */
+  readonly color?: boolean;
+  /** Where messages go; defaults to the console */
+  readonly sinks?: readonly LogSink[];
+  /** Also write the messages to this file, replacing its content */
+  readonly logFile?: string;
+};
+
+type LoggerSettings = {
+  readonly level: LogLevel;
+  readonly emoji: boolean;
+  readonly sinks: readonly LogSink[];
+};
+
+export const LOG_LEVELS: readonly LogLevel[] = [
+  'debug',
+  'info',
+  'warn',
+  'error',
+];
+
+/** Emoji and plain text marker of each kind of message */
+const PREFIXES: Readonly<Record<LogKind, readonly [string, string]>> = {
+  debug: ['🔍', '[debug]'],
+  info: ['ℹ️ ', '[info]'],
+  success: ['✅', '[ok]'],
+  warn: ['⚠️ ', '[warn]'],
+  error: ['❌', '[error]'],
+};
+
+/** ANSI color codes of the kinds of console messages */
+const COLORS: Readonly<Partial<Record<LogKind, number>>> = {
+  debug: 90,
+  success: 32,
+  warn: 33,
+  error: 31,
+};
+
+/**
+ * Check whether the user opted out of colors and emoji (https://no-color.org)
+ */
+const isNoColorRequested = (): boolean => Boolean(process.env.NO_COLOR);
+
+/**
+ * Create a sink writing to the console: warning and error messages go to
+ * stderr, everything else to stdout. Messages of either the warn or error
+ * kind or level count, so detail lines stay on the stream of their message.
+ * @param color - Color the messages with ANSI escape codes
+ */
+export const createConsoleSink =
+  (color = false): LogSink =>
+  (entry) => {
+    const code = entry.detail ? undefined : COLORS[entry.kind];
+    const line =
+      color && code !== undefined
+        ? `\u001b[${code}m${entry.text}\u001b[0m`
+        : entry.text;
+
+    const kinds: readonly LogKind[] = [entry.kind, entry.level];
+    if (kinds.includes('error')) {
+      console.error(line);
+    } else if (kinds.includes('warn')) {
+      console.warn(line);
+    } else {
+      console.log(line);
+    }
+  };
 
 /**
- * Log a message with the specified level and appropriate formatting.
- * Uses console methods with color coding for different log levels.
+ * Create a sink writing timestamped lines to a file. The file is created,
+ * or emptied when it exists.
+ * @param filePath - The log file
  */
-export const log = (level: LogLevel, message: string): void => {
-  switch (level) {
-    case 'info':
-      console.log(`ℹ️  ${message}`);
-      break;
-    case 'success':
-      console.log(`✅ ${message}`);
-      break;
-    case 'warning':
-      console.warn(`⚠️  ${message}`);
-      break;
-    case 'error':
-      console.error(`❌ ${message}`);
-      break;
+export const createFileSink = (filePath: string): LogSink => {
+  mkdirSync(dirname(filePath), { recursive: true });
+  writeFileSync(filePath, '');
+
+  return (entry) => {
+    appendFileSync(
+      filePath,
+      `${new Date().toISOString()} ${entry.level.toUpperCase().padEnd(5)} ${entry.text}\n`,
+    );
+  };
+};
+
+/**
+ * Resolve the logger settings, filling in the defaults
+ */
+const toLoggerSettings = (options: LoggerOptions): LoggerSettings => {
+  const color =
+    options.color ?? (Boolean(process.stdout.isTTY) && !isNoColorRequested());
+
+  return {
+    level: options.level ?? 'info',
+    emoji: options.emoji ?? !isNoColorRequested(),
+    sinks: [
+      ...(options.sinks ?? [createConsoleSink(color)]),
+      ...(options.logFile ? [createFileSink(options.logFile)] : []),
+    ],
+  };
+};
+
+let settings = toLoggerSettings({});
+
+/**
+ * Configure the level, presentation and sinks of the logger. Options that
+ * are left out get their defaults again.
+ * @throws Error when the log file cannot be created
+ */
+export const configureLogger = (options: LoggerOptions = {}): void => {
+  settings = toLoggerSettings(options);
+};
+
+/**
+ * Check whether messages of a level are logged
+ */
+export const isLevelEnabled = (level: LogLevel): boolean =>
+  LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(settings.level);
+
+/**
+ * Pick the emoji or its plain text replacement
+ */
+const icon = (emoji: string, plain = '-'): string =>
+  settings.emoji ? emoji : plain;
+
+/**
+ * Pass a line to the sinks when its level is enabled
+ */
+const emit = (
+  level: LogLevel,
+  kind: LogKind,
+  text: string,
+  detail: boolean,
+): void => {
+  if (!isLevelEnabled(level)) {
+    return;
   }
+  settings.sinks.forEach((sink) => {
+    sink({ level, kind, text, detail });
+  });
+};
+
+/**
+ * Log an indented detail line of the message before it
+ */
+const logDetail = (level: LogLevel, text: string): void => {
+  emit(level, level, `  ${text}`, true);
+};
+
+/**
+ * Log a message of the given kind with its icon.
+ * @param kind - How the message is presented
+ * @param message - The message
+ * @param level - Level of the message; defaults to the level of its kind
+ */
+export const log = (
+  kind: LogKind,
+  message: string,
+  level: LogLevel = kind === 'success' ? 'info' : kind,
+): void => {
+  const [emoji, plain] = PREFIXES[kind];
+  emit(level, kind, `${icon(emoji, plain)} ${message}`, false);
 };
 
+export type ResultLogOptions = {
+  /** Describe the results as planned actions of a dry run */
+  readonly dryRun?: boolean;
+  /** Languages without templates, generated from a fallback language */
+  readonly untranslatedLanguages?: readonly string[];
+};
+
+/**
+ * Format the estimated size of a written prompt, if known
+ */
+const formatResultTokens = (result: FileCreationResult): string =>
+  result.tokens === undefined ? '' : `, ${formatTokenCount(result.tokens)}`;
+
 /**
  * Report the results of file creation operations with summary statistics.
  * Displays created files, skipped files, and any errors encountered.
  */
-export const logResults = (results: readonly FileCreationResult[]): void => {
+export const logResults = (
+  results: readonly FileCreationResult[],
+  options: ResultLogOptions = {},
+): void => {
+  const { dryRun = false, untranslatedLanguages = [] } = options;
+  const untranslatedFiles = results.filter(
+    (result) =>
+      result.success &&
+      !result.skipped &&
+      !result.merged &&
+      result.fallbackLanguage,
+  );
   const createdFiles = results.filter(
-    (result) => result.success && !result.skipped,
+    (result) =>
+      result.success &&
+      !result.skipped &&
+      !result.overwritten &&
+      !result.fallbackLanguage,
+  );
+  const overwrittenFiles = results.filter(
+    (result) =>
+      result.success &&
+      result.overwritten &&
+      !result.merged &&
+      !result.fallbackLanguage,
+  );
+  const mergedFiles = results.filter(
+    (result) => result.success && result.merged && !result.conflicts,
+  );
+  const conflictFiles = results.filter(
+    (result) => result.success && result.merged && result.conflicts,
   );
   const skippedFiles = results.filter((result) => result.skipped);
+  const overBudgetFiles = results.filter(
+    (result) =>
+      result.success &&
+      result.tokens !== undefined &&
+      result.tokenBudget !== undefined &&
+      result.tokens > result.tokenBudget,
+  );
   const errorFiles = results.filter(
     (result) => !result.success && result.error,
   );
 
   // Log summary statistics
-  log('info', `File generation completed: ${results.length} files processed`);
+  if (dryRun) {
+    log('info', `Dry run completed: ${results.length} files planned`);
+  } else {
+    log('info', `File generation completed: ${results.length} files processed`);
+  }
 
   if (createdFiles.length > 0) {
-    log('success', `Created ${createdFiles.length} new prompt files:`);
+    log(
+      'success',
+      `${dryRun ? 'Would create' : 'Created'} ${createdFiles.length} new prompt files:`,
+    );
     createdFiles.forEach((file) => {
-      console.log(`  📄 ${file.path}`);
+      const tokens =
+        file.tokens === undefined ? '' : ` (${formatTokenCount(file.tokens)})`;
+      logDetail('info', `${icon('📄')} ${file.path}${tokens}`);
+    });
+  }
+
+  if (overwrittenFiles.length > 0) {
+    log(
+      'warn',
+      `${dryRun ? 'Would overwrite' : 'Overwrote'} ${overwrittenFiles.length} existing files:`,
+    );
+    overwrittenFiles.forEach((file) => {
+      const details = [
+        ...(file.tokens === undefined ? [] : [formatTokenCount(file.tokens)]),
+        ...(file.backupPath ? [`backup: ${file.backupPath}`] : []),
+      ];
+      const suffix = details.length > 0 ? ` (${details.join(', ')})` : '';
+      logDetail('warn', `${icon('✏️ ')} ${file.path}${suffix}`);
+    });
+  }
+
+  if (untranslatedLanguages.length > 0) {
+    log(
+      'warn',
+      `No templates found for ${untranslatedLanguages.join(', ')}; ${dryRun ? 'would generate' : 'generated'} every prompt from a fallback language`,
+    );
+  }
+
+  if (untranslatedFiles.length > 0) {
+    log(
+      'warn',
+      `${dryRun ? 'Would generate' : 'Generated'} ${untranslatedFiles.length} untranslated files from a fallback language:`,
+    );
+    untranslatedFiles.forEach((file) => {
+      const backup = file.backupPath ? `, backup: ${file.backupPath}` : '';
+      logDetail(
+        'warn',
+        `${icon('🌐')} ${file.path} (untranslated, from ${file.fallbackLanguage}${formatResultTokens(file)}${backup})`,
+      );
+    });
+  }
+
+  if (mergedFiles.length > 0) {
+    log(
+      'success',
+      `${dryRun ? 'Would merge' : 'Merged'} template updates into ${mergedFiles.length} edited files:`,
+    );
+    mergedFiles.forEach((file) => {
+      const backup = file.backupPath ? ` (backup: ${file.backupPath})` : '';
+      logDetail('info', `${icon('🔀')} ${file.path}${backup}`);
+    });
+  }
+
+  if (conflictFiles.length > 0) {
+    log(
+      'warn',
+      `${dryRun ? 'Would leave' : 'Left'} merge conflicts in ${conflictFiles.length} files:`,
+    );
+    conflictFiles.forEach((file) => {
+      const backup = file.backupPath ? ` (backup: ${file.backupPath})` : '';
+      logDetail(
+        'warn',
+        `${icon('⚔️ ')} ${file.path}: ${file.conflicts} conflicts${backup}`,
+      );
     });
   }
 
   if (skippedFiles.length > 0) {
     log(
-      'warning',
-      `Skipped ${skippedFiles.length} existing files (preserved):`,
+      'warn',
+      `${dryRun ? 'Would skip' : 'Skipped'} ${skippedFiles.length} existing files (preserved):`,
     );
     skippedFiles.forEach((file) => {
-      console.log(`  📋 ${file.path}`);
+      const unchanged = file.unchanged ? ' (unchanged)' : '';
+      logDetail('warn', `${icon('📋')} ${file.path}${unchanged}`);
+    });
+  }
+
+  if (overBudgetFiles.length > 0) {
+    log(
+      'warn',
+      `${overBudgetFiles.length} prompt files exceed their token budget:`,
+    );
+    overBudgetFiles.forEach((file) => {
+      logDetail(
+        'warn',
+        `${icon('📏')} ${file.path}: ${formatTokenCount(file.tokens ?? 0)} (budget: ${file.tokenBudget})`,
+      );
     });
   }
 
   if (errorFiles.length > 0) {
     log('error', `Failed to create ${errorFiles.length} files:`);
     errorFiles.forEach((file) => {
-      console.log(`  💥 ${file.path}: ${file.error}`);
+      logDetail('error', `${icon('💥')} ${file.path}: ${file.error}`);
     });
   }
 
   // Final status message
-  if (errorFiles.length === 0) {
+  if (dryRun) {
+    log('info', 'Dry run: no files or directories were written.');
+  }
+
+  if (conflictFiles.length > 0 && !dryRun) {
+    log(
+      'warn',
+      'Resolve the conflict markers (<<<<<<< / ======= / >>>>>>>) in the files above.',
+    );
+  }
+
+  if (errorFiles.length === 0 && (conflictFiles.length === 0 || dryRun)) {
     log('success', 'All operations completed successfully!');
-  } else {
+  } else if (errorFiles.length > 0) {
     log(
-      'warning',
+      'warn',
       `Completed with ${errorFiles.length} errors. Check the messages above for details.`,
     );
   }
@@ -89,8 +406,14 @@ export const logWelcome = (): void => {
 /**
  * Log directory creation status with appropriate messaging.
  */
-export const logDirectoryCreation = (path: string, created: boolean): void => {
-  if (created) {
+export const logDirectoryCreation = (
+  path: string,
+  created: boolean,
+  dryRun = false,
+): void => {
+  if (created && dryRun) {
+    log('info', `Would create directory: ${path}`);
+  } else if (created) {
     log('success', `Created directory: ${path}`);
   } else {
     log('info', `Directory already exists: ${path}`);
@@ -103,3 +426,209 @@ export const logDirectoryCreation = (path: string, created: boolean): void => {
 export const logTemplateLoading = (language: string, count: number): void => {
   log('info', `Loaded ${count} template files for language: ${language}`);
 };
+
+/**
+ * Report the available templates grouped by language.
+ * Templates that are missing in some of the listed languages are marked.
+ */
+export const logTemplateCatalog = (catalog: TemplateCatalog): void => {
+  for (const language of catalog.languages) {
+    const templates = catalog.templates.filter(
+      (template) => template.language === language,
+    );
+    if (templates.length === 0) {
+      continue;
+    }
+
+    log('info', `Templates for language: ${language}`);
+    templates.forEach((template) => {
+      const description = template.description
+        ? ` - ${template.description}`
+        : '';
+      const tags =
+        template.tags.length > 0 ? ` [${template.tags.join(', ')}]` : '';
+      const budget =
+        template.tokenBudget === undefined
+          ? ''
+          : `, budget: ${template.tokenBudget}${template.tokens > template.tokenBudget ? ' exceeded' : ''}`;
+      const tokens = ` (${formatTokenCount(template.tokens)}${budget})`;
+      const missing =
+        template.missingLanguages.length > 0
+          ? ` (missing in: ${template.missingLanguages.join(', ')})`
+          : '';
+      // Only name the source when templates come from more than one place
+      const source = catalog.sources.length > 1 ? ` <${template.source}>` : '';
+      logDetail(
+        'info',
+        `${icon('📄')} ${template.fileName}${description}${tags}${tokens}${missing}${source}`,
+      );
+    });
+  }
+
+  catalog.errors.forEach((error) => {
+    log('error', error);
+  });
+};
+
+/**
+ * Show a preview of the changes that overwriting a file would make.
+ */
+export const logDiffPreview = (
+  filePath: string,
+  diffLines: readonly string[],
+): void => {
+  log('warn', `File already exists: ${filePath}`);
+  diffLines.forEach((line) => {
+    logDetail('warn', line);
+  });
+};
+
+const STATE_ICONS: Readonly<Record<PromptFileState, string>> = {
+  unmodified: '✅',
+  modified: '✏️ ',
+  outdated: '⬆️ ',
+  missing: '❓',
+};
+
+/**
+ * Report the state of generated prompt files as a table per language,
+ * followed by a count of files per state.
+ */
+export const logPromptStatus = (
+  statuses: readonly PromptFileStatus[],
+): void => {
+  const languages = [...new Set(statuses.map((status) => status.language))];
+  const nameWidth = Math.max(
+    0,
+    ...statuses.map((status) => status.template.length),
+  );
+
+  for (const language of languages) {
+    log('info', `Prompt status for language: ${language}`);
+    statuses
+      .filter((status) => status.language === language)
+      .forEach((status) => {
+        logDetail(
+          'info',
+          `${icon(STATE_ICONS[status.state])} ${status.template.padEnd(nameWidth)}  ${status.state}`,
+        );
+      });
+  }
+
+  const counts = (Object.keys(STATE_ICONS) as PromptFileState[])
+    .map((state) => ({
+      state,
+      count: statuses.filter((status) => status.state === state).length,
+    }))
+    .filter(({ count }) => count > 0)
+    .map(({ state, count }) => `${count} ${state}`);
+  log('info', `Status: ${counts.length > 0 ? counts.join(', ') : 'no files'}`);
+};
+
+const PARITY_ICONS: Readonly<Record<ParityIssueKind, string>> = {
+  missing: '❓',
+  headings: '📑',
+  placeholders: '🧩',
+};
+
+/**
+ * Report translation parity issues, grouped by template
+ */
+export const logParityReport = (report: ParityReport): void => {
+  if (report.issues.length === 0) {
+    log(
+      'success',
+      `Translations are in sync across: ${report.languages.join(', ')}`,
+    );
+    return;
+  }
+
+  const templates = [...new Set(report.issues.map((issue) => issue.template))];
+  for (const template of templates) {
+    log('warn', `Translation issues in ${template}:`);
+    report.issues
+      .filter((issue) => issue.template === template)
+      .forEach((issue) => {
+        logDetail(
+          'warn',
+          `${icon(PARITY_ICONS[issue.kind])} ${issue.language}: ${issue.message}`,
+        );
+      });
+  }
+
+  log(
+    'error',
+    `Found ${report.issues.length} translation issues in ${templates.length} templates`,
+  );
+};
+
+/**
+ * Report lint issues grouped by template file, followed by a summary
+ */
+export const logLintReport = (report: LintReport): void => {
+  const files = [
+    ...new Set(
+      report.issues.map((issue) => `${issue.language}/${issue.template}`),
+    ),
+  ];
+
+  for (const file of files) {
+    const issues = report.issues.filter(
+      (issue) => `${issue.language}/${issue.template}` === file,
+    );
+    const level = issues.some((issue) => issue.severity === 'error')
+      ? 'error'
+      : 'warn';
+    log('info', `${file} <${issues[0].source}>`, level);
+    issues.forEach((issue) => {
+      const [emoji, plain] =
+        PREFIXES[issue.severity === 'error' ? 'error' : 'warn'];
+      const line = issue.line !== undefined ? `${issue.line}: ` : '';
+      logDetail(
+        issue.severity === 'error' ? 'error' : 'warn',
+        `${icon(emoji, plain)} ${line}${issue.message} (${issue.rule})`,
+      );
+    });
+  }
+
+  const summary = `Linted ${report.files} templates: ${report.errorCount} errors, ${report.warningCount} warnings`;
+  if (report.errorCount > 0) {
+    log('error', summary);
+  } else if (report.warningCount > 0) {
+    log('warn', summary);
+  } else {
+    log('success', summary);
+  }
+};
+
+/**
+ * Show the settings chosen for a new project
+ */
+export const logInitSummary = (choices: InitChoices): void => {
+  const templates =
+    choices.templates.length > 0 ? choices.templates.join(', ') : 'all';
+
+  log('info', 'Project setup:');
+  logDetail('info', `${icon('📁')} Output directory: ${choices.outputDir}`);
+  logDetail('info', `${icon('🌐')} Languages: ${choices.languages.join(', ')}`);
+  logDetail('info', `${icon('📄')} Templates: ${templates}`);
+  Object.entries(choices.variables).forEach(([name, value]) => {
+    logDetail('info', `${icon('🧩')} {{${name}}}: ${value}`);
+  });
+};
+
+/**
+ * Report the files of a new template
+ */
+export const logScaffoldedTemplates = (
+  templates: readonly ScaffoldedTemplate[],
+): void => {
+  log('success', `Created ${templates.length} template files:`);
+  templates.forEach((template) => {
+    logDetail('info', `${icon('📄')} ${template.path}`);
+  });
+  log(
+    'info',
+    'Fill in the front matter and sections, then check them with "atman-prompts lint".',
+  );
+};
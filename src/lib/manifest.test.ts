@@ -0,0 +1,147 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createManifestEntry,
+  EMPTY_MANIFEST,
+  type GenerationManifest,
+  getManifestKey,
+  getManifestPath,
+  hashContent,
+  hashTemplate,
+  readManifest,
+  writeManifest,
+} from './manifest.js';
+import { parseTemplate } from './template-generator.js';
+
+describe('manifest', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'manifest-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const manifest: GenerationManifest = {
+    manifestVersion: 1,
+    files: {
+      'ja/debugging.md': {
+        template: 'debugging.md',
+        language: 'ja',
+        packageVersion: '1.0.0',
+        hash: hashContent('debug'),
+        generatedAt: '2024-01-01T00:00:00.000Z',
+      },
+      'en/code-review.md': {
+        template: 'code-review.md',
+        language: 'en',
+        packageVersion: '1.0.0',
+        templateVersion: '1.0.0',
+        hash: hashContent('review'),
+        generatedAt: '2024-01-01T00:00:00.000Z',
+      },
+    },
+  };
+
+  describe('getManifestKey', () => {
+    it('should return the path relative to the output directory', () => {
+      expect(
+        getManifestKey('.prompts', join('.prompts', 'en', 'code-review.md')),
+      ).toBe('en/code-review.md');
+    });
+  });
+
+  describe('hashContent', () => {
+    it('should produce stable sha256 hashes', () => {
+      expect(hashContent('abc')).toBe(
+        'sha256-ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad',
+      );
+      expect(hashContent('abc')).not.toBe(hashContent('abd'));
+    });
+  });
+
+  describe('createManifestEntry', () => {
+    const template = parseTemplate(
+      'review.md',
+      'en',
+      '---\nversion: 2.0.0\n---\nReview this {{language|code}}\n',
+    );
+
+    it('should record hashes, content and the template version', () => {
+      const entry = createManifestEntry(
+        template,
+        'Review this code\n',
+        '1.0.0',
+      );
+
+      expect(entry).toMatchObject({
+        template: 'review.md',
+        language: 'en',
+        packageVersion: '1.0.0',
+        templateVersion: '2.0.0',
+        hash: hashContent('Review this code\n'),
+        templateHash: hashTemplate(template),
+        content: 'Review this code\n',
+      });
+      expect(entry.variables).toBeUndefined();
+    });
+
+    it('should record only the variables used by the template', () => {
+      const entry = createManifestEntry(template, 'Review this Go\n', '1.0.0', {
+        language: 'Go',
+        unrelated: 'value',
+      });
+
+      expect(entry.variables).toEqual({ language: 'Go' });
+    });
+  });
+
+  describe('readManifest', () => {
+    it('should return an empty manifest when none exists', async () => {
+      expect(await readManifest(tempDir)).toEqual(EMPTY_MANIFEST);
+    });
+
+    it('should reject invalid JSON with the manifest path', async () => {
+      await fs.writeFile(getManifestPath(tempDir), '{ nope');
+
+      await expect(readManifest(tempDir)).rejects.toThrow(/Invalid manifest/);
+    });
+
+    it('should reject malformed entries', async () => {
+      await fs.writeFile(
+        getManifestPath(tempDir),
+        JSON.stringify({ files: { 'en/a.md': { template: 'a.md' } } }),
+      );
+
+      await expect(readManifest(tempDir)).rejects.toThrow(
+        /malformed file entries/,
+      );
+    });
+  });
+
+  describe('writeManifest', () => {
+    it('should round-trip the manifest with sorted entries', async () => {
+      await writeManifest(tempDir, manifest);
+
+      expect(await readManifest(tempDir)).toEqual(manifest);
+
+      const raw = await fs.readFile(getManifestPath(tempDir), 'utf8');
+      expect(raw.indexOf('en/code-review.md')).toBeLessThan(
+        raw.indexOf('ja/debugging.md'),
+      );
+      expect(raw.endsWith('\n')).toBe(true);
+    });
+
+    it('should not leave temporary files behind', async () => {
+      await writeManifest(tempDir, manifest);
+      await writeManifest(tempDir, EMPTY_MANIFEST);
+
+      expect(await fs.readdir(tempDir)).toEqual(['.atman-lock.json']);
+      expect(await readManifest(tempDir)).toEqual(EMPTY_MANIFEST);
+    });
+  });
+});
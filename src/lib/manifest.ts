@@ -0,0 +1,186 @@
+/**
+ * Generation manifest (lock file) recording where each generated prompt file
+ * came from, so pristine files can be told apart from customized ones.
+ */
+
+import { createHash } from 'node:crypto';
+import { promises as fs } from 'node:fs';
+import { join, relative, sep } from 'node:path';
+import type { PromptTemplate } from './template-generator.js';
+import type { TemplateVariables } from './template-variables.js';
+
+// Type definitions for the manifest
+export type ManifestEntry = {
+  readonly template: string;
+  readonly language: string;
+  readonly packageVersion: string;
+  readonly templateVersion?: string;
+  readonly hash: string;
+  /** Hash of the template source the file was generated from */
+  readonly templateHash?: string;
+  /** The generated content, used as the merge base when updating */
+  readonly content?: string;
+  /** Variable values given for the template's placeholders */
+  readonly variables?: TemplateVariables;
+  readonly generatedAt: string;
+};
+
+export type GenerationManifest = {
+  readonly manifestVersion: 1;
+  readonly files: Readonly<Record<string, ManifestEntry>>;
+};
+
+export const MANIFEST_FILE_NAME = '.atman-lock.json';
+
+export const EMPTY_MANIFEST: GenerationManifest = {
+  manifestVersion: 1,
+  files: {},
+};
+
+/**
+ * Resolve the manifest location inside an output directory
+ */
+export const getManifestPath = (outputDir: string): string =>
+  join(outputDir, MANIFEST_FILE_NAME);
+
+/**
+ * Build the manifest key of a generated file: its path relative to the
+ * output directory using forward slashes, e.g. 'en/code-review.md'
+ */
+export const getManifestKey = (outputDir: string, filePath: string): string =>
+  relative(outputDir, filePath).split(sep).join('/');
+
+/**
+ * Hash file content for change detection
+ */
+export const hashContent = (content: string): string =>
+  `sha256-${createHash('sha256').update(content, 'utf8').digest('hex')}`;
+
+/**
+ * Hash the source of a template (front matter and body) to detect template changes
+ */
+export const hashTemplate = (template: PromptTemplate): string =>
+  hashContent(`${template.frontMatter ?? ''}${template.content}`);
+
+/**
+ * Create the manifest entry for a file generated from a template
+ * @param template - The source template
+ * @param content - The content written to the file
+ * @param packageVersion - The atman-prompts version that generated the file
+ * @param variables - Variable values used for rendering; only those used by
+ * the template are recorded
+ */
+export const createManifestEntry = (
+  template: PromptTemplate,
+  content: string,
+  packageVersion: string,
+  variables: TemplateVariables = {},
+): ManifestEntry => {
+  const usedVariables = Object.fromEntries(
+    template.placeholders
+      .filter((placeholder) => Object.hasOwn(variables, placeholder.name))
+      .map((placeholder) => [placeholder.name, variables[placeholder.name]]),
+  );
+
+  return {
+    template: template.fileName,
+    language: template.language,
+    packageVersion,
+    ...(template.metadata.version !== undefined && {
+      templateVersion: template.metadata.version,
+    }),
+    hash: hashContent(content),
+    templateHash: hashTemplate(template),
+    content,
+    ...(Object.keys(usedVariables).length > 0 && { variables: usedVariables }),
+    generatedAt: new Date().toISOString(),
+  };
+};
+
+const isManifestEntry = (value: unknown): value is ManifestEntry => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.template === 'string' &&
+    typeof entry.language === 'string' &&
+    typeof entry.packageVersion === 'string' &&
+    typeof entry.hash === 'string' &&
+    typeof entry.generatedAt === 'string'
+  );
+};
+
+/**
+ * Read the manifest of an output directory
+ * @param outputDir - The prompts output directory
+ * @returns Promise resolving to the manifest, empty if none has been written yet
+ * @throws Error when the manifest exists but is not valid
+ */
+export const readManifest = async (
+  outputDir: string,
+): Promise<GenerationManifest> => {
+  const manifestPath = getManifestPath(outputDir);
+
+  let raw: string;
+  try {
+    raw = await fs.readFile(manifestPath, 'utf8');
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return EMPTY_MANIFEST;
+    }
+    throw error;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `Invalid manifest ${manifestPath}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+
+  const files = (parsed as { files?: unknown } | null)?.files;
+  if (
+    typeof files !== 'object' ||
+    files === null ||
+    !Object.values(files).every(isManifestEntry)
+  ) {
+    throw new Error(`Invalid manifest ${manifestPath}: malformed file entries`);
+  }
+
+  return {
+    manifestVersion: 1,
+    files: files as Record<string, ManifestEntry>,
+  };
+};
+
+/**
+ * Write the manifest atomically: the content goes to a temporary file first,
+ * which is then renamed over the previous manifest.
+ */
+export const writeManifest = async (
+  outputDir: string,
+  manifest: GenerationManifest,
+): Promise<void> => {
+  const manifestPath = getManifestPath(outputDir);
+  const tempPath = `${manifestPath}.${process.pid}.tmp`;
+
+  // Sort entries so the file diffs cleanly under version control
+  const files = Object.fromEntries(
+    Object.entries(manifest.files).sort(([a], [b]) => a.localeCompare(b)),
+  );
+
+  try {
+    await fs.writeFile(
+      tempPath,
+      `${JSON.stringify({ ...manifest, files }, null, 2)}\n`,
+      'utf8',
+    );
+    await fs.rename(tempPath, manifestPath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+};
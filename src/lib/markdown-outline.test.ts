@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { demoteHeadings, extractHeadings } from './markdown-outline.js';
+
+const DOCUMENT = [
+  '# Title',
+  'Text',
+  '```md',
+  '## Not a heading',
+  '```',
+  '## Section ##',
+  '###### Deepest',
+].join('\n');
+
+describe('markdown-outline', () => {
+  describe('extractHeadings', () => {
+    it('should list headings outside fenced code blocks', () => {
+      expect(extractHeadings(DOCUMENT)).toEqual([
+        { level: 1, text: 'Title', line: 1 },
+        { level: 2, text: 'Section', line: 6 },
+        { level: 6, text: 'Deepest', line: 7 },
+      ]);
+    });
+  });
+
+  describe('demoteHeadings', () => {
+    it('should move headings down without going below level 6', () => {
+      expect(demoteHeadings(DOCUMENT)).toBe(
+        [
+          '## Title',
+          'Text',
+          '```md',
+          '## Not a heading',
+          '```',
+          '### Section ##',
+          '###### Deepest',
+        ].join('\n'),
+      );
+    });
+  });
+});
@@ -0,0 +1,70 @@
+/**
+ * Minimal Markdown heading scanner shared by the template checks.
+ */
+
+export type MarkdownHeading = {
+  readonly level: number;
+  readonly text: string;
+  /** 1-based line number within the scanned content */
+  readonly line: number;
+};
+
+const HEADING_PATTERN = /^(#{1,6})\s+(\S.*?)\s*#*\s*$/;
+
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+
+/**
+ * Lists the ATX headings of a Markdown document, ignoring lines inside
+ * fenced code blocks
+ * @param content - The Markdown content
+ * @returns The headings in document order
+ */
+export const extractHeadings = (
+  content: string,
+): readonly MarkdownHeading[] => {
+  const headings: MarkdownHeading[] = [];
+  let inFence = false;
+
+  content.split(/\r?\n/).forEach((line, index) => {
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+      return;
+    }
+    const match = inFence ? null : HEADING_PATTERN.exec(line);
+    if (match) {
+      headings.push({
+        level: match[1].length,
+        text: match[2],
+        line: index + 1,
+      });
+    }
+  });
+
+  return headings;
+};
+
+/**
+ * Moves every ATX heading of a Markdown document down by some levels, so the
+ * document can be embedded as a section of another one. Headings never go
+ * below level 6.
+ * @param content - The Markdown content
+ * @param levels - How many levels to move the headings down
+ * @returns The content with its headings demoted
+ */
+export const demoteHeadings = (content: string, levels = 1): string => {
+  const headingLines = new Set(
+    extractHeadings(content).map((heading) => heading.line),
+  );
+
+  return content
+    .split('\n')
+    .map((line, index) => {
+      if (!headingLines.has(index + 1)) {
+        return line;
+      }
+      return line.replace(/^#+/, (hashes) =>
+        '#'.repeat(Math.min(hashes.length + levels, 6)),
+      );
+    })
+    .join('\n');
+};
@@ -0,0 +1,116 @@
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  findLayoutCollision,
+  getLayoutDirectories,
+  getPromptPath,
+  resolveLayout,
+} from './output-layout.js';
+import { parseTemplate } from './template-generator.js';
+
+const REVIEW = parseTemplate(
+  'code-review.md',
+  'en',
+  '---\ncategory: review\n---\n# Review\n',
+);
+const REVIEW_JA = parseTemplate(
+  'code-review.md',
+  'ja',
+  '---\ncategory: review\n---\n# レビュー\n',
+);
+const NOTES = parseTemplate('notes.md', 'en', '# Notes\n');
+
+describe('output-layout', () => {
+  describe('resolveLayout', () => {
+    it('should resolve presets and accept valid patterns', () => {
+      expect(resolveLayout('by-language')).toBe('{lang}/{name}.md');
+      expect(resolveLayout('flat-suffixed')).toBe('{name}.{lang}.md');
+      expect(resolveLayout('{category}/{name}.{lang}.md')).toBe(
+        '{category}/{name}.{lang}.md',
+      );
+    });
+
+    it.each([
+      ['{lang}/prompt.md', 'the pattern must contain {name}'],
+      ['{name}.{language}.md', 'unknown placeholder(s) {language}'],
+      ['../{name}.md', 'the pattern must be a relative file path'],
+      ['/{name}.md', 'the pattern must be a relative file path'],
+    ])('should reject %s', (layout, message) => {
+      expect(() => resolveLayout(layout)).toThrow(
+        `Invalid layout "${layout}": ${message}`,
+      );
+    });
+  });
+
+  describe('getPromptPath', () => {
+    it('should fill in the pattern of the layout', () => {
+      expect(getPromptPath('.prompts', 'by-language', REVIEW)).toBe(
+        join('.prompts', 'en', 'code-review.md'),
+      );
+      expect(getPromptPath('.prompts', 'flat-suffixed', REVIEW_JA)).toBe(
+        join('.prompts', 'code-review.ja.md'),
+      );
+      expect(
+        getPromptPath('.prompts', '{category}/{name}.{lang}.md', NOTES),
+      ).toBe(join('.prompts', 'general', 'notes.en.md'));
+    });
+
+    it('should reject categories that are not directory names', () => {
+      const template = parseTemplate(
+        'a.md',
+        'en',
+        '---\ncategory: ../up\n---\nA\n',
+      );
+
+      expect(() =>
+        getPromptPath('.prompts', '{category}/{name}.md', template),
+      ).toThrow('Invalid category "../up" of en/a.md');
+    });
+  });
+
+  describe('getLayoutDirectories', () => {
+    it('should list the directories the layout needs', () => {
+      const templates = [REVIEW, REVIEW_JA, NOTES];
+
+      expect(getLayoutDirectories('by-language', templates)).toEqual([
+        'en',
+        'ja',
+      ]);
+      expect(getLayoutDirectories('flat-suffixed', templates)).toEqual([]);
+      expect(
+        getLayoutDirectories('{category}/{lang}/{name}.md', templates),
+      ).toEqual([
+        join('general', 'en'),
+        join('review', 'en'),
+        join('review', 'ja'),
+      ]);
+    });
+  });
+
+  describe('findLayoutCollision', () => {
+    it('should accept layouts giving every template its own file', () => {
+      expect(
+        findLayoutCollision('.prompts', 'flat-suffixed', [REVIEW, REVIEW_JA]),
+      ).toBeUndefined();
+    });
+
+    it('should report templates written to the same file', () => {
+      expect(
+        findLayoutCollision('.prompts', '{category}/{name}.md', [
+          REVIEW,
+          REVIEW_JA,
+        ]),
+      ).toBe(
+        `Layout "{category}/{name}.md" writes both en/code-review.md and ja/code-review.md to ${join('.prompts', 'review', 'code-review.md')}`,
+      );
+    });
+
+    it('should treat paths differing only in case as the same file', () => {
+      const upper = parseTemplate('Code-Review.md', 'en', '# Review\n');
+
+      expect(
+        findLayoutCollision('.prompts', 'by-language', [REVIEW, upper]),
+      ).toMatch(/writes both en\/code-review\.md and en\/Code-Review\.md/);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Output layouts deciding where the prompt file of each template is written
+ * inside the output directory.
+ */
+
+import { dirname, join } from 'node:path';
+import { getTemplateName } from './template-filter.js';
+import type { PromptTemplate } from './template-generator.js';
+
+// Type definitions for output layouts
+/**
+ * - by-language: one directory per language, e.g. en/code-review.md
+ * - flat-suffixed: a single directory with language suffixes, e.g. code-review.en.md
+ */
+export type LayoutPreset = 'by-language' | 'flat-suffixed';
+
+export const LAYOUT_PRESETS: Readonly<Record<LayoutPreset, string>> = {
+  'by-language': '{lang}/{name}.md',
+  'flat-suffixed': '{name}.{lang}.md',
+};
+
+export const DEFAULT_LAYOUT: LayoutPreset = 'by-language';
+
+/** Category of templates without one in their front matter */
+export const DEFAULT_CATEGORY = 'general';
+
+const LAYOUT_TOKENS = ['name', 'lang', 'category'] as const;
+
+const TOKEN_PATTERN = /\{([^{}]*)\}/g;
+
+const isLayoutPreset = (layout: string): layout is LayoutPreset =>
+  Object.hasOwn(LAYOUT_PRESETS, layout);
+
+/**
+ * Find the problem with a layout pattern, if any
+ */
+const findPatternError = (pattern: string): string | undefined => {
+  const tokens = [...pattern.matchAll(TOKEN_PATTERN)].map((match) => match[1]);
+  const unknownTokens = tokens.filter(
+    (token) => !(LAYOUT_TOKENS as readonly string[]).includes(token),
+  );
+  if (unknownTokens.length > 0) {
+    return `unknown placeholder(s) ${unknownTokens.map((token) => `{${token}}`).join(', ')}. Use ${LAYOUT_TOKENS.map((token) => `{${token}}`).join(', ')}`;
+  }
+  if (!tokens.includes('name')) {
+    return 'the pattern must contain {name}';
+  }
+
+  const segments = pattern.split('/');
+  if (
+    pattern.startsWith('/') ||
+    segments.some((segment) => segment === '' || segment === '..')
+  ) {
+    return 'the pattern must be a relative file path inside the output directory';
+  }
+  return undefined;
+};
+
+/**
+ * Resolves a layout to its file name pattern
+ * @param layout - A preset name or a pattern such as "{category}/{name}.{lang}.md"
+ * @returns The pattern
+ * @throws Error when the layout is not a preset and not a valid pattern
+ */
+export const resolveLayout = (layout: string): string => {
+  if (isLayoutPreset(layout)) {
+    return LAYOUT_PRESETS[layout];
+  }
+
+  const error = findPatternError(layout);
+  if (error) {
+    throw new Error(
+      `Invalid layout "${layout}": ${error}. Presets: ${Object.keys(LAYOUT_PRESETS).join(', ')}`,
+    );
+  }
+  return layout;
+};
+
+/**
+ * Builds the path of a template's prompt file relative to the output directory
+ */
+const formatLayoutPath = (layout: string, template: PromptTemplate): string => {
+  const category = template.metadata.category ?? DEFAULT_CATEGORY;
+  if (/[/\\]|^\.\.?$/.test(category)) {
+    throw new Error(
+      `Invalid category "${category}" of ${template.language}/${template.fileName}: it must be usable as a directory name`,
+    );
+  }
+  const values: Readonly<Record<string, string>> = {
+    name: getTemplateName(template.fileName),
+    lang: template.language,
+    category,
+  };
+
+  return join(
+    ...resolveLayout(layout)
+      .replace(TOKEN_PATTERN, (_match, token: string) => values[token])
+      .split('/'),
+  );
+};
+
+/**
+ * Gets the path of the prompt file generated from a template
+ * @param outputDir - The output directory
+ * @param layout - A preset name or a pattern
+ * @param template - The template
+ * @returns The file path inside the output directory
+ */
+export const getPromptPath = (
+  outputDir: string,
+  layout: string,
+  template: PromptTemplate,
+): string => join(outputDir, formatLayoutPath(layout, template));
+
+/**
+ * Lists the subdirectories of the output directory a layout needs
+ * @param layout - A preset name or a pattern
+ * @param templates - The templates to generate
+ * @returns The sorted relative directories, without the output directory itself
+ */
+export const getLayoutDirectories = (
+  layout: string,
+  templates: readonly PromptTemplate[],
+): readonly string[] =>
+  [
+    ...new Set(
+      templates.map((template) => dirname(formatLayoutPath(layout, template))),
+    ),
+  ]
+    .filter((dir) => dir !== '.')
+    .sort();
+
+/**
+ * Checks that no two templates are written to the same file. Paths that
+ * differ only in case collide as well, as they do on case-insensitive file
+ * systems.
+ * @param outputDir - The output directory
+ * @param layout - A preset name or a pattern
+ * @param templates - The templates to generate
+ * @returns An error message, or undefined when every path is unique
+ */
+export const findLayoutCollision = (
+  outputDir: string,
+  layout: string,
+  templates: readonly PromptTemplate[],
+): string | undefined => {
+  const seen = new Map<string, PromptTemplate>();
+
+  for (const template of templates) {
+    const path = getPromptPath(outputDir, layout, template);
+    const other = seen.get(path.toLowerCase());
+    if (other) {
+      return `Layout "${layout}" writes both ${other.language}/${other.fileName} and ${template.language}/${template.fileName} to ${path}`;
+    }
+    seen.set(path.toLowerCase(), template);
+  }
+
+  return undefined;
+};
@@ -0,0 +1,21 @@
+import { readFile } from 'node:fs/promises';
+import { describe, expect, it } from 'vitest';
+import { getPackageJsonPath, getPackageVersion } from './package-info.js';
+
+describe('package-info', () => {
+  describe('getPackageJsonPath', () => {
+    it('should point to the package.json of atman-prompts', async () => {
+      const packageJson = JSON.parse(
+        await readFile(getPackageJsonPath(), 'utf-8'),
+      );
+
+      expect(packageJson.name).toBe('atman-prompts');
+    });
+  });
+
+  describe('getPackageVersion', () => {
+    it('should return a semantic version string', async () => {
+      expect(await getPackageVersion()).toMatch(/^\d+\.\d+\.\d+/);
+    });
+  });
+});
@@ -0,0 +1,30 @@
+import { readFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { fileURLToPath } from 'node:url';
+
+/**
+ * Resolves the path to the package.json of the installed package
+ * @returns The absolute path to package.json
+ */
+export const getPackageJsonPath = (): string => {
+  // Navigate from src/lib/ (or dist/lib/) to the package root
+  const currentDir = dirname(fileURLToPath(import.meta.url));
+  return join(currentDir, '..', '..', 'package.json');
+};
+
+/**
+ * Reads the version of the installed atman-prompts package
+ * @returns Promise resolving to the version, or '0.0.0' if it can't be read
+ */
+export const getPackageVersion = async (): Promise<string> => {
+  try {
+    const packageJson = JSON.parse(
+      await readFile(getPackageJsonPath(), 'utf-8'),
+    );
+    return typeof packageJson.version === 'string'
+      ? packageJson.version
+      : '0.0.0';
+  } catch (_error) {
+    return '0.0.0';
+  }
+};
@@ -0,0 +1,190 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  CONFIG_FILE_NAME,
+  findProjectConfig,
+  validateProjectConfig,
+  writeProjectConfig,
+} from './project-config.js';
+
+describe('project-config', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'project-config-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('validateProjectConfig', () => {
+    it('should accept a complete configuration', () => {
+      const config = {
+        outputDir: 'prompts',
+        layout: 'flat-suffixed',
+        languages: ['en'],
+        templateDirs: ['company'],
+        templates: ['code-*'],
+        exclude: ['debugging'],
+        tags: ['review'],
+        targets: ['prompts', 'cursor'],
+        variables: { language: 'TypeScript' },
+        onConflict: 'backup',
+        keepFrontMatter: true,
+        fallback: true,
+        lintRules: { 'empty-section': 'off' },
+        tokenBudgets: { '*': 2000, 'code-review': 1500 },
+      };
+
+      expect(validateProjectConfig(config, 'config.json')).toEqual(config);
+    });
+
+    it.each([
+      [[], 'expected a JSON object'],
+      [{ output: 'x' }, 'unknown option(s) "output". Valid options: outputDir'],
+      [{ outputDir: 1 }, '"outputDir" must be a string'],
+      [{ layout: '{lang}.md' }, 'Invalid layout "{lang}.md"'],
+      [{ languages: 'en' }, '"languages" must be an array of strings'],
+      [
+        { targets: ['vim'] },
+        'unknown target(s) "vim" in "targets". Valid targets: prompts, copilot',
+      ],
+      [{ variables: ['a'] }, '"variables" must be an object of strings'],
+      [{ variables: { 'a b': 'x' } }, 'invalid variable name "a b"'],
+      [{ variables: { a: 1 } }, 'variable "a" must be a string'],
+      [{ onConflict: 'merge' }, '"onConflict" must be one of skip, overwrite'],
+      [{ keepFrontMatter: 'yes' }, '"keepFrontMatter" must be a boolean'],
+      [{ fallback: 1 }, '"fallback" must be a boolean'],
+      [{ lintRules: { nope: 'off' } }, 'unknown lint rule "nope"'],
+      [
+        { lintRules: { 'empty-section': 'info' } },
+        'lint rule "empty-section" must be one of error, warning, off',
+      ],
+      [
+        { tokenBudgets: [1] },
+        '"tokenBudgets" must be an object of token counts',
+      ],
+      [
+        { tokenBudgets: { '*': 1.5 } },
+        'token budget of "*" must be a positive integer',
+      ],
+    ])('should reject %j', (config, message) => {
+      expect(() => validateProjectConfig(config, 'config.json')).toThrow(
+        `Invalid configuration in config.json: ${message}`,
+      );
+    });
+  });
+
+  describe('findProjectConfig', () => {
+    it('should return undefined when there is no configuration', async () => {
+      await fs.writeFile(join(tempDir, 'package.json'), '{"name":"app"}');
+
+      expect(await findProjectConfig(tempDir)).toBeUndefined();
+    });
+
+    it('should find the configuration in a parent directory', async () => {
+      const configPath = join(tempDir, CONFIG_FILE_NAME);
+      const nestedDir = join(tempDir, 'packages', 'app');
+      await fs.mkdir(nestedDir, { recursive: true });
+      await fs.writeFile(
+        configPath,
+        JSON.stringify({
+          outputDir: 'prompts',
+          languages: ['ja'],
+          templateDirs: ['company'],
+        }),
+      );
+
+      expect(await findProjectConfig(nestedDir)).toEqual({
+        path: configPath,
+        config: {
+          // Paths are relative to the configuration file
+          outputDir: join('..', '..', 'prompts'),
+          languages: ['ja'],
+          templateDirs: [join('..', '..', 'company')],
+        },
+      });
+    });
+
+    it('should read the atmanPrompts key of package.json', async () => {
+      await fs.writeFile(
+        join(tempDir, 'package.json'),
+        JSON.stringify({ name: 'app', atmanPrompts: { languages: ['en'] } }),
+      );
+
+      expect(await findProjectConfig(tempDir)).toEqual({
+        path: join(tempDir, 'package.json'),
+        config: { languages: ['en'] },
+      });
+    });
+
+    it('should prefer the configuration file over package.json', async () => {
+      await fs.writeFile(
+        join(tempDir, 'package.json'),
+        JSON.stringify({ atmanPrompts: { languages: ['en'] } }),
+      );
+      await fs.writeFile(
+        join(tempDir, CONFIG_FILE_NAME),
+        JSON.stringify({ languages: ['ja'] }),
+      );
+
+      expect((await findProjectConfig(tempDir))?.config.languages).toEqual([
+        'ja',
+      ]);
+    });
+
+    it('should report invalid configuration files', async () => {
+      await fs.writeFile(join(tempDir, CONFIG_FILE_NAME), '{ invalid');
+
+      await expect(findProjectConfig(tempDir)).rejects.toThrow(
+        `Invalid configuration in ${join(tempDir, CONFIG_FILE_NAME)}:`,
+      );
+    });
+
+    it('should name the package.json key in validation errors', async () => {
+      await fs.writeFile(
+        join(tempDir, 'package.json'),
+        JSON.stringify({ atmanPrompts: { languages: 'en' } }),
+      );
+
+      await expect(findProjectConfig(tempDir)).rejects.toThrow(
+        `Invalid configuration in ${join(tempDir, 'package.json')} ("atmanPrompts"): "languages" must be an array of strings`,
+      );
+    });
+  });
+
+  describe('writeProjectConfig', () => {
+    it('should write a configuration that can be found again', async () => {
+      const configPath = await writeProjectConfig(
+        { outputDir: 'prompts', languages: ['en'] },
+        tempDir,
+      );
+
+      expect(configPath).toBe(join(tempDir, CONFIG_FILE_NAME));
+      expect(await fs.readFile(configPath, 'utf-8')).toBe(
+        '{\n  "outputDir": "prompts",\n  "languages": [\n    "en"\n  ]\n}\n',
+      );
+      expect((await findProjectConfig(tempDir))?.config.languages).toEqual([
+        'en',
+      ]);
+    });
+
+    it('should only replace an existing file when asked to', async () => {
+      await writeProjectConfig({ languages: ['en'] }, tempDir);
+
+      await expect(
+        writeProjectConfig({ languages: ['ja'] }, tempDir),
+      ).rejects.toThrow(
+        `Configuration file already exists: ${join(tempDir, CONFIG_FILE_NAME)}`,
+      );
+
+      await writeProjectConfig({ languages: ['ja'] }, tempDir, true);
+      expect((await findProjectConfig(tempDir))?.config.languages).toEqual([
+        'ja',
+      ]);
+    });
+  });
+});
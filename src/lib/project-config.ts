@@ -0,0 +1,343 @@
+/**
+ * Project configuration file holding persistent generator settings, so they
+ * don't have to be repeated on every run.
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { dirname, isAbsolute, join, relative, resolve } from 'node:path';
+import { EXPORT_TARGETS, type ExportTarget } from './export-targets.js';
+import { CONFLICT_POLICIES, type ConflictPolicy } from './file-operations.js';
+import { resolveLayout } from './output-layout.js';
+import {
+  isLintRuleId,
+  LINT_SEVERITIES,
+  type LintRuleConfig,
+  type LintSeverity,
+} from './template-lint.js';
+import {
+  isValidVariableName,
+  type TemplateVariables,
+} from './template-variables.js';
+import type { TokenBudgets } from './token-estimate.js';
+
+// Type definitions for the project configuration
+export type ProjectConfig = {
+  readonly outputDir?: string;
+  /** Layout preset or file name pattern of the prompt files */
+  readonly layout?: string;
+  readonly languages?: readonly string[];
+  readonly templateDirs?: readonly string[];
+  /** Only generate these templates (names or glob patterns) */
+  readonly templates?: readonly string[];
+  readonly exclude?: readonly string[];
+  readonly tags?: readonly string[];
+  /** Tools to write the prompts for */
+  readonly targets?: readonly ExportTarget[];
+  readonly variables?: TemplateVariables;
+  readonly onConflict?: ConflictPolicy;
+  readonly keepFrontMatter?: boolean;
+  /** Generate templates missing in a language from the English version */
+  readonly fallback?: boolean;
+  /** Severity overrides of the lint rules */
+  readonly lintRules?: LintRuleConfig;
+  /** Maximum estimated tokens by template name or glob pattern */
+  readonly tokenBudgets?: TokenBudgets;
+};
+
+export type LoadedProjectConfig = {
+  /** The file the configuration was read from */
+  readonly path: string;
+  readonly config: ProjectConfig;
+};
+
+export const CONFIG_FILE_NAME = 'atman-prompts.config.json';
+
+export const PACKAGE_JSON_CONFIG_KEY = 'atmanPrompts';
+
+const STRING_KEYS = ['outputDir', 'layout'] as const;
+
+const STRING_ARRAY_KEYS = [
+  'languages',
+  'templateDirs',
+  'templates',
+  'exclude',
+  'tags',
+  'targets',
+] as const;
+
+const BOOLEAN_KEYS = ['keepFrontMatter', 'fallback'] as const;
+
+const CONFIG_KEYS: readonly string[] = [
+  ...STRING_KEYS,
+  ...STRING_ARRAY_KEYS,
+  'variables',
+  'onConflict',
+  ...BOOLEAN_KEYS,
+  'lintRules',
+  'tokenBudgets',
+];
+
+const isStringArray = (value: unknown): value is readonly string[] =>
+  Array.isArray(value) && value.every((item) => typeof item === 'string');
+
+/**
+ * Find the problem with a raw configuration object, if any
+ */
+const findConfigError = (raw: unknown): string | undefined => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    return 'expected a JSON object';
+  }
+
+  const config = raw as Record<string, unknown>;
+  const unknownKeys = Object.keys(config).filter(
+    (key) => !CONFIG_KEYS.includes(key),
+  );
+  if (unknownKeys.length > 0) {
+    return `unknown option(s) ${unknownKeys.map((key) => `"${key}"`).join(', ')}. Valid options: ${CONFIG_KEYS.join(', ')}`;
+  }
+
+  for (const key of STRING_KEYS) {
+    if (config[key] !== undefined && typeof config[key] !== 'string') {
+      return `"${key}" must be a string`;
+    }
+  }
+
+  if (typeof config.layout === 'string') {
+    try {
+      resolveLayout(config.layout);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  for (const key of STRING_ARRAY_KEYS) {
+    if (config[key] !== undefined && !isStringArray(config[key])) {
+      return `"${key}" must be an array of strings`;
+    }
+  }
+
+  if (config.variables !== undefined) {
+    const variables = config.variables;
+    if (
+      typeof variables !== 'object' ||
+      variables === null ||
+      Array.isArray(variables)
+    ) {
+      return '"variables" must be an object of strings';
+    }
+    for (const [name, value] of Object.entries(variables)) {
+      if (!isValidVariableName(name)) {
+        return `invalid variable name "${name}" in "variables"`;
+      }
+      if (typeof value !== 'string') {
+        return `variable "${name}" must be a string`;
+      }
+    }
+  }
+
+  const unknownTargets = (
+    (config.targets as string[] | undefined) ?? []
+  ).filter((target) => !EXPORT_TARGETS.includes(target as ExportTarget));
+  if (unknownTargets.length > 0) {
+    return `unknown target(s) ${unknownTargets.map((target) => `"${target}"`).join(', ')} in "targets". Valid targets: ${EXPORT_TARGETS.join(', ')}`;
+  }
+
+  if (
+    config.onConflict !== undefined &&
+    !CONFLICT_POLICIES.includes(config.onConflict as ConflictPolicy)
+  ) {
+    return `"onConflict" must be one of ${CONFLICT_POLICIES.join(', ')}`;
+  }
+
+  for (const key of BOOLEAN_KEYS) {
+    if (config[key] !== undefined && typeof config[key] !== 'boolean') {
+      return `"${key}" must be a boolean`;
+    }
+  }
+
+  if (config.lintRules !== undefined) {
+    const lintRules = config.lintRules;
+    if (
+      typeof lintRules !== 'object' ||
+      lintRules === null ||
+      Array.isArray(lintRules)
+    ) {
+      return '"lintRules" must be an object of rule severities';
+    }
+    for (const [rule, severity] of Object.entries(lintRules)) {
+      if (!isLintRuleId(rule)) {
+        return `unknown lint rule "${rule}" in "lintRules"`;
+      }
+      if (!LINT_SEVERITIES.includes(severity as LintSeverity)) {
+        return `lint rule "${rule}" must be one of ${LINT_SEVERITIES.join(', ')}`;
+      }
+    }
+  }
+
+  if (config.tokenBudgets !== undefined) {
+    const tokenBudgets = config.tokenBudgets;
+    if (
+      typeof tokenBudgets !== 'object' ||
+      tokenBudgets === null ||
+      Array.isArray(tokenBudgets)
+    ) {
+      return '"tokenBudgets" must be an object of token counts';
+    }
+    for (const [pattern, budget] of Object.entries(tokenBudgets)) {
+      if (!Number.isInteger(budget) || (budget as number) <= 0) {
+        return `token budget of "${pattern}" must be a positive integer`;
+      }
+    }
+  }
+
+  return undefined;
+};
+
+/**
+ * Validate a raw configuration value
+ * @param raw - The parsed JSON value
+ * @param path - The file the value was read from, used in error messages
+ * @returns The validated configuration
+ * @throws Error describing the first invalid setting
+ */
+export const validateProjectConfig = (
+  raw: unknown,
+  path: string,
+): ProjectConfig => {
+  const error = findConfigError(raw);
+  if (error) {
+    throw new Error(`Invalid configuration in ${path}: ${error}`);
+  }
+  return raw as ProjectConfig;
+};
+
+/**
+ * Resolve the paths of a configuration against the directory of its file,
+ * expressed relative to the working directory
+ */
+const resolveConfigPaths = (
+  config: ProjectConfig,
+  configDir: string,
+  cwd: string,
+): ProjectConfig => {
+  const resolvePath = (path: string) =>
+    isAbsolute(path) ? path : relative(cwd, resolve(configDir, path)) || '.';
+
+  return {
+    ...config,
+    ...(config.outputDir !== undefined && {
+      outputDir: resolvePath(config.outputDir),
+    }),
+    ...(config.templateDirs !== undefined && {
+      templateDirs: config.templateDirs.map(resolvePath),
+    }),
+  };
+};
+
+/**
+ * Read and parse a JSON file, or return undefined if it doesn't exist
+ */
+const readJsonFile = async (path: string): Promise<unknown> => {
+  let raw: string;
+  try {
+    raw = await readFile(path, 'utf-8');
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch (error) {
+    throw new Error(
+      `Invalid configuration in ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+};
+
+/**
+ * Find the project configuration by walking up from a directory.
+ * In each directory, atman-prompts.config.json takes precedence over the
+ * "atmanPrompts" key of package.json.
+ * @param startDir - The directory to start searching from
+ * @returns Promise resolving to the configuration with paths relative to
+ * startDir, or undefined when there is none
+ * @throws Error when a configuration file is invalid
+ */
+export const findProjectConfig = async (
+  startDir: string = process.cwd(),
+): Promise<LoadedProjectConfig | undefined> => {
+  const cwd = resolve(startDir);
+  let dir = cwd;
+
+  while (true) {
+    const configPath = join(dir, CONFIG_FILE_NAME);
+    const configFile = await readJsonFile(configPath);
+    if (configFile !== undefined) {
+      return {
+        path: configPath,
+        config: resolveConfigPaths(
+          validateProjectConfig(configFile, configPath),
+          dir,
+          cwd,
+        ),
+      };
+    }
+
+    const packageJsonPath = join(dir, 'package.json');
+    const packageJson = await readJsonFile(packageJsonPath);
+    const packageConfig = (
+      packageJson as Record<string, unknown> | undefined
+    )?.[PACKAGE_JSON_CONFIG_KEY];
+    if (packageConfig !== undefined) {
+      return {
+        path: packageJsonPath,
+        config: resolveConfigPaths(
+          validateProjectConfig(
+            packageConfig,
+            `${packageJsonPath} ("${PACKAGE_JSON_CONFIG_KEY}")`,
+          ),
+          dir,
+          cwd,
+        ),
+      };
+    }
+
+    const parentDir = dirname(dir);
+    if (parentDir === dir) {
+      return undefined;
+    }
+    dir = parentDir;
+  }
+};
+
+/**
+ * Write a configuration to atman-prompts.config.json in a directory
+ * @param config - The configuration to write
+ * @param dir - The directory of the file
+ * @param overwrite - Whether to replace an existing file
+ * @returns Promise resolving to the path of the written file
+ * @throws Error when the file exists and overwrite is false
+ */
+export const writeProjectConfig = async (
+  config: ProjectConfig,
+  dir: string = process.cwd(),
+  overwrite = false,
+): Promise<string> => {
+  const configPath = join(dir, CONFIG_FILE_NAME);
+
+  try {
+    await writeFile(configPath, `${JSON.stringify(config, null, 2)}\n`, {
+      flag: overwrite ? 'w' : 'wx',
+    });
+  } catch (error) {
+    if (error instanceof Error && 'code' in error && error.code === 'EEXIST') {
+      throw new Error(`Configuration file already exists: ${configPath}`);
+    }
+    throw error;
+  }
+
+  return configPath;
+};
@@ -0,0 +1,328 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MANIFEST_FILE_NAME } from './manifest.js';
+import {
+  type GenerateOptions,
+  type GenerationReport,
+  generatePrompts,
+} from './prompt-generation.js';
+
+describe('prompt-generation', () => {
+  let tempDir: string;
+
+  const outputDir = () => join(tempDir, 'out');
+
+  const options = (
+    overrides: Partial<GenerateOptions> = {},
+  ): GenerateOptions => ({
+    outputDir: outputDir(),
+    languages: ['en'],
+    templateDirs: [join(tempDir, 'templates')],
+    selection: { include: ['greeting'] },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'prompt-generation-test-'));
+    await fs.mkdir(join(tempDir, 'templates', 'en'), { recursive: true });
+    await fs.writeFile(
+      join(tempDir, 'templates', 'en', 'greeting.md'),
+      '# Greeting\n\nHello {{name}}.\n',
+    );
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('generatePrompts', () => {
+    it('should write the prompt files and the manifest without logging', async () => {
+      const logSpy = vi.spyOn(console, 'log');
+      const errorSpy = vi.spyOn(console, 'error');
+
+      const report = await generatePrompts(
+        options({ variables: { name: 'world' } }),
+      );
+
+      expect(report).toEqual({
+        outputDir: outputDir(),
+        createdDirs: [outputDir(), join(outputDir(), 'en')],
+        languages: [{ language: 'en', templates: 1 }],
+        results: [
+          {
+            success: true,
+            path: join(outputDir(), 'en', 'greeting.md'),
+            skipped: false,
+            tokens: expect.any(Number),
+          },
+        ],
+        manifestPath: join(outputDir(), MANIFEST_FILE_NAME),
+        success: true,
+      });
+      expect(
+        await fs.readFile(join(outputDir(), 'en', 'greeting.md'), 'utf-8'),
+      ).toBe('# Greeting\n\nHello world.\n');
+      expect(logSpy).not.toHaveBeenCalled();
+      expect(errorSpy).not.toHaveBeenCalled();
+    });
+
+    it('should only plan the files in a dry run', async () => {
+      const report = await generatePrompts(
+        options({ variables: { name: 'world' }, dryRun: true }),
+      );
+
+      expect(report.createdDirs).toEqual([
+        outputDir(),
+        join(outputDir(), 'en'),
+      ]);
+      expect(report.manifestPath).toBeUndefined();
+      expect(report.success).toBe(true);
+      await expect(fs.access(outputDir())).rejects.toThrow();
+    });
+
+    it('should ask the variable resolver for missing values', async () => {
+      const resolveVariables = vi.fn(async () => ({ name: 'Ada' }));
+
+      await generatePrompts(options({ resolveVariables }));
+
+      expect(resolveVariables).toHaveBeenCalledWith(['name']);
+      expect(
+        await fs.readFile(join(outputDir(), 'en', 'greeting.md'), 'utf-8'),
+      ).toBe('# Greeting\n\nHello Ada.\n');
+    });
+
+    it('should reject missing variables without a resolver', async () => {
+      await expect(generatePrompts(options())).rejects.toThrow(
+        'Unresolved template variables: name',
+      );
+      await expect(fs.access(outputDir())).rejects.toThrow();
+    });
+
+    it('should reject the "ask" policy without a conflict resolver', async () => {
+      await expect(
+        generatePrompts(
+          options({ variables: { name: 'world' }, conflictPolicy: 'ask' }),
+        ),
+      ).rejects.toThrow(
+        'The "ask" conflict policy requires a conflict resolver',
+      );
+    });
+
+    it('should report templates failing their token budget', async () => {
+      const report = await generatePrompts(
+        options({
+          variables: { name: 'world' },
+          tokenBudgets: { greeting: 1 },
+          tokenBudgetSeverity: 'error',
+        }),
+      );
+
+      expect(report.success).toBe(false);
+      expect(report.results).toEqual([
+        {
+          success: false,
+          path: join('en', 'greeting.md'),
+          skipped: false,
+          error: expect.stringContaining('exceeds the token budget of 1'),
+        },
+      ]);
+    });
+
+    it('should resolve context directives in the context directory', async () => {
+      await fs.writeFile(
+        join(tempDir, 'templates', 'en', 'greeting.md'),
+        '# Greeting\n\n{{@file notes.txt}}\n',
+      );
+      await fs.writeFile(join(tempDir, 'notes.txt'), 'Say {{name}}.\n');
+
+      const report = await generatePrompts(options({ contextDir: tempDir }));
+
+      expect(report.success).toBe(true);
+      expect(
+        await fs.readFile(join(outputDir(), 'en', 'greeting.md'), 'utf-8'),
+      ).toBe('# Greeting\n\n```\nSay {{name}}.\n```\n');
+    });
+
+    it('should report templates whose context directives fail', async () => {
+      await fs.writeFile(
+        join(tempDir, 'templates', 'en', 'greeting.md'),
+        '# Greeting\n\n{{@file missing.txt}}\n',
+      );
+
+      const report = await generatePrompts(options({ contextDir: tempDir }));
+
+      expect(report.results).toEqual([
+        {
+          success: false,
+          path: join('en', 'greeting.md'),
+          skipped: false,
+          error:
+            'Failed to resolve {{@file missing.txt}}: File not found: missing.txt',
+        },
+      ]);
+    });
+
+    it('should generate the other templates when one fails to load', async () => {
+      await fs.writeFile(
+        join(tempDir, 'templates', 'en', 'broken.md'),
+        '# Broken\n{{> missing}}\n',
+      );
+
+      const report = await generatePrompts(
+        options({ selection: {}, variables: { name: 'world' } }),
+      );
+
+      expect(report.success).toBe(false);
+      expect(report.results).toContainEqual({
+        success: false,
+        path: join('en', 'broken.md'),
+        skipped: false,
+        error: expect.stringContaining('Failed to resolve includes'),
+      });
+      expect(report.results).toContainEqual(
+        expect.objectContaining({
+          success: true,
+          path: join(outputDir(), 'en', 'greeting.md'),
+        }),
+      );
+    });
+
+    describe('managed GEMINI.md section', () => {
+      const geminiPath = () => join(tempDir, 'GEMINI.md');
+
+      /** Generate the gemini target from the temporary directory */
+      const generateGemini = async (
+        overrides: Partial<GenerateOptions>,
+      ): Promise<GenerationReport> => {
+        const originalCwd = process.cwd();
+        process.chdir(tempDir);
+        try {
+          return await generatePrompts(
+            options({ targets: ['gemini'], ...overrides }),
+          );
+        } finally {
+          process.chdir(originalCwd);
+        }
+      };
+
+      beforeEach(async () => {
+        await fs.writeFile(geminiPath(), '# Project\n');
+      });
+
+      it('should keep an existing file with the skip policy', async () => {
+        const report = await generateGemini({ variables: { name: 'world' } });
+
+        expect(report.results).toEqual([
+          expect.objectContaining({ success: true, skipped: true }),
+        ]);
+        expect(await fs.readFile(geminiPath(), 'utf-8')).toBe('# Project\n');
+      });
+
+      it('should replace only the section when overwriting', async () => {
+        await generateGemini({
+          variables: { name: 'world' },
+          conflictPolicy: 'overwrite',
+        });
+        const report = await generateGemini({
+          variables: { name: 'moon' },
+          conflictPolicy: 'overwrite',
+        });
+
+        expect(report.results).toEqual([
+          expect.objectContaining({
+            success: true,
+            skipped: false,
+            overwritten: true,
+          }),
+        ]);
+        const gemini = await fs.readFile(geminiPath(), 'utf-8');
+        expect(gemini).toMatch(/^# Project\n\n<!-- atman-prompts:start -->/);
+        expect(gemini).toContain('Hello moon.');
+        expect(gemini).not.toContain('Hello world.');
+      });
+
+      it('should report an unchanged section', async () => {
+        await generateGemini({
+          variables: { name: 'world' },
+          conflictPolicy: 'overwrite',
+        });
+        const report = await generateGemini({ variables: { name: 'world' } });
+
+        expect(report.results).toEqual([
+          expect.objectContaining({
+            success: true,
+            skipped: true,
+            unchanged: true,
+          }),
+        ]);
+      });
+    });
+
+    it('should reject unknown languages', async () => {
+      await expect(
+        generatePrompts(options({ languages: ['xx'] })),
+      ).rejects.toThrow('xx');
+    });
+
+    it('should generate languages without templates from the fallback language', async () => {
+      const report = await generatePrompts(
+        options({
+          languages: ['fr'],
+          fallback: true,
+          variables: { name: 'world' },
+        }),
+      );
+
+      expect(report.success).toBe(true);
+      expect(report.languages).toEqual([
+        { language: 'fr', templates: 1, untranslated: true },
+      ]);
+      expect(report.results).toEqual([
+        expect.objectContaining({
+          path: join(outputDir(), 'fr', 'greeting.md'),
+          fallbackLanguage: 'en',
+        }),
+      ]);
+      expect(
+        await fs.readFile(join(outputDir(), 'fr', 'greeting.md'), 'utf-8'),
+      ).toContain('**Untranslated:**');
+    });
+
+    it('should reject languages escaping the output directory with fallback', async () => {
+      await expect(
+        generatePrompts(
+          options({ languages: ['../escape'], fallback: true, dryRun: true }),
+        ),
+      ).rejects.toThrow(
+        'Invalid language code(s): ../escape. Available languages: en',
+      );
+      await expect(fs.access(join(tempDir, 'escape'))).rejects.toThrow();
+    });
+
+    it('should still check the languages that have templates with fallback', async () => {
+      await fs.mkdir(join(tempDir, 'templates', 'ja'));
+      await fs.writeFile(
+        join(tempDir, 'templates', 'ja', 'greeting.md'),
+        '# 挨拶\n',
+      );
+
+      const report = await generatePrompts(
+        options({
+          languages: ['en', 'ja', 'jp'],
+          fallback: true,
+          dryRun: true,
+          variables: { name: 'world' },
+        }),
+      );
+
+      expect(report.languages).toEqual([
+        { language: 'en', templates: 1 },
+        { language: 'ja', templates: 1 },
+        { language: 'jp', templates: 1, untranslated: true },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,740 @@
+/**
+ * Prompt file generation: loads the templates, renders them and writes the
+ * files of every export target. Nothing is logged and the process is left
+ * alone, so the generator can be embedded in other tools.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+import { resolveTemplateContext } from './context-directives.js';
+import {
+  createDirectoryStructure,
+  directoryExists,
+  ensureDirectoryExists,
+} from './directory-manager.js';
+import {
+  DEFAULT_EXPORT_TARGET,
+  type ExportFile,
+  type ExportTarget,
+  exportPrompts,
+  insertManagedSection,
+  type RenderedPrompt,
+} from './export-targets.js';
+import {
+  type ConflictPolicy,
+  type ConflictResolver,
+  type FileCreationResult,
+  writeFileWithPolicy,
+} from './file-operations.js';
+import {
+  addFallbackTemplates,
+  FALLBACK_LANGUAGE,
+  type LanguageValidationOptions,
+  validateLanguages,
+} from './language-support.js';
+import {
+  createManifestEntry,
+  getManifestKey,
+  getManifestPath,
+  hashContent,
+  type ManifestEntry,
+  readManifest,
+  writeManifest,
+} from './manifest.js';
+import {
+  DEFAULT_LAYOUT,
+  findLayoutCollision,
+  getLayoutDirectories,
+} from './output-layout.js';
+import { getPackageVersion } from './package-info.js';
+import {
+  filterTemplates,
+  type TemplateSelection,
+  validateTemplateSelection,
+} from './template-filter.js';
+import {
+  discoverTemplateFiles,
+  discoverTemplateLanguages,
+  loadTemplatesFromRepository,
+  type PromptTemplate,
+  renderPromptTemplate,
+  type TemplateLoadResult,
+} from './template-generator.js';
+import { LINT_RULES, type LintSeverity } from './template-lint.js';
+import {
+  findMissingVariables,
+  type TemplateVariables,
+} from './template-variables.js';
+import {
+  checkTokenBudget,
+  estimateTokens,
+  formatTokenCount,
+  type TokenBudgets,
+} from './token-estimate.js';
+
+// Type definitions for prompt generation
+export type TemplateSourceOptions = {
+  readonly languages: readonly string[];
+  /** Extra template directories, highest priority first */
+  readonly templateDirs: readonly string[];
+  /** Generate templates missing in a language from the fallback language */
+  readonly fallback: boolean;
+};
+
+export type LanguageTemplates = {
+  readonly language: string;
+  readonly result: TemplateLoadResult;
+  /** The language has no templates and is generated from the fallback language */
+  readonly untranslated?: boolean;
+};
+
+/**
+ * Provides values for template variables that have none
+ * @param missing - The names of the variables without a value
+ * @returns The values of the missing variables
+ */
+export type VariableResolver = (
+  missing: readonly string[],
+) => Promise<TemplateVariables>;
+
+export type GenerateOptions = {
+  /** Output directory of the prompts target; defaults to .prompts */
+  readonly outputDir?: string;
+  /** Layout preset or file name pattern of the prompt files */
+  readonly layout?: string;
+  /** Languages to generate; defaults to en and ja */
+  readonly languages?: readonly string[];
+  /** Extra template directories, highest priority first */
+  readonly templateDirs?: readonly string[];
+  /** Generate templates missing in a language from the English version */
+  readonly fallback?: boolean;
+  /** Only generate some of the templates */
+  readonly selection?: Partial<TemplateSelection>;
+  /** Tools to write the prompts for; defaults to the prompts target */
+  readonly targets?: readonly ExportTarget[];
+  readonly variables?: TemplateVariables;
+  /** Asked for variables without a value; without it they are an error */
+  readonly resolveVariables?: VariableResolver;
+  readonly keepFrontMatter?: boolean;
+  /** How to handle existing files; defaults to skip */
+  readonly conflictPolicy?: ConflictPolicy;
+  /** Decides about existing files with the "ask" policy */
+  readonly resolveConflict?: ConflictResolver;
+  /** Only report the planned actions without writing anything */
+  readonly dryRun?: boolean;
+  /** Maximum estimated tokens by template name or glob pattern */
+  readonly tokenBudgets?: TokenBudgets;
+  /** How exceeded token budgets are reported; errors skip the file */
+  readonly tokenBudgetSeverity?: LintSeverity;
+  /** Directory context directives read from; defaults to the working directory */
+  readonly contextDir?: string;
+};
+
+export type LanguageSummary = {
+  readonly language: string;
+  /** Number of templates loaded for the language */
+  readonly templates: number;
+  /** The language has no templates and is generated from the fallback language */
+  readonly untranslated?: boolean;
+};
+
+export type GenerationReport = {
+  readonly outputDir: string;
+  /** Directories that were created, or would be created in a dry run */
+  readonly createdDirs: readonly string[];
+  /** The languages whose templates were loaded */
+  readonly languages: readonly LanguageSummary[];
+  /** One result per written file or failed template */
+  readonly results: readonly FileCreationResult[];
+  /** The manifest that was written, if any */
+  readonly manifestPath?: string;
+  /** No file failed */
+  readonly success: boolean;
+};
+
+type GenerationSettings = Required<
+  Omit<GenerateOptions, 'resolveVariables' | 'resolveConflict'>
+> &
+  Pick<GenerateOptions, 'resolveVariables' | 'resolveConflict'> & {
+    readonly selection: TemplateSelection;
+  };
+
+type GenerationContext = {
+  readonly variables: TemplateVariables;
+  readonly packageVersion: string;
+  /** Manifest entries of the output directory, updated as files are written */
+  readonly manifestFiles: Record<string, ManifestEntry>;
+};
+
+type LanguagePrompts = {
+  readonly prompts: readonly RenderedPrompt[];
+  readonly failures: readonly FileCreationResult[];
+};
+
+export const DEFAULT_OUTPUT_DIR = '.prompts';
+
+export const DEFAULT_LANGUAGES: readonly string[] = ['en', 'ja'];
+
+/**
+ * Makes sure every template directory exists
+ * @throws Error naming the first missing directory
+ */
+export const checkTemplateDirs = async (
+  templateDirs: readonly string[],
+): Promise<void> => {
+  for (const dir of templateDirs) {
+    if (!(await directoryExists(dir))) {
+      throw new Error(`Template directory not found: ${dir}`);
+    }
+  }
+};
+
+/**
+ * Makes sure templates exist for every requested language
+ * @param options - With allowMissing, languages without templates are
+ * accepted as long as they look like a language code
+ * @returns The requested languages without templates
+ * @throws Error listing the available languages
+ */
+export const checkLanguages = async (
+  languages: readonly string[],
+  templateDirs: readonly string[],
+  options: LanguageValidationOptions = {},
+): Promise<readonly string[]> => {
+  const availableLanguages = await discoverTemplateLanguages(templateDirs);
+  const languageError = validateLanguages(
+    languages,
+    availableLanguages,
+    options,
+  );
+  if (languageError) {
+    throw new Error(languageError);
+  }
+  return languages.filter((language) => !availableLanguages.includes(language));
+};
+
+/**
+ * Complete the templates of a language with those of the fallback language.
+ * Languages whose own templates fail to load keep their error, and a
+ * template that fails to load is not replaced by its fallback version.
+ */
+const withFallbackTemplates = async (
+  language: string,
+  result: TemplateLoadResult,
+  fallbackResult: TemplateLoadResult,
+  templateDirs: readonly string[],
+): Promise<TemplateLoadResult> => {
+  const hasOwnTemplates =
+    (await discoverTemplateFiles(language, templateDirs)).length > 0;
+  if (!result.success && hasOwnTemplates && !result.failures) {
+    return result;
+  }
+
+  const failed = new Set(result.failures?.map(({ fileName }) => fileName));
+  const templates = addFallbackTemplates(
+    result.templates,
+    fallbackResult.templates.filter(({ fileName }) => !failed.has(fileName)),
+    language,
+  );
+  return hasOwnTemplates
+    ? { ...result, templates }
+    : { success: true, templates };
+};
+
+/**
+ * Turns the load errors of a language into failure results: one per
+ * template that failed to load, or one for the whole language
+ */
+export const getLoadFailureResults = (
+  language: string,
+  result: TemplateLoadResult,
+): readonly FileCreationResult[] => {
+  if (result.failures) {
+    return result.failures.map(({ fileName, error }) => ({
+      success: false,
+      path: join(language, fileName),
+      skipped: false,
+      error,
+    }));
+  }
+
+  return result.success
+    ? []
+    : [
+        {
+          success: false,
+          path: `templates/${language}`,
+          skipped: false,
+          error: `Failed to load templates for ${language}: ${result.error}`,
+        },
+      ];
+};
+
+/**
+ * Loads the templates of every requested language, rejecting languages
+ * without any templates. With fallback, such languages are generated
+ * entirely from the fallback language, provided they look like a language
+ * code, and are marked untranslated.
+ * @param options - The languages and where to find their templates
+ * @returns The load result per language, in the requested order
+ */
+export const loadLanguageTemplates = async (
+  options: TemplateSourceOptions,
+): Promise<readonly LanguageTemplates[]> => {
+  const { languages, templateDirs, fallback } = options;
+  await checkTemplateDirs(templateDirs);
+  const untranslatedLanguages = await checkLanguages(languages, templateDirs, {
+    allowMissing: fallback,
+  });
+  if (fallback) {
+    await checkLanguages([FALLBACK_LANGUAGE], templateDirs);
+  }
+
+  const fallbackResult = fallback
+    ? await loadTemplatesFromRepository(FALLBACK_LANGUAGE, templateDirs)
+    : undefined;
+  if (fallbackResult && fallbackResult.templates.length === 0) {
+    throw new Error(
+      `Failed to load templates for fallback language ${FALLBACK_LANGUAGE}: ${fallbackResult.error}`,
+    );
+  }
+
+  const loaded: LanguageTemplates[] = [];
+
+  for (const language of languages) {
+    const result = await loadTemplatesFromRepository(language, templateDirs);
+    loaded.push({
+      language,
+      result:
+        fallbackResult && language !== FALLBACK_LANGUAGE
+          ? await withFallbackTemplates(
+              language,
+              result,
+              fallbackResult,
+              templateDirs,
+            )
+          : result,
+      ...(untranslatedLanguages.includes(language) && { untranslated: true }),
+    });
+  }
+
+  return loaded;
+};
+
+/**
+ * Applies the template selection to the loaded templates of every language.
+ * Patterns or tags that match no existing template are rejected.
+ */
+export const selectLanguageTemplates = (
+  languageTemplates: readonly LanguageTemplates[],
+  selection: TemplateSelection,
+): readonly LanguageTemplates[] => {
+  const allTemplates = languageTemplates.flatMap(
+    ({ result }) => result.templates,
+  );
+  if (allTemplates.length === 0) {
+    return languageTemplates;
+  }
+
+  const selectionError = validateTemplateSelection(selection, allTemplates);
+  if (selectionError) {
+    throw new Error(selectionError);
+  }
+
+  const selected = languageTemplates.map(({ result, ...loaded }) => ({
+    ...loaded,
+    result: {
+      ...result,
+      templates: filterTemplates(result.templates, selection),
+    },
+  }));
+
+  if (selected.every(({ result }) => result.templates.length === 0)) {
+    throw new Error('No templates match the given selection');
+  }
+
+  return selected;
+};
+
+/**
+ * Checks that the output layout gives every template its own prompt file
+ * @returns The subdirectories of the output directory the layout needs
+ */
+export const checkLayout = (
+  outputDir: string,
+  layout: string,
+  languageTemplates: readonly LanguageTemplates[],
+): readonly string[] => {
+  const templates = languageTemplates.flatMap(({ result }) => result.templates);
+  const collision = findLayoutCollision(outputDir, layout, templates);
+  if (collision) {
+    throw new Error(collision);
+  }
+  return getLayoutDirectories(layout, templates);
+};
+
+/**
+ * Make sure every placeholder used by the templates has a value, asking the
+ * variable resolver for the missing ones
+ */
+const resolveTemplateVariables = async (
+  templates: readonly PromptTemplate[],
+  variables: TemplateVariables,
+  resolveVariables: VariableResolver | undefined,
+): Promise<TemplateVariables> => {
+  const missing = findMissingVariables(
+    templates.flatMap((template) => template.placeholders),
+    variables,
+  );
+
+  if (missing.length === 0) {
+    return variables;
+  }
+  if (!resolveVariables) {
+    throw new Error(`Unresolved template variables: ${missing.join(', ')}`);
+  }
+
+  return { ...variables, ...(await resolveVariables(missing)) };
+};
+
+/**
+ * Record a generated file in the manifest entries of the current run.
+ * Skipped files without an entry are only adopted when they still match
+ * the rendered template, so customized files are never marked as pristine.
+ */
+const recordManifestEntry = async (
+  context: GenerationContext,
+  outputDir: string,
+  template: PromptTemplate,
+  result: FileCreationResult,
+  content: string,
+): Promise<void> => {
+  const key = getManifestKey(outputDir, result.path);
+  const hash = hashContent(content);
+
+  if (result.skipped) {
+    if (context.manifestFiles[key]) {
+      return;
+    }
+    const existingContent = await readFile(result.path, 'utf-8');
+    if (hashContent(existingContent) !== hash) {
+      return;
+    }
+  }
+
+  context.manifestFiles[key] = createManifestEntry(
+    template,
+    content,
+    context.packageVersion,
+    context.variables,
+  );
+};
+
+/**
+ * Render the templates of a language, checking them against their token
+ * budgets. Context directives are resolved for each template.
+ */
+const renderLanguagePrompts = async (
+  language: string,
+  templates: readonly PromptTemplate[],
+  settings: GenerationSettings,
+  context: GenerationContext,
+): Promise<LanguagePrompts> => {
+  const { keepFrontMatter, tokenBudgets, tokenBudgetSeverity } = settings;
+  const prompts: RenderedPrompt[] = [];
+  const failures: FileCreationResult[] = [];
+
+  for (const template of templates) {
+    const templatePath = join(language, template.fileName);
+    let resolved: PromptTemplate;
+    let variables: TemplateVariables;
+    try {
+      const templateContext = await resolveTemplateContext(template, {
+        cwd: settings.contextDir,
+      });
+      resolved = templateContext.template;
+      variables = { ...context.variables, ...templateContext.variables };
+    } catch (error) {
+      failures.push({
+        success: false,
+        path: templatePath,
+        skipped: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+      continue;
+    }
+
+    const rendered = renderPromptTemplate(resolved, variables);
+
+    if (rendered.unresolved.length > 0) {
+      failures.push({
+        success: false,
+        path: templatePath,
+        skipped: false,
+        error: `Unresolved template variables: ${rendered.unresolved.join(', ')}`,
+      });
+      continue;
+    }
+
+    const budgetCheck = checkTokenBudget(
+      template.fileName,
+      rendered.content,
+      tokenBudgets,
+    );
+    if (budgetCheck.exceeded && tokenBudgetSeverity === 'error') {
+      failures.push({
+        success: false,
+        path: templatePath,
+        skipped: false,
+        error: `Estimated ${formatTokenCount(budgetCheck.tokens)} exceeds the token budget of ${budgetCheck.budget}`,
+      });
+      continue;
+    }
+
+    prompts.push({
+      template,
+      content: rendered.content,
+      ...(keepFrontMatter &&
+        template.frontMatter !== undefined && {
+          withFrontMatter: renderPromptTemplate(resolved, variables, true)
+            .content,
+        }),
+    });
+  }
+
+  return { prompts, failures };
+};
+
+/**
+ * Read a file, if it exists
+ */
+const readExistingFile = async (path: string): Promise<string | undefined> => {
+  try {
+    return await readFile(path, 'utf-8');
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+      return undefined;
+    }
+    throw error;
+  }
+};
+
+/**
+ * Write a file of an export target. Managed sections are inserted into the
+ * existing file, keeping the rest of it; the conflict policy decides whether
+ * a changed file is written. Only files of the prompts target are recorded
+ * in the manifest.
+ */
+const writeExportFile = async (
+  file: ExportFile,
+  settings: GenerationSettings,
+  context: GenerationContext,
+): Promise<FileCreationResult> => {
+  const { outputDir, conflictPolicy, resolveConflict, dryRun, tokenBudgets } =
+    settings;
+  const [prompt] = file.prompts;
+  const single = file.prompts.length === 1 ? prompt : undefined;
+
+  try {
+    if (!dryRun) {
+      await ensureDirectoryExists(dirname(file.path));
+    }
+
+    const budgetCheck = single
+      ? checkTokenBudget(single.template.fileName, single.content, tokenBudgets)
+      : undefined;
+    let content = file.content;
+    let unchanged = false;
+    if (file.managedSection) {
+      const existing = await readExistingFile(file.path);
+      content = insertManagedSection(existing, file.content);
+      unchanged = content === existing;
+    }
+
+    const result: FileCreationResult = {
+      ...(unchanged
+        ? { success: true, path: file.path, skipped: true, unchanged }
+        : await writeFileWithPolicy(file.path, content, {
+            policy: conflictPolicy,
+            resolveConflict,
+            dryRun,
+          })),
+      ...(single?.template.fallbackLanguage !== undefined && {
+        fallbackLanguage: single.template.fallbackLanguage,
+      }),
+      tokens: budgetCheck?.tokens ?? estimateTokens(file.content),
+      ...(budgetCheck?.budget !== undefined &&
+        settings.tokenBudgetSeverity !== 'off' && {
+          tokenBudget: budgetCheck.budget,
+        }),
+    };
+
+    if (result.success && !dryRun && file.target === 'prompts') {
+      await recordManifestEntry(
+        context,
+        outputDir,
+        prompt.template,
+        result,
+        file.content,
+      );
+    }
+
+    return result;
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : 'Unknown error';
+    return {
+      success: false,
+      path: file.path,
+      skipped: false,
+      error: `Error creating ${file.path}: ${errorMessage}`,
+    };
+  }
+};
+
+/**
+ * Fill in the defaults of the generation options
+ */
+const toGenerationSettings = (
+  options: GenerateOptions,
+): GenerationSettings => ({
+  ...options,
+  outputDir: options.outputDir ?? DEFAULT_OUTPUT_DIR,
+  layout: options.layout ?? DEFAULT_LAYOUT,
+  languages: options.languages ?? DEFAULT_LANGUAGES,
+  templateDirs: options.templateDirs ?? [],
+  fallback: options.fallback ?? false,
+  selection: {
+    include: options.selection?.include ?? [],
+    exclude: options.selection?.exclude ?? [],
+    tags: options.selection?.tags ?? [],
+  },
+  targets: options.targets ?? [DEFAULT_EXPORT_TARGET],
+  variables: options.variables ?? {},
+  keepFrontMatter: options.keepFrontMatter ?? false,
+  conflictPolicy: options.conflictPolicy ?? 'skip',
+  dryRun: options.dryRun ?? false,
+  tokenBudgets: options.tokenBudgets ?? {},
+  tokenBudgetSeverity:
+    options.tokenBudgetSeverity ?? LINT_RULES['token-budget'].severity,
+  contextDir: options.contextDir ?? process.cwd(),
+});
+
+/**
+ * Generates the prompt files of the templates for every export target.
+ * Templates and variables are resolved before anything is written.
+ * @param options - Generation options; every option has a default
+ * @returns Promise resolving to the report of every written or failed file
+ * @throws Error when the options are invalid, e.g. an unknown language, a
+ * selection matching no template or a layout writing two templates to the
+ * same file
+ */
+export const generatePrompts = async (
+  options: GenerateOptions = {},
+): Promise<GenerationReport> => {
+  const settings = toGenerationSettings(options);
+  const { outputDir, layout, dryRun } = settings;
+
+  if (
+    settings.conflictPolicy === 'ask' &&
+    !dryRun &&
+    !settings.resolveConflict
+  ) {
+    throw new Error('The "ask" conflict policy requires a conflict resolver');
+  }
+
+  // Load templates and resolve their variables before touching the disk
+  const languageTemplates = selectLanguageTemplates(
+    await loadLanguageTemplates(settings),
+    settings.selection,
+  );
+  const variables = await resolveTemplateVariables(
+    languageTemplates.flatMap(({ result }) => result.templates),
+    settings.variables,
+    settings.resolveVariables,
+  );
+
+  const manifest = await readManifest(outputDir);
+  const context: GenerationContext = {
+    variables,
+    packageVersion: await getPackageVersion(),
+    manifestFiles: { ...manifest.files },
+  };
+  const writesPrompts = settings.targets.includes('prompts');
+
+  // Create directory structure
+  const createdDirs = writesPrompts
+    ? (
+        await createDirectoryStructure(
+          outputDir,
+          checkLayout(outputDir, layout, languageTemplates),
+          { dryRun },
+        )
+      ).createdDirs
+    : [];
+
+  // Render the prompts of each language
+  const results: FileCreationResult[] = [];
+  const languages: LanguageSummary[] = [];
+  const prompts: RenderedPrompt[] = [];
+
+  for (const { language, result, untranslated } of languageTemplates) {
+    results.push(...getLoadFailureResults(language, result));
+    if (!result.success && result.templates.length === 0) {
+      continue;
+    }
+
+    languages.push({
+      language,
+      templates: result.templates.length,
+      ...(untranslated && { untranslated }),
+    });
+    try {
+      const languagePrompts = await renderLanguagePrompts(
+        language,
+        result.templates,
+        settings,
+        context,
+      );
+      prompts.push(...languagePrompts.prompts);
+      results.push(...languagePrompts.failures);
+    } catch (error) {
+      const errorMessage =
+        error instanceof Error ? error.message : 'Unknown error';
+      results.push({
+        success: false,
+        path: `language-${language}`,
+        skipped: false,
+        error: `Error processing ${language}: ${errorMessage}`,
+      });
+    }
+  }
+
+  // Write the files of every export target
+  for (const target of settings.targets) {
+    for (const file of exportPrompts(target, prompts, {
+      outputDir,
+      layout,
+      primaryLanguage: settings.languages[0],
+    })) {
+      results.push(await writeExportFile(file, settings, context));
+    }
+  }
+
+  const writesManifest = writesPrompts && !dryRun;
+  if (writesManifest) {
+    await writeManifest(outputDir, {
+      ...manifest,
+      files: context.manifestFiles,
+    });
+  }
+
+  return {
+    outputDir,
+    createdDirs,
+    languages,
+    results,
+    ...(writesManifest && { manifestPath: getManifestPath(outputDir) }),
+    success: results.every((result) => result.success),
+  };
+};
@@ -0,0 +1,137 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  detectCodeLanguage,
+  findTemplate,
+  formatInput,
+  readPromptInputs,
+  renderPrompt,
+} from './prompt-render.js';
+import { parseTemplate } from './template-generator.js';
+
+describe('prompt-render', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'prompt-render-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('detectCodeLanguage', () => {
+    it('should detect the language from the extension or file name', () => {
+      expect(detectCodeLanguage('src/app.ts')).toBe('typescript');
+      expect(detectCodeLanguage('main.PY')).toBe('python');
+      expect(detectCodeLanguage('docker/Dockerfile')).toBe('dockerfile');
+      expect(detectCodeLanguage('notes.txt')).toBe('');
+      expect(detectCodeLanguage('stdin')).toBe('');
+    });
+  });
+
+  describe('formatInput', () => {
+    it('should wrap the content in a fenced code block', () => {
+      expect(formatInput({ name: 'app.ts', content: 'const a = 1;' })).toBe(
+        '`app.ts`\n\n```typescript\nconst a = 1;\n```\n',
+      );
+    });
+
+    it('should use a fence longer than the backticks in the content', () => {
+      expect(
+        formatInput({ name: 'README.md', content: '```sh\nls\n```\n' }),
+      ).toBe('`README.md`\n\n````markdown\n```sh\nls\n```\n````\n');
+    });
+  });
+
+  describe('renderPrompt', () => {
+    const input = { name: 'app.ts', content: 'const a = 1;\n' };
+
+    it('should append the inputs to the prompt', () => {
+      const template = parseTemplate(
+        'review.md',
+        'en',
+        '# Review {{language|code}}\n',
+      );
+
+      expect(renderPrompt(template, { language: 'Go' }, [input])).toEqual({
+        content:
+          '# Review Go\n\n`app.ts`\n\n```typescript\nconst a = 1;\n```\n',
+        unresolved: [],
+      });
+    });
+
+    it('should put the inputs in place of the input placeholder', () => {
+      const template = parseTemplate(
+        'review.md',
+        'en',
+        '# Review\n\n{{input}}\nBe brief about {{other}}.\n',
+      );
+
+      expect(renderPrompt(template, {}, [input])).toEqual({
+        content:
+          '# Review\n\n`app.ts`\n\n```typescript\nconst a = 1;\n```\n\nBe brief about {{other}}.\n',
+        unresolved: ['other'],
+      });
+    });
+
+    it('should not fill in placeholders of the inputs', () => {
+      const template = parseTemplate('review.md', 'en', '# Review\n');
+
+      expect(
+        renderPrompt(template, { name: 'x' }, [
+          { name: 'view.html', content: '<p>{{name}}</p>\n' },
+        ]).content,
+      ).toContain('<p>{{name}}</p>');
+    });
+  });
+
+  describe('findTemplate', () => {
+    it('should load a template by name from the template directories', async () => {
+      await fs.mkdir(join(tempDir, 'en'), { recursive: true });
+      await fs.writeFile(join(tempDir, 'en', 'custom.md'), '# Custom\n');
+
+      const template = await findTemplate('custom', 'en', [tempDir]);
+
+      expect(template.fileName).toBe('custom.md');
+      expect(template.source).toBe(tempDir);
+      expect((await findTemplate('code-review.md', 'en')).source).toBe(
+        'bundled',
+      );
+    });
+
+    it('should list the available templates for an unknown name', async () => {
+      await expect(findTemplate('missing', 'en')).rejects.toThrow(
+        'Unknown template "missing" for language en. Available templates: code-review,',
+      );
+    });
+  });
+
+  describe('readPromptInputs', () => {
+    it('should read files and standard input in order', async () => {
+      const filePath = join(tempDir, 'query.sql');
+      await fs.writeFile(filePath, 'SELECT 1;\n');
+
+      const inputs = await readPromptInputs(
+        [filePath, '-'],
+        Readable.from([Buffer.from('piped text')]),
+      );
+
+      expect(inputs).toEqual([
+        { name: filePath, content: 'SELECT 1;\n' },
+        { name: 'stdin', content: 'piped text' },
+      ]);
+    });
+
+    it('should name the input file that cannot be read', async () => {
+      await expect(
+        readPromptInputs([join(tempDir, 'missing.ts')]),
+      ).rejects.toThrow(
+        `Failed to read input file ${join(tempDir, 'missing.ts')}`,
+      );
+    });
+  });
+});
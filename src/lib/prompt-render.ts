@@ -0,0 +1,200 @@
+/**
+ * Rendering of a single prompt for use on the command line: the template
+ * is filled in and input files are attached in fenced code blocks.
+ */
+
+import { readFile } from 'node:fs/promises';
+import { basename, extname } from 'node:path';
+import { getTemplateName } from './template-filter.js';
+import {
+  discoverTemplateFiles,
+  loadTemplate,
+  type PromptTemplate,
+  renderPromptTemplate,
+} from './template-generator.js';
+import type { RenderResult, TemplateVariables } from './template-variables.js';
+
+// Type definitions for prompt rendering
+export type PromptInput = {
+  /** The file path, or "stdin" */
+  readonly name: string;
+  readonly content: string;
+};
+
+/** Placeholder marking where the inputs go; without it they are appended */
+export const INPUT_VARIABLE = 'input';
+
+/** Path given to --input to read standard input */
+export const STDIN_INPUT = '-';
+
+/** Code block languages by file extension */
+const CODE_LANGUAGES: Readonly<Record<string, string>> = {
+  '.c': 'c',
+  '.cc': 'cpp',
+  '.cpp': 'cpp',
+  '.cs': 'csharp',
+  '.css': 'css',
+  '.go': 'go',
+  '.h': 'c',
+  '.hpp': 'cpp',
+  '.html': 'html',
+  '.java': 'java',
+  '.js': 'javascript',
+  '.json': 'json',
+  '.jsx': 'jsx',
+  '.kt': 'kotlin',
+  '.md': 'markdown',
+  '.mjs': 'javascript',
+  '.php': 'php',
+  '.py': 'python',
+  '.rb': 'ruby',
+  '.rs': 'rust',
+  '.scss': 'scss',
+  '.sh': 'bash',
+  '.sql': 'sql',
+  '.swift': 'swift',
+  '.toml': 'toml',
+  '.ts': 'typescript',
+  '.tsx': 'tsx',
+  '.vue': 'vue',
+  '.xml': 'xml',
+  '.yaml': 'yaml',
+  '.yml': 'yaml',
+};
+
+/** Code block languages of files without a telling extension */
+const CODE_LANGUAGES_BY_NAME: Readonly<Record<string, string>> = {
+  Dockerfile: 'dockerfile',
+  Makefile: 'makefile',
+};
+
+/**
+ * Detects the code block language of a file from its name
+ * @returns The language, or an empty string when unknown
+ */
+export const detectCodeLanguage = (path: string): string =>
+  CODE_LANGUAGES_BY_NAME[basename(path)] ??
+  CODE_LANGUAGES[extname(path).toLowerCase()] ??
+  '';
+
+/**
+ * Wraps content in a fenced code block. The fence is longer than any
+ * backtick run in the content, so it cannot be closed early.
+ * @param content - The code
+ * @param language - The code block language, if known
+ */
+export const fenceCode = (content: string, language = ''): string => {
+  const longestRun = Math.max(
+    0,
+    ...(content.match(/`+/g) ?? []).map((run) => run.length),
+  );
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+  const code = content.endsWith('\n') ? content : `${content}\n`;
+
+  return `${fence}${language}\n${code}${fence}\n`;
+};
+
+/**
+ * Formats an input as its name followed by a fenced code block
+ */
+export const formatInput = (input: PromptInput): string =>
+  `\`${input.name}\`\n\n${fenceCode(input.content, detectCodeLanguage(input.name))}`;
+
+/**
+ * Finds and loads a template by name
+ * @param name - The template name, with or without the .md extension
+ * @param language - The language code
+ * @param templateDirs - Extra template directories, highest priority first
+ * @throws Error when the language has no template of that name
+ */
+export const findTemplate = async (
+  name: string,
+  language: string,
+  templateDirs: readonly string[] = [],
+): Promise<PromptTemplate> => {
+  const fileNames = await discoverTemplateFiles(language, templateDirs);
+  const fileName = fileNames.find(
+    (fileName) => fileName === name || getTemplateName(fileName) === name,
+  );
+  if (!fileName) {
+    throw new Error(
+      `Unknown template "${name}" for language ${language}. Available templates: ${fileNames.map(getTemplateName).join(', ')}`,
+    );
+  }
+
+  return loadTemplate(fileName, language, templateDirs);
+};
+
+/**
+ * Reads the inputs to attach to a prompt
+ * @param paths - File paths; "-" reads standard input
+ * @param stdin - The stream read for "-"
+ * @returns Promise resolving to the inputs in the given order
+ */
+export const readPromptInputs = async (
+  paths: readonly string[],
+  stdin: NodeJS.ReadableStream = process.stdin,
+): Promise<readonly PromptInput[]> => {
+  const inputs: PromptInput[] = [];
+
+  for (const path of paths) {
+    if (path === STDIN_INPUT) {
+      const chunks: Buffer[] = [];
+      for await (const chunk of stdin) {
+        chunks.push(Buffer.from(chunk));
+      }
+      inputs.push({
+        name: 'stdin',
+        content: Buffer.concat(chunks).toString('utf-8'),
+      });
+      continue;
+    }
+
+    try {
+      inputs.push({ name: path, content: await readFile(path, 'utf-8') });
+    } catch (error) {
+      throw new Error(
+        `Failed to read input file ${path}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  return inputs;
+};
+
+/**
+ * Renders a template with the inputs attached. The inputs replace the
+ * {{input}} placeholder when the template has one, and are appended to
+ * the prompt otherwise.
+ * @param template - The template to render
+ * @param variables - Variable values, overriding the defaults
+ * @param inputs - The inputs to attach
+ * @returns The prompt and any unresolved placeholder names
+ */
+export const renderPrompt = (
+  template: PromptTemplate,
+  variables: TemplateVariables,
+  inputs: readonly PromptInput[] = [],
+): RenderResult => {
+  if (inputs.length === 0) {
+    return renderPromptTemplate(template, variables);
+  }
+
+  const attachment = inputs.map(formatInput).join('\n');
+  if (
+    template.placeholders.some(
+      (placeholder) => placeholder.name === INPUT_VARIABLE,
+    )
+  ) {
+    return renderPromptTemplate(template, {
+      ...variables,
+      [INPUT_VARIABLE]: attachment,
+    });
+  }
+
+  const result = renderPromptTemplate(template, variables);
+  return {
+    ...result,
+    content: `${result.content.trimEnd()}\n\n${attachment}`,
+  };
+};
@@ -0,0 +1,133 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  EMPTY_MANIFEST,
+  type GenerationManifest,
+  hashContent,
+  hashTemplate,
+} from './manifest.js';
+import {
+  collectPromptStatus,
+  getPromptFileStatus,
+  hasDrift,
+} from './prompt-status.js';
+import { parseTemplate } from './template-generator.js';
+
+describe('prompt-status', () => {
+  let tempDir: string;
+
+  const template = parseTemplate(
+    'review.md',
+    'en',
+    '---\ntitle: Review\n---\nReview this {{language|code}}\n',
+  );
+
+  const manifestFor = (content: string, templateHash: string) =>
+    ({
+      manifestVersion: 1,
+      files: {
+        'en/review.md': {
+          template: 'review.md',
+          language: 'en',
+          packageVersion: '1.0.0',
+          hash: hashContent(content),
+          templateHash,
+          generatedAt: '2024-01-01T00:00:00.000Z',
+        },
+      },
+    }) satisfies GenerationManifest;
+
+  const writePrompt = async (content: string) => {
+    await fs.mkdir(join(tempDir, 'en'), { recursive: true });
+    await fs.writeFile(join(tempDir, 'en', 'review.md'), content);
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'prompt-status-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  const options = () => ({
+    outputDir: tempDir,
+    variables: {},
+    keepFrontMatter: false,
+  });
+
+  describe('getPromptFileStatus', () => {
+    it('should report missing files', async () => {
+      const status = await getPromptFileStatus(
+        template,
+        EMPTY_MANIFEST,
+        options(),
+      );
+
+      expect(status).toEqual({
+        path: join(tempDir, 'en', 'review.md'),
+        language: 'en',
+        template: 'review.md',
+        state: 'missing',
+      });
+    });
+
+    it('should compare untracked files with the rendered template', async () => {
+      await writePrompt('Review this code\n');
+      expect(
+        (await getPromptFileStatus(template, EMPTY_MANIFEST, options())).state,
+      ).toBe('unmodified');
+
+      await writePrompt('Review this code carefully\n');
+      expect(
+        (await getPromptFileStatus(template, EMPTY_MANIFEST, options())).state,
+      ).toBe('modified');
+    });
+
+    it('should use the manifest hash for tracked files', async () => {
+      // Generated with a variable value, so it differs from the default render
+      await writePrompt('Review this Go\n');
+      const manifest = manifestFor('Review this Go\n', hashTemplate(template));
+
+      expect(
+        (await getPromptFileStatus(template, manifest, options())).state,
+      ).toBe('unmodified');
+
+      await writePrompt('Review this Go, edited\n');
+      expect(
+        (await getPromptFileStatus(template, manifest, options())).state,
+      ).toBe('modified');
+    });
+
+    it('should report pristine files of changed templates as outdated', async () => {
+      await writePrompt('Review this code\n');
+      const manifest = manifestFor('Review this code\n', 'sha256-previous');
+
+      expect(
+        (await getPromptFileStatus(template, manifest, options())).state,
+      ).toBe('outdated');
+    });
+  });
+
+  describe('collectPromptStatus', () => {
+    it('should collect the status of every template', async () => {
+      const other = parseTemplate('other.md', 'en', 'Other\n');
+      await writePrompt('Review this code\n');
+
+      const statuses = await collectPromptStatus(
+        [template, other],
+        EMPTY_MANIFEST,
+        options(),
+      );
+
+      expect(statuses.map((status) => status.state)).toEqual([
+        'unmodified',
+        'missing',
+      ]);
+      expect(hasDrift(statuses)).toBe(true);
+      expect(hasDrift(statuses.slice(0, 1))).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { readFile } from 'node:fs/promises';
+import { checkFileExists } from './file-operations.js';
+import {
+  type GenerationManifest,
+  getManifestKey,
+  hashContent,
+  hashTemplate,
+} from './manifest.js';
+import { DEFAULT_LAYOUT, getPromptPath } from './output-layout.js';
+import {
+  type PromptTemplate,
+  renderPromptTemplate,
+} from './template-generator.js';
+import type { TemplateVariables } from './template-variables.js';
+
+// Type definitions for prompt file status
+/**
+ * - missing: the prompt file has not been generated
+ * - unmodified: the file matches the template it was generated from
+ * - modified: the file was edited locally
+ * - outdated: the file is unmodified but the bundled template has changed
+ */
+export type PromptFileState =
+  | 'missing'
+  | 'unmodified'
+  | 'modified'
+  | 'outdated';
+
+export type PromptFileStatus = {
+  readonly path: string;
+  readonly language: string;
+  readonly template: string;
+  readonly state: PromptFileState;
+};
+
+export type StatusOptions = {
+  readonly outputDir: string;
+  /** Output layout of the prompt files; defaults to by-language */
+  readonly layout?: string;
+  readonly variables: TemplateVariables;
+  readonly keepFrontMatter: boolean;
+};
+
+/**
+ * Determine the state of the prompt file generated from a template.
+ * Files recorded in the manifest are compared by hash, so variable values
+ * used during generation don't matter; other files are compared with the
+ * freshly rendered template.
+ */
+export const getPromptFileStatus = async (
+  template: PromptTemplate,
+  manifest: GenerationManifest,
+  options: StatusOptions,
+): Promise<PromptFileStatus> => {
+  const path = getPromptPath(
+    options.outputDir,
+    options.layout ?? DEFAULT_LAYOUT,
+    template,
+  );
+  const status = {
+    path,
+    language: template.language,
+    template: template.fileName,
+  };
+
+  const fileCheck = await checkFileExists(path);
+  if (!fileCheck.exists) {
+    return { ...status, state: 'missing' };
+  }
+
+  const contentHash = hashContent(await readFile(path, 'utf-8'));
+  const entry = manifest.files[getManifestKey(options.outputDir, path)];
+
+  if (entry) {
+    if (contentHash !== entry.hash) {
+      return { ...status, state: 'modified' };
+    }
+    const isOutdated =
+      entry.templateHash !== undefined &&
+      entry.templateHash !== hashTemplate(template);
+    return { ...status, state: isOutdated ? 'outdated' : 'unmodified' };
+  }
+
+  const rendered = renderPromptTemplate(
+    template,
+    options.variables,
+    options.keepFrontMatter,
+  );
+  return {
+    ...status,
+    state:
+      contentHash === hashContent(rendered.content) ? 'unmodified' : 'modified',
+  };
+};
+
+/**
+ * Determine the state of the prompt files for all given templates
+ */
+export const collectPromptStatus = async (
+  templates: readonly PromptTemplate[],
+  manifest: GenerationManifest,
+  options: StatusOptions,
+): Promise<readonly PromptFileStatus[]> =>
+  Promise.all(
+    templates.map((template) =>
+      getPromptFileStatus(template, manifest, options),
+    ),
+  );
+
+/**
+ * Check whether any prompt file differs from the bundled templates
+ */
+export const hasDrift = (statuses: readonly PromptFileStatus[]): boolean =>
+  statuses.some((status) => status.state !== 'unmodified');
@@ -0,0 +1,209 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import {
+  createManifestEntry,
+  EMPTY_MANIFEST,
+  type GenerationManifest,
+  hashTemplate,
+} from './manifest.js';
+import { type UpdateOptions, updatePromptFile } from './prompt-update.js';
+import { parseTemplate } from './template-generator.js';
+
+describe('prompt-update', () => {
+  let tempDir: string;
+
+  const previous = parseTemplate(
+    'review.md',
+    'en',
+    '# Review\n\nReview this {{language|code}}.\n\n## Steps\n\n1. Read\n',
+  );
+  const updated = parseTemplate(
+    'review.md',
+    'en',
+    '# Review\n\nReview this {{language|code}}.\n\n## Steps\n\n1. Read\n2. Test\n',
+  );
+
+  const filePath = () => join(tempDir, 'en', 'review.md');
+
+  const writePrompt = async (content: string) => {
+    await fs.mkdir(join(tempDir, 'en'), { recursive: true });
+    await fs.writeFile(filePath(), content);
+  };
+
+  const manifestFor = (
+    content: string,
+    variables = {},
+  ): GenerationManifest => ({
+    manifestVersion: 1,
+    files: {
+      'en/review.md': createManifestEntry(
+        previous,
+        content,
+        '1.0.0',
+        variables,
+      ),
+    },
+  });
+
+  const options = (overrides: Partial<UpdateOptions> = {}): UpdateOptions => ({
+    outputDir: tempDir,
+    variables: {},
+    keepFrontMatter: false,
+    packageVersion: '1.1.0',
+    backup: false,
+    dryRun: false,
+    ...overrides,
+  });
+
+  const generated = '# Review\n\nReview this code.\n\n## Steps\n\n1. Read\n';
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'prompt-update-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('updatePromptFile', () => {
+    it('should create missing files', async () => {
+      await fs.mkdir(join(tempDir, 'en'), { recursive: true });
+
+      const outcome = await updatePromptFile(
+        updated,
+        EMPTY_MANIFEST,
+        options(),
+      );
+
+      expect(outcome.result).toEqual({
+        success: true,
+        path: filePath(),
+        skipped: false,
+      });
+      expect(outcome.entry?.packageVersion).toBe('1.1.0');
+      expect(await fs.readFile(filePath(), 'utf-8')).toContain('2. Test');
+    });
+
+    it('should overwrite pristine files', async () => {
+      await writePrompt(generated);
+
+      const outcome = await updatePromptFile(
+        updated,
+        manifestFor(generated),
+        options(),
+      );
+
+      expect(outcome.result.overwritten).toBe(true);
+      expect(outcome.result.merged).toBeUndefined();
+      expect(outcome.entry?.templateHash).toBe(hashTemplate(updated));
+      expect(await fs.readFile(filePath(), 'utf-8')).toBe(
+        `${generated}2. Test\n`,
+      );
+    });
+
+    it('should reuse the variable values of the previous generation', async () => {
+      const withGo = generated.replace('code', 'Go');
+      await writePrompt(withGo);
+
+      const outcome = await updatePromptFile(
+        updated,
+        manifestFor(withGo, { language: 'Go' }),
+        options(),
+      );
+
+      expect(outcome.entry?.variables).toEqual({ language: 'Go' });
+      expect(await fs.readFile(filePath(), 'utf-8')).toBe(`${withGo}2. Test\n`);
+    });
+
+    it('should skip files that are already up to date', async () => {
+      await writePrompt(`${generated}2. Test\n`);
+      const manifest: GenerationManifest = {
+        manifestVersion: 1,
+        files: {
+          'en/review.md': createManifestEntry(
+            updated,
+            `${generated}2. Test\n`,
+            '1.1.0',
+          ),
+        },
+      };
+
+      const outcome = await updatePromptFile(updated, manifest, options());
+
+      expect(outcome.result.skipped).toBe(true);
+      expect(outcome.entry).toBeUndefined();
+    });
+
+    it('should merge template changes into edited files', async () => {
+      const edited = generated.replace('# Review', '# Review (team rules)');
+      await writePrompt(edited);
+
+      const outcome = await updatePromptFile(
+        updated,
+        manifestFor(generated),
+        options({ backup: true }),
+      );
+
+      expect(outcome.result).toMatchObject({
+        success: true,
+        overwritten: true,
+        merged: true,
+      });
+      expect(outcome.result.conflicts).toBeUndefined();
+      expect(outcome.result.backupPath).toBeDefined();
+      expect(await fs.readFile(filePath(), 'utf-8')).toBe(`${edited}2. Test\n`);
+      expect(
+        await fs.readFile(outcome.result.backupPath as string, 'utf-8'),
+      ).toBe(edited);
+    });
+
+    it('should leave conflict markers where both sides changed', async () => {
+      const edited = generated.replace('1. Read', '1. Read twice');
+      await writePrompt(edited);
+
+      const outcome = await updatePromptFile(
+        updated,
+        manifestFor(generated),
+        options(),
+      );
+
+      expect(outcome.result.conflicts).toBe(1);
+      const content = await fs.readFile(filePath(), 'utf-8');
+      expect(content).toContain(
+        '<<<<<<< local\n1. Read twice\n=======\n1. Read\n2. Test\n>>>>>>> updated template\n',
+      );
+    });
+
+    it('should preserve edited files without a merge base', async () => {
+      await writePrompt('Hand-written prompt\n');
+
+      const outcome = await updatePromptFile(
+        updated,
+        EMPTY_MANIFEST,
+        options(),
+      );
+
+      expect(outcome.result.skipped).toBe(true);
+      expect(outcome.entry).toBeUndefined();
+      expect(await fs.readFile(filePath(), 'utf-8')).toBe(
+        'Hand-written prompt\n',
+      );
+    });
+
+    it('should not write anything in a dry run', async () => {
+      const edited = generated.replace('# Review', '# Review (team rules)');
+      await writePrompt(edited);
+
+      const outcome = await updatePromptFile(
+        updated,
+        manifestFor(generated),
+        options({ dryRun: true }),
+      );
+
+      expect(outcome.result.merged).toBe(true);
+      expect(await fs.readFile(filePath(), 'utf-8')).toBe(edited);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+import { readFile } from 'node:fs/promises';
+import { resolveTemplateContext } from './context-directives.js';
+import {
+  checkFileExists,
+  type FileCreationResult,
+  writeFileWithPolicy,
+} from './file-operations.js';
+import {
+  createManifestEntry,
+  type GenerationManifest,
+  getManifestKey,
+  hashContent,
+  type ManifestEntry,
+} from './manifest.js';
+import { DEFAULT_LAYOUT, getPromptPath } from './output-layout.js';
+import {
+  type PromptTemplate,
+  renderPromptTemplate,
+} from './template-generator.js';
+import type { RenderResult, TemplateVariables } from './template-variables.js';
+import { mergeThreeWay } from './text-diff.js';
+
+// Type definitions for prompt updates
+export type UpdateOptions = {
+  readonly outputDir: string;
+  /** Output layout of the prompt files; defaults to by-language */
+  readonly layout?: string;
+  readonly variables: TemplateVariables;
+  readonly keepFrontMatter: boolean;
+  readonly packageVersion: string;
+  /** Back up files before they are overwritten or merged */
+  readonly backup: boolean;
+  readonly dryRun: boolean;
+  /** Directory context directives read from; defaults to the working directory */
+  readonly contextDir?: string;
+};
+
+export type UpdateOutcome = {
+  readonly result: FileCreationResult;
+  /** The new manifest entry for the file, if it changed */
+  readonly entry?: ManifestEntry;
+};
+
+const MERGE_LABELS = { ours: 'local', theirs: 'updated template' } as const;
+
+/**
+ * Bring a generated prompt file up to date with its template:
+ * - missing files are created
+ * - files still matching the generated content are rewritten
+ * - edited files are merged three-way (generated content as the base,
+ *   the local copy and the new template), leaving conflict markers
+ *   where both sides changed the same lines
+ * - edited files without a recorded base are preserved
+ */
+export const updatePromptFile = async (
+  template: PromptTemplate,
+  manifest: GenerationManifest,
+  options: UpdateOptions,
+): Promise<UpdateOutcome> => {
+  const filePath = getPromptPath(
+    options.outputDir,
+    options.layout ?? DEFAULT_LAYOUT,
+    template,
+  );
+
+  const entry = manifest.files[getManifestKey(options.outputDir, filePath)];
+  // Reuse the variable values of the previous generation unless overridden
+  const variables = { ...entry?.variables, ...options.variables };
+  let rendered: RenderResult;
+  try {
+    const context = await resolveTemplateContext(template, {
+      cwd: options.contextDir,
+    });
+    rendered = renderPromptTemplate(
+      context.template,
+      { ...variables, ...context.variables },
+      options.keepFrontMatter,
+    );
+  } catch (error) {
+    return {
+      result: {
+        success: false,
+        path: filePath,
+        skipped: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      },
+    };
+  }
+  if (rendered.unresolved.length > 0) {
+    return {
+      result: {
+        success: false,
+        path: filePath,
+        skipped: false,
+        error: `Unresolved template variables: ${rendered.unresolved.join(', ')}`,
+      },
+    };
+  }
+
+  const newEntry = createManifestEntry(
+    template,
+    rendered.content,
+    options.packageVersion,
+    variables,
+  );
+  const writeOptions = {
+    policy: options.backup ? 'backup' : 'overwrite',
+    dryRun: options.dryRun,
+  } as const;
+
+  const fileCheck = await checkFileExists(filePath);
+  if (!fileCheck.exists) {
+    const result = await writeFileWithPolicy(
+      filePath,
+      rendered.content,
+      writeOptions,
+    );
+    return result.success ? { result, entry: newEntry } : { result };
+  }
+
+  const localContent = await readFile(filePath, 'utf-8');
+  const isPristine =
+    entry !== undefined && hashContent(localContent) === entry.hash;
+
+  if (localContent === rendered.content) {
+    const isCurrent =
+      isPristine && entry.templateHash === newEntry.templateHash;
+    return {
+      result: { success: true, path: filePath, skipped: true },
+      ...(!isCurrent && { entry: newEntry }),
+    };
+  }
+
+  if (isPristine) {
+    const result = await writeFileWithPolicy(
+      filePath,
+      rendered.content,
+      writeOptions,
+    );
+    return result.success ? { result, entry: newEntry } : { result };
+  }
+
+  if (entry?.content === undefined) {
+    // Without the originally generated content there is no merge base
+    return { result: { success: true, path: filePath, skipped: true } };
+  }
+
+  const merge = mergeThreeWay(
+    entry.content,
+    localContent,
+    rendered.content,
+    MERGE_LABELS,
+  );
+  if (merge.content === localContent) {
+    // The template changes are already part of the local copy
+    return {
+      result: { success: true, path: filePath, skipped: true },
+      entry: newEntry,
+    };
+  }
+
+  const result = await writeFileWithPolicy(
+    filePath,
+    merge.content,
+    writeOptions,
+  );
+  if (!result.success) {
+    return { result };
+  }
+
+  return {
+    result: {
+      ...result,
+      merged: true,
+      ...(merge.conflicts > 0 && { conflicts: merge.conflicts }),
+    },
+    entry: newEntry,
+  };
+};
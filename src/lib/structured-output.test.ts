@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { FileCreationResult } from './file-operations.js';
+import {
+  getFileAction,
+  summarizeFiles,
+  writeEvent,
+  writeFileSummaryEvent,
+  writeJsonReport,
+} from './structured-output.js';
+
+describe('structured-output', () => {
+  let mockConsoleLog: ReturnType<typeof vi.spyOn>;
+
+  const results: FileCreationResult[] = [
+    { success: true, path: 'en/a.md', skipped: false },
+    { success: true, path: 'en/b.md', skipped: false, overwritten: true },
+    { success: true, path: 'en/c.md', skipped: true },
+    {
+      success: true,
+      path: 'en/d.md',
+      skipped: false,
+      overwritten: true,
+      merged: true,
+      conflicts: 1,
+    },
+    { success: false, path: 'en/e.md', skipped: false, error: 'denied' },
+  ];
+
+  const printed = (call = 0) =>
+    JSON.parse(mockConsoleLog.mock.calls[call][0] as string);
+
+  beforeEach(() => {
+    mockConsoleLog = vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('getFileAction', () => {
+    it('should classify file results', () => {
+      expect(results.map(getFileAction)).toEqual([
+        'created',
+        'overwritten',
+        'skipped',
+        'merged',
+        'failed',
+      ]);
+    });
+  });
+
+  describe('summarizeFiles', () => {
+    it('should group the paths by action', () => {
+      expect(summarizeFiles(results)).toEqual({
+        created: ['en/a.md'],
+        overwritten: ['en/b.md'],
+        merged: ['en/d.md'],
+        skipped: ['en/c.md'],
+        failed: [{ path: 'en/e.md', error: 'denied' }],
+      });
+    });
+  });
+
+  describe('writeJsonReport', () => {
+    it('should print the report with its duration', () => {
+      writeJsonReport({ success: true }, Date.now() - 5);
+
+      expect(printed()).toEqual({
+        success: true,
+        durationMs: expect.any(Number),
+      });
+      expect(printed().durationMs).toBeGreaterThanOrEqual(5);
+    });
+  });
+
+  describe('writeEvent', () => {
+    it('should print the event on a single line with a timestamp', () => {
+      writeEvent({ event: 'templates', language: 'en', count: 4 });
+
+      const line = mockConsoleLog.mock.calls[0][0] as string;
+      expect(line).not.toContain('\n');
+      expect(printed()).toEqual({
+        event: 'templates',
+        language: 'en',
+        count: 4,
+        time: expect.stringMatching(/^\d{4}-\d{2}-\d{2}T/),
+      });
+    });
+  });
+
+  describe('writeFileSummaryEvent', () => {
+    it('should count the files per action', () => {
+      writeFileSummaryEvent(results, Date.now(), { dryRun: true });
+
+      expect(printed()).toEqual(
+        expect.objectContaining({
+          event: 'summary',
+          success: false,
+          created: 1,
+          overwritten: 1,
+          merged: 1,
+          skipped: 1,
+          failed: 1,
+          dryRun: true,
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Machine-readable output of the CLI commands: a final JSON report or one
+ * NDJSON event per action. Both are the only output written to stdout, so
+ * they can be piped to tools such as jq.
+ */
+
+import type { FileCreationResult } from './file-operations.js';
+
+// Type definitions for structured output
+/**
+ * - text: human-readable messages
+ * - json: a single JSON report when the command finishes
+ * - ndjson: one JSON event per line as the command runs
+ */
+export type OutputFormat = 'text' | 'json' | 'ndjson';
+
+export type LogFormat = Exclude<OutputFormat, 'json'>;
+
+export type OutputEvent = {
+  /** Kind of the event, e.g. "file" or "summary" */
+  readonly event: string;
+  readonly [field: string]: unknown;
+};
+
+export type FileAction =
+  | 'created'
+  | 'overwritten'
+  | 'merged'
+  | 'skipped'
+  | 'failed';
+
+export type FileReport = FileCreationResult & {
+  readonly action: FileAction;
+};
+
+export type FileSummary = {
+  readonly created: readonly string[];
+  readonly overwritten: readonly string[];
+  readonly merged: readonly string[];
+  readonly skipped: readonly string[];
+  readonly failed: readonly {
+    readonly path: string;
+    readonly error?: string;
+  }[];
+};
+
+export const LOG_FORMATS: readonly LogFormat[] = ['text', 'ndjson'];
+
+/**
+ * Classifies what happened to a file
+ */
+export const getFileAction = (result: FileCreationResult): FileAction => {
+  if (!result.success) {
+    return 'failed';
+  }
+  if (result.skipped) {
+    return 'skipped';
+  }
+  if (result.merged) {
+    return 'merged';
+  }
+  return result.overwritten ? 'overwritten' : 'created';
+};
+
+/**
+ * Adds the action to each file result
+ */
+export const toFileReports = (
+  results: readonly FileCreationResult[],
+): readonly FileReport[] =>
+  results.map((result) => ({ action: getFileAction(result), ...result }));
+
+/**
+ * Groups the paths of file results by action
+ */
+export const summarizeFiles = (
+  results: readonly FileCreationResult[],
+): FileSummary => {
+  const pathsOf = (action: FileAction) =>
+    results
+      .filter((result) => getFileAction(result) === action)
+      .map((result) => result.path);
+
+  return {
+    created: pathsOf('created'),
+    overwritten: pathsOf('overwritten'),
+    merged: pathsOf('merged'),
+    skipped: pathsOf('skipped'),
+    failed: results
+      .filter((result) => !result.success)
+      .map(({ path, error }) => ({
+        path,
+        ...(error !== undefined && { error }),
+      })),
+  };
+};
+
+/**
+ * Writes the final JSON report of a command with its duration
+ * @param report - The command-specific report fields
+ * @param startTime - When the command started, from Date.now()
+ */
+export const writeJsonReport = (
+  report: Readonly<Record<string, unknown>>,
+  startTime: number,
+): void => {
+  console.log(
+    JSON.stringify({ ...report, durationMs: Date.now() - startTime }, null, 2),
+  );
+};
+
+/**
+ * Writes an NDJSON event, stamped with the current time
+ */
+export const writeEvent = (event: OutputEvent): void => {
+  console.log(JSON.stringify({ ...event, time: new Date().toISOString() }));
+};
+
+/**
+ * Writes one event per file result
+ */
+export const writeFileEvents = (
+  results: readonly FileCreationResult[],
+): void => {
+  toFileReports(results).forEach((report) => {
+    writeEvent({ event: 'file', ...report });
+  });
+};
+
+/**
+ * Writes the summary event of a command that wrote files
+ * @param fields - Extra or overriding fields of the summary
+ */
+export const writeFileSummaryEvent = (
+  results: readonly FileCreationResult[],
+  startTime: number,
+  fields: Readonly<Record<string, unknown>> = {},
+): void => {
+  const summary = summarizeFiles(results);
+
+  writeEvent({
+    event: 'summary',
+    success: results.every((result) => result.success),
+    created: summary.created.length,
+    overwritten: summary.overwritten.length,
+    merged: summary.merged.length,
+    skipped: summary.skipped.length,
+    failed: summary.failed.length,
+    durationMs: Date.now() - startTime,
+    ...fields,
+  });
+};
@@ -0,0 +1,79 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { buildTemplateCatalog } from './template-catalog.js';
+
+describe('template-catalog', () => {
+  describe('buildTemplateCatalog', () => {
+    it('should list templates for every template language by default', async () => {
+      const catalog = await buildTemplateCatalog();
+
+      expect(catalog.languages).toEqual(['en', 'ja']);
+      expect(catalog.sources).toEqual(['bundled']);
+      expect(catalog.errors).toEqual([]);
+
+      const enNames = catalog.templates
+        .filter((entry) => entry.language === 'en')
+        .map((entry) => entry.fileName);
+      expect(enNames).toEqual([
+        'code-review.md',
+        'debugging.md',
+        'documentation.md',
+        'system-prompt.md',
+      ]);
+    });
+
+    it('should include metadata from the front matter', async () => {
+      const catalog = await buildTemplateCatalog(['en']);
+
+      const codeReview = catalog.templates.find(
+        (entry) => entry.fileName === 'code-review.md',
+      );
+      expect(codeReview?.title).toBe('Code Review');
+      expect(codeReview?.description).toBeDefined();
+      expect(codeReview?.tags).toContain('review');
+      expect(codeReview?.missingLanguages).toEqual([]);
+      expect(codeReview?.source).toBe('bundled');
+    });
+
+    it('should mark templates missing in other requested languages', async () => {
+      const catalog = await buildTemplateCatalog(['en', 'nonexistent']);
+
+      expect(catalog.errors).toEqual([
+        'No template files found for language: nonexistent',
+      ]);
+      catalog.templates.forEach((entry) => {
+        expect(entry.missingLanguages).toEqual(['nonexistent']);
+      });
+    });
+
+    it('should list the other templates when one fails to load', async () => {
+      const templateDir = await fs.mkdtemp(join(tmpdir(), 'catalog-test-'));
+      try {
+        await fs.mkdir(join(templateDir, 'en'));
+        await fs.writeFile(
+          join(templateDir, 'en', 'broken.md'),
+          '# Broken\n{{> missing}}\n',
+        );
+
+        const catalog = await buildTemplateCatalog(['en', 'ja'], [templateDir]);
+
+        expect(catalog.errors).toEqual([
+          expect.stringContaining('Failed to resolve includes of broken.md'),
+        ]);
+        expect(
+          catalog.templates.find(
+            (entry) =>
+              entry.fileName === 'code-review.md' && entry.language === 'en',
+          )?.missingLanguages,
+        ).toEqual([]);
+        expect(
+          catalog.templates.some((entry) => entry.fileName === 'broken.md'),
+        ).toBe(false);
+      } finally {
+        await fs.rm(templateDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import {
+  discoverTemplateLanguages,
+  getTemplateRoots,
+  loadTemplatesFromRepository,
+} from './template-generator.js';
+import { checkTokenBudget, type TokenBudgets } from './token-estimate.js';
+
+// Type definitions for the template catalog
+export type TemplateCatalogEntry = {
+  readonly fileName: string;
+  readonly language: string;
+  /** Where the template was loaded from: 'bundled' or a template directory */
+  readonly source: string;
+  readonly title?: string;
+  readonly description?: string;
+  readonly tags: readonly string[];
+  /** Estimated token count of the template body */
+  readonly tokens: number;
+  readonly tokenBudget?: number;
+  readonly missingLanguages: readonly string[];
+};
+
+export type TemplateCatalog = {
+  readonly languages: readonly string[];
+  /** Template sources in priority order */
+  readonly sources: readonly string[];
+  readonly templates: readonly TemplateCatalogEntry[];
+  readonly errors: readonly string[];
+};
+
+/**
+ * Builds a catalog of the available templates for the given languages.
+ * Each entry records the languages in which the same template is missing.
+ * @param languages - Languages to include; defaults to every template language
+ * @param templateDirs - Extra template directories, highest priority first
+ * @param tokenBudgets - Token budgets to report with each template
+ * @returns Promise resolving to the catalog sorted by language and file name
+ */
+export const buildTemplateCatalog = async (
+  languages?: readonly string[],
+  templateDirs: readonly string[] = [],
+  tokenBudgets: TokenBudgets = {},
+): Promise<TemplateCatalog> => {
+  const catalogLanguages =
+    languages ?? (await discoverTemplateLanguages(templateDirs));
+  const templatesByLanguage = new Map<string, Set<string>>();
+  const entries: Omit<TemplateCatalogEntry, 'missingLanguages'>[] = [];
+  const errors: string[] = [];
+
+  for (const language of catalogLanguages) {
+    const result = await loadTemplatesFromRepository(language, templateDirs);
+    // Templates that failed to load exist, so they are not reported missing
+    templatesByLanguage.set(
+      language,
+      new Set([
+        ...result.templates.map((template) => template.fileName),
+        ...(result.failures ?? []).map((failure) => failure.fileName),
+      ]),
+    );
+
+    if (!result.success) {
+      errors.push(result.error ?? `Failed to load templates for ${language}`);
+    }
+
+    for (const template of result.templates) {
+      const { title, description, tags } = template.metadata;
+      const { tokens, budget } = checkTokenBudget(
+        template.fileName,
+        template.content,
+        tokenBudgets,
+      );
+      entries.push({
+        fileName: template.fileName,
+        language,
+        source: template.source,
+        ...(title !== undefined && { title }),
+        ...(description !== undefined && { description }),
+        tags,
+        tokens,
+        ...(budget !== undefined && { tokenBudget: budget }),
+      });
+    }
+  }
+
+  const templates = entries
+    .map((entry) => ({
+      ...entry,
+      missingLanguages: catalogLanguages.filter(
+        (language) => !templatesByLanguage.get(language)?.has(entry.fileName),
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        a.language.localeCompare(b.language) ||
+        a.fileName.localeCompare(b.fileName),
+    );
+
+  return {
+    languages: catalogLanguages,
+    sources: getTemplateRoots(templateDirs).map((root) => root.source),
+    templates,
+    errors,
+  };
+};
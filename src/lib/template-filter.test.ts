@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { EMPTY_METADATA } from './front-matter.js';
+import {
+  EMPTY_SELECTION,
+  filterTemplates,
+  getTemplateName,
+  matchesTemplatePattern,
+  validateTemplateSelection,
+} from './template-filter.js';
+import type { PromptTemplate } from './template-generator.js';
+
+const createTemplate = (
+  fileName: string,
+  tags: readonly string[] = [],
+): PromptTemplate => ({
+  fileName,
+  content: `# ${fileName}`,
+  language: 'en',
+  source: 'bundled',
+  placeholders: [],
+  metadata: { ...EMPTY_METADATA, tags },
+});
+
+const templates = [
+  createTemplate('code-review.md', ['review', 'quality']),
+  createTemplate('debugging.md', ['debugging']),
+  createTemplate('documentation.md', ['writing']),
+];
+
+describe('template-filter', () => {
+  describe('getTemplateName', () => {
+    it('should strip the markdown extension', () => {
+      expect(getTemplateName('code-review.md')).toBe('code-review');
+    });
+  });
+
+  describe('matchesTemplatePattern', () => {
+    it('should match names with or without extension', () => {
+      expect(matchesTemplatePattern('code-review.md', 'code-review')).toBe(
+        true,
+      );
+      expect(matchesTemplatePattern('code-review.md', 'code-review.md')).toBe(
+        true,
+      );
+      expect(matchesTemplatePattern('code-review.md', 'code')).toBe(false);
+    });
+
+    it('should support glob wildcards', () => {
+      expect(matchesTemplatePattern('debugging.md', 'debug*')).toBe(true);
+      expect(matchesTemplatePattern('debugging.md', '*.md')).toBe(true);
+      expect(matchesTemplatePattern('debugging.md', 'd?bugging')).toBe(true);
+      expect(matchesTemplatePattern('debugging.md', 'doc*')).toBe(false);
+    });
+  });
+
+  describe('filterTemplates', () => {
+    it('should return every template for an empty selection', () => {
+      expect(filterTemplates(templates, EMPTY_SELECTION)).toEqual(templates);
+    });
+
+    it('should apply include and exclude patterns', () => {
+      const selected = filterTemplates(templates, {
+        include: ['*'],
+        exclude: ['doc*'],
+        tags: [],
+      });
+
+      expect(selected.map((t) => t.fileName)).toEqual([
+        'code-review.md',
+        'debugging.md',
+      ]);
+    });
+
+    it('should select templates having any of the given tags', () => {
+      const selected = filterTemplates(templates, {
+        include: [],
+        exclude: [],
+        tags: ['quality', 'writing'],
+      });
+
+      expect(selected.map((t) => t.fileName)).toEqual([
+        'code-review.md',
+        'documentation.md',
+      ]);
+    });
+  });
+
+  describe('validateTemplateSelection', () => {
+    it('should accept patterns that match existing templates', () => {
+      expect(
+        validateTemplateSelection(
+          { include: ['code-review', 'debug*'], exclude: [], tags: ['review'] },
+          templates,
+        ),
+      ).toBeUndefined();
+    });
+
+    it('should list valid names when a pattern matches nothing', () => {
+      expect(
+        validateTemplateSelection(
+          { include: ['code-reveiw'], exclude: [], tags: [] },
+          templates,
+        ),
+      ).toBe(
+        'Unknown template(s): code-reveiw. Available templates: code-review, debugging, documentation',
+      );
+    });
+
+    it('should list valid tags when a tag is unknown', () => {
+      expect(
+        validateTemplateSelection(
+          { include: [], exclude: [], tags: ['nope'] },
+          templates,
+        ),
+      ).toBe(
+        'Unknown tag(s): nope. Available tags: debugging, quality, review, writing',
+      );
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import type { PromptTemplate } from './template-generator.js';
+
+// Type definitions for template selection
+export type TemplateSelection = {
+  readonly include: readonly string[];
+  readonly exclude: readonly string[];
+  readonly tags: readonly string[];
+};
+
+export const EMPTY_SELECTION: TemplateSelection = {
+  include: [],
+  exclude: [],
+  tags: [],
+};
+
+/**
+ * Returns the template name without its .md extension
+ */
+export const getTemplateName = (fileName: string): string =>
+  fileName.replace(/\.md$/, '');
+
+const globToRegExp = (pattern: string): RegExp => {
+  const source = pattern
+    .split('')
+    .map((char) => {
+      if (char === '*') {
+        return '.*';
+      }
+      if (char === '?') {
+        return '.';
+      }
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`);
+};
+
+/**
+ * Check whether a template file name matches a name or glob pattern.
+ * Patterns may be given with or without the .md extension.
+ */
+export const matchesTemplatePattern = (
+  fileName: string,
+  pattern: string,
+): boolean => {
+  const regExp = globToRegExp(pattern);
+  return regExp.test(fileName) || regExp.test(getTemplateName(fileName));
+};
+
+/**
+ * Validates a selection against the templates that actually exist
+ * @param selection - The requested include/exclude patterns and tags
+ * @param templates - All available templates
+ * @returns An error message, or undefined when the selection is valid
+ */
+export const validateTemplateSelection = (
+  selection: TemplateSelection,
+  templates: readonly PromptTemplate[],
+): string | undefined => {
+  const fileNames = [
+    ...new Set(templates.map((template) => template.fileName)),
+  ].sort();
+  const tags = [
+    ...new Set(templates.flatMap((template) => template.metadata.tags)),
+  ].sort();
+
+  const unknownPatterns = [...selection.include, ...selection.exclude].filter(
+    (pattern) =>
+      !fileNames.some((fileName) => matchesTemplatePattern(fileName, pattern)),
+  );
+  if (unknownPatterns.length > 0) {
+    return `Unknown template(s): ${unknownPatterns.join(', ')}. Available templates: ${fileNames.map(getTemplateName).join(', ')}`;
+  }
+
+  const unknownTags = selection.tags.filter((tag) => !tags.includes(tag));
+  if (unknownTags.length > 0) {
+    return `Unknown tag(s): ${unknownTags.join(', ')}. Available tags: ${tags.join(', ')}`;
+  }
+
+  return undefined;
+};
+
+/**
+ * Filters templates by include patterns, tags and exclude patterns.
+ * Empty include patterns or tags select every template.
+ */
+export const filterTemplates = (
+  templates: readonly PromptTemplate[],
+  selection: TemplateSelection,
+): readonly PromptTemplate[] =>
+  templates.filter(
+    (template) =>
+      (selection.include.length === 0 ||
+        selection.include.some((pattern) =>
+          matchesTemplatePattern(template.fileName, pattern),
+        )) &&
+      (selection.tags.length === 0 ||
+        selection.tags.some((tag) => template.metadata.tags.includes(tag))) &&
+      !selection.exclude.some((pattern) =>
+        matchesTemplatePattern(template.fileName, pattern),
+      ),
+  );
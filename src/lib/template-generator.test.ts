@@ -1,10 +1,20 @@
-import { describe, expect, it } from 'vitest';
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 import {
+  BUNDLED_TEMPLATE_SOURCE,
   discoverTemplateFiles,
+  discoverTemplateLanguages,
   getPackageTemplatesPath,
+  getTemplateRoots,
   loadTemplatesFromRepository,
+  PARTIALS_DIRECTORY,
   type PromptTemplate,
+  parseTemplate,
   readTemplateFile,
+  renderPromptTemplate,
+  resolveIncludes,
 } from './template-generator.js';
 
 describe('template-generator', () => {
@@ -20,6 +30,14 @@ describe('template-generator', () => {
     });
   });
 
+  describe('discoverTemplateLanguages', () => {
+    it('should discover the bundled language directories', async () => {
+      const languages = await discoverTemplateLanguages();
+
+      expect(languages).toEqual(['en', 'ja']);
+    });
+  });
+
   describe('discoverTemplateFiles', () => {
     it('should discover existing template files for English', async () => {
       const files = await discoverTemplateFiles('en');
@@ -89,6 +107,68 @@ describe('template-generator', () => {
     });
   });
 
+  describe('parseTemplate', () => {
+    it('should separate front matter metadata from the body', () => {
+      const template = parseTemplate(
+        'example.md',
+        'en',
+        '---\ntitle: Example\ntags: [demo]\n---\n\n# Example {{name}}\n',
+      );
+
+      expect(template.metadata.title).toBe('Example');
+      expect(template.metadata.tags).toEqual(['demo']);
+      expect(template.frontMatter).toBe(
+        '---\ntitle: Example\ntags: [demo]\n---\n',
+      );
+      expect(template.content).toBe('# Example {{name}}\n');
+    });
+
+    it('should prefer declared variable defaults over inline defaults', () => {
+      const template = parseTemplate(
+        'example.md',
+        'en',
+        '---\nvariables:\n  name: declared\n---\n{{name|inline}} {{other|fallback}}',
+      );
+
+      expect(template.placeholders).toEqual([
+        { name: 'name', defaultValue: 'declared' },
+        { name: 'other', defaultValue: 'fallback' },
+      ]);
+    });
+
+    it('should report the template name when front matter is invalid', () => {
+      expect(() =>
+        parseTemplate('broken.md', 'en', '---\n: nope\n---\nBody'),
+      ).toThrow(/Failed to parse front matter of broken\.md/);
+    });
+  });
+
+  describe('renderPromptTemplate', () => {
+    const template = parseTemplate(
+      'example.md',
+      'en',
+      '---\nvariables:\n  name: declared\n---\nHello {{name}} {{other}}\n',
+    );
+
+    it('should render with declared defaults and given variables', () => {
+      const result = renderPromptTemplate(template, { other: 'world' });
+
+      expect(result.content).toBe('Hello declared world\n');
+      expect(result.unresolved).toEqual([]);
+    });
+
+    it('should keep the front matter on request', () => {
+      const result = renderPromptTemplate(template, { other: 'x' }, true);
+
+      expect(result.content.startsWith('---\nvariables:')).toBe(true);
+      expect(result.content).toContain('\nHello declared x');
+    });
+
+    it('should report unresolved placeholders', () => {
+      expect(renderPromptTemplate(template, {}).unresolved).toEqual(['other']);
+    });
+  });
+
   describe('loadTemplatesFromRepository', () => {
     it('should load all English templates successfully', async () => {
       const result = await loadTemplatesFromRepository('en');
@@ -164,5 +244,241 @@ describe('template-generator', () => {
       expect(systemPromptTemplate?.content).toContain('System Prompt Template');
       expect(systemPromptTemplate?.content).toContain('Core Principles');
     });
+
+    it('should expose the placeholders used by each template', async () => {
+      const result = await loadTemplatesFromRepository('en');
+
+      const codeReviewTemplate = result.templates.find(
+        (t) => t.fileName === 'code-review.md',
+      );
+      expect(codeReviewTemplate?.placeholders).toContainEqual({
+        name: 'language',
+        defaultValue: 'code',
+      });
+    });
+
+    it('should strip front matter and expose it as metadata', async () => {
+      const result = await loadTemplatesFromRepository('en');
+
+      result.templates.forEach((template: PromptTemplate) => {
+        expect(template.content.startsWith('---')).toBe(false);
+        expect(template.metadata.title).toBeDefined();
+        expect(template.metadata.description).toBeDefined();
+        expect(template.metadata.tags.length).toBeGreaterThan(0);
+      });
+    });
+  });
+
+  describe('custom template directories', () => {
+    let templateDir: string;
+
+    beforeEach(async () => {
+      templateDir = await fs.mkdtemp(join(tmpdir(), 'template-dir-test-'));
+      await fs.mkdir(join(templateDir, 'en'), { recursive: true });
+      await fs.mkdir(join(templateDir, 'fr'), { recursive: true });
+      await fs.writeFile(
+        join(templateDir, 'en', 'code-review.md'),
+        '# Company code review\n',
+      );
+      await fs.writeFile(
+        join(templateDir, 'en', 'onboarding.md'),
+        '# Onboarding\n',
+      );
+      await fs.writeFile(
+        join(templateDir, 'fr', 'debugging.md'),
+        '# Débogage\n',
+      );
+    });
+
+    afterEach(async () => {
+      await fs.rm(templateDir, { recursive: true, force: true });
+    });
+
+    it('should list template directories before the bundled templates', () => {
+      expect(getTemplateRoots(['a', 'b']).map((root) => root.source)).toEqual([
+        'a',
+        'b',
+        BUNDLED_TEMPLATE_SOURCE,
+      ]);
+      expect(getTemplateRoots([templateDir])[0].path).toBe(templateDir);
+    });
+
+    it('should merge languages and files of all template roots', async () => {
+      expect(await discoverTemplateLanguages([templateDir])).toEqual([
+        'en',
+        'fr',
+        'ja',
+      ]);
+      expect(await discoverTemplateFiles('en', [templateDir])).toEqual([
+        'code-review.md',
+        'debugging.md',
+        'documentation.md',
+        'onboarding.md',
+        'system-prompt.md',
+      ]);
+    });
+
+    it('should let template directories override bundled templates', async () => {
+      const result = await loadTemplatesFromRepository('en', [templateDir]);
+
+      const sources = Object.fromEntries(
+        result.templates.map((template) => [
+          template.fileName,
+          template.source,
+        ]),
+      );
+      expect(sources).toEqual({
+        'code-review.md': templateDir,
+        'debugging.md': BUNDLED_TEMPLATE_SOURCE,
+        'documentation.md': BUNDLED_TEMPLATE_SOURCE,
+        'onboarding.md': templateDir,
+        'system-prompt.md': BUNDLED_TEMPLATE_SOURCE,
+      });
+      expect(
+        result.templates.find(
+          (template) => template.fileName === 'code-review.md',
+        )?.content,
+      ).toBe('# Company code review\n');
+    });
+
+    it('should give earlier template directories priority', async () => {
+      const otherDir = await fs.mkdtemp(join(tmpdir(), 'template-dir-test-'));
+      try {
+        await fs.mkdir(join(otherDir, 'en'));
+        await fs.writeFile(join(otherDir, 'en', 'code-review.md'), '# Other\n');
+
+        expect(
+          await readTemplateFile('code-review.md', 'en', [
+            otherDir,
+            templateDir,
+          ]),
+        ).toBe('# Other\n');
+        expect(
+          await readTemplateFile('code-review.md', 'en', [
+            templateDir,
+            otherDir,
+          ]),
+        ).toBe('# Company code review\n');
+      } finally {
+        await fs.rm(otherDir, { recursive: true, force: true });
+      }
+    });
+  });
+
+  describe('partials', () => {
+    let templateDir: string;
+
+    const writePartial = (language: string, name: string, content: string) =>
+      fs.writeFile(
+        join(templateDir, language, PARTIALS_DIRECTORY, `${name}.md`),
+        content,
+      );
+
+    beforeEach(async () => {
+      templateDir = await fs.mkdtemp(join(tmpdir(), 'partials-test-'));
+      for (const language of ['en', 'ja']) {
+        await fs.mkdir(join(templateDir, language, PARTIALS_DIRECTORY), {
+          recursive: true,
+        });
+      }
+      await writePartial('en', 'tone', 'Be {{tone|friendly}}.\n');
+      await writePartial('ja', 'tone', '丁寧に答えてください。\n');
+      await writePartial('en', 'footer', '---\n{{> tone}}\n');
+    });
+
+    afterEach(async () => {
+      await fs.rm(templateDir, { recursive: true, force: true });
+    });
+
+    it('should replace includes with the partial of the language', async () => {
+      const content = '# Review\n\n{{> tone}}\n';
+
+      expect(
+        await resolveIncludes('review.md', content, 'en', [templateDir]),
+      ).toBe('# Review\n\nBe {{tone|friendly}}.\n');
+      expect(
+        await resolveIncludes('review.md', content, 'ja', [templateDir]),
+      ).toBe('# Review\n\n丁寧に答えてください。\n');
+    });
+
+    it('should resolve nested includes', async () => {
+      expect(
+        await resolveIncludes('review.md', '{{>footer}}\n', 'en', [
+          templateDir,
+        ]),
+      ).toBe('---\nBe {{tone|friendly}}.\n');
+    });
+
+    it('should detect circular includes', async () => {
+      await writePartial('en', 'a', '{{> b}}\n');
+      await writePartial('en', 'b', '{{> a}}\n');
+
+      await expect(
+        resolveIncludes('review.md', '{{> a}}', 'en', [templateDir]),
+      ).rejects.toThrow(
+        'Failed to resolve includes of review.md for language en: Circular partial include: a -> b -> a',
+      );
+    });
+
+    it('should let a template include a partial of the same name', async () => {
+      expect(
+        await resolveIncludes('tone.md', '# Tone\n{{> tone}}\n', 'en', [
+          templateDir,
+        ]),
+      ).toBe('# Tone\nBe {{tone|friendly}}.\n');
+    });
+
+    it('should report missing partials', async () => {
+      await expect(
+        resolveIncludes('review.md', '{{> footer}}', 'ja', [templateDir]),
+      ).rejects.toThrow('Partial "footer" not found in ja/_partials');
+    });
+
+    it('should load templates with their includes resolved', async () => {
+      await fs.writeFile(
+        join(templateDir, 'en', 'review.md'),
+        '---\ntitle: Review\n---\n# Review\n{{> tone}}\n',
+      );
+
+      const result = await loadTemplatesFromRepository('en', [templateDir]);
+      const review = result.templates.find(
+        (template) => template.fileName === 'review.md',
+      );
+
+      expect(review?.content).toBe('# Review\nBe {{tone|friendly}}.\n');
+      expect(review?.placeholders).toEqual([
+        { name: 'tone', defaultValue: 'friendly' },
+      ]);
+    });
+
+    it('should load the other templates when one has a broken include', async () => {
+      await fs.writeFile(join(templateDir, 'en', 'review.md'), '# Review\n');
+      await fs.writeFile(
+        join(templateDir, 'en', 'broken.md'),
+        '# Broken\n{{> missing}}\n',
+      );
+
+      const result = await loadTemplatesFromRepository('en', [templateDir]);
+
+      expect(result.success).toBe(false);
+      expect(result.templates.map((template) => template.fileName)).toContain(
+        'review.md',
+      );
+      expect(result.failures).toEqual([
+        {
+          fileName: 'broken.md',
+          error: expect.stringContaining(
+            'Failed to resolve includes of broken.md for language en',
+          ),
+        },
+      ]);
+      expect(result.error).toBe(result.failures?.[0].error);
+    });
+
+    it('should not list partials as templates', async () => {
+      expect(await discoverTemplateFiles('en', [templateDir])).not.toContain(
+        'tone.md',
+      );
+    });
   });
 });
@@ -1,20 +1,70 @@
-import { readdir, readFile } from 'node:fs/promises';
-import { dirname, join } from 'node:path';
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { dirname, join, resolve } from 'node:path';
 import { fileURLToPath } from 'node:url';
+import {
+  getDeclaredDefaults,
+  parseFrontMatter,
+  type TemplateMetadata,
+} from './front-matter.js';
+import {
+  extractPlaceholders,
+  type RenderResult,
+  renderTemplate,
+  type TemplatePlaceholder,
+  type TemplateVariables,
+} from './template-variables.js';
 
 // Type definitions for template data structures
 export type PromptTemplate = {
   readonly fileName: string;
+  /** Template body without the front matter block */
   readonly content: string;
   readonly language: string;
+  /** Where the template was loaded from: 'bundled' or a template directory */
+  readonly source: string;
+  readonly placeholders: readonly TemplatePlaceholder[];
+  readonly metadata: TemplateMetadata;
+  /** Raw front matter block including its `---` delimiters, if present */
+  readonly frontMatter?: string;
+  /** Language the content was taken from when no translation exists */
+  readonly fallbackLanguage?: string;
+};
+
+export type TemplateLoadFailure = {
+  readonly fileName: string;
+  readonly error: string;
 };
 
 export type TemplateLoadResult = {
+  /** Every template of the language was loaded */
   readonly success: boolean;
+  /** The templates that were loaded, also when others failed */
   readonly templates: readonly PromptTemplate[];
   readonly error?: string;
+  /** The templates that failed to load, when the others could be loaded */
+  readonly failures?: readonly TemplateLoadFailure[];
+};
+
+export type TemplateRoot = {
+  readonly source: string;
+  readonly path: string;
+};
+
+export type TemplateSourceFile = {
+  /** The raw file content, including any front matter */
+  readonly content: string;
+  readonly source: string;
+  readonly path: string;
 };
 
+export const BUNDLED_TEMPLATE_SOURCE = 'bundled';
+
+/** Directory of a language holding the partials templates can include */
+export const PARTIALS_DIRECTORY = '_partials';
+
+/** Include of a partial, e.g. `{{> output-format}}` */
+const INCLUDE_PATTERN = /\{\{>\s*([\w-]+)\s*\}\}/g;
+
 /**
  * Resolves the path to the templates directory within the package
  * @returns The absolute path to the templates directory
@@ -26,27 +76,123 @@ export const getPackageTemplatesPath = (): string => {
   return join(currentDir, '..', '..', 'templates');
 };
 
+/**
+ * Lists the template roots in priority order: the given template directories
+ * first, then the templates bundled with the package
+ * @param templateDirs - Extra template directories, highest priority first
+ * @returns The template roots with their absolute paths
+ */
+export const getTemplateRoots = (
+  templateDirs: readonly string[] = [],
+): readonly TemplateRoot[] => [
+  ...templateDirs.map((dir) => ({ source: dir, path: resolve(dir) })),
+  { source: BUNDLED_TEMPLATE_SOURCE, path: getPackageTemplatesPath() },
+];
+
+/**
+ * Lists the entries of a directory, or nothing if it can't be read
+ */
+const readDirectoryEntries = async (path: string) => {
+  try {
+    return await readdir(path, { withFileTypes: true });
+  } catch (_error) {
+    return [];
+  }
+};
+
+/**
+ * Discovers the language directories available in the template roots
+ * @param templateDirs - Extra template directories searched before the bundled ones
+ * @returns Promise resolving to the sorted language codes
+ */
+export const discoverTemplateLanguages = async (
+  templateDirs: readonly string[] = [],
+): Promise<readonly string[]> => {
+  const languages = new Set<string>();
+
+  for (const root of getTemplateRoots(templateDirs)) {
+    for (const entry of await readDirectoryEntries(root.path)) {
+      if (entry.isDirectory()) {
+        languages.add(entry.name);
+      }
+    }
+  }
+
+  return [...languages].sort();
+};
+
 /**
  * Discovers all template files (.md) in a specific language directory
+ * across the template roots. Partials in the _partials directory are not
+ * templates and are left out.
  * @param language - The language code (e.g., 'en', 'ja')
- * @returns Promise resolving to array of template file names
+ * @param templateDirs - Extra template directories searched before the bundled ones
+ * @returns Promise resolving to the sorted template file names
  */
 export const discoverTemplateFiles = async (
   language: string,
+  templateDirs: readonly string[] = [],
 ): Promise<readonly string[]> => {
-  try {
-    const templatesPath = getPackageTemplatesPath();
-    const languageDir = join(templatesPath, language);
+  const templateFiles = new Set<string>();
+
+  for (const root of getTemplateRoots(templateDirs)) {
+    for (const entry of await readDirectoryEntries(join(root.path, language))) {
+      // Filter for .md files only
+      if (entry.isFile() && entry.name.endsWith('.md')) {
+        templateFiles.add(entry.name);
+      }
+    }
+  }
 
-    const files = await readdir(languageDir);
+  return [...templateFiles].sort();
+};
 
-    // Filter for .md files only
-    const templateFiles = files.filter((file) => file.endsWith('.md'));
+/**
+ * Finds the root providing a template file; earlier roots override later ones.
+ * Falls back to the bundled templates so missing files fail with their path.
+ */
+const findTemplateRoot = async (
+  templateName: string,
+  language: string,
+  templateDirs: readonly string[],
+): Promise<TemplateRoot> => {
+  const roots = getTemplateRoots(templateDirs);
 
-    return templateFiles;
-  } catch (_error) {
-    // Return empty array if directory doesn't exist or can't be read
-    return [];
+  for (const root of roots) {
+    try {
+      if ((await stat(join(root.path, language, templateName))).isFile()) {
+        return root;
+      }
+    } catch (_error) {
+      // Not provided by this root
+    }
+  }
+
+  return roots[roots.length - 1];
+};
+
+/**
+ * Reads a template file together with the source it was found in
+ * @param templateName - The name of the template file
+ * @param language - The language code
+ * @param templateDirs - Extra template directories searched before the bundled ones
+ * @returns Promise resolving to the raw content, its source and file path
+ */
+export const readTemplateSource = async (
+  templateName: string,
+  language: string,
+  templateDirs: readonly string[] = [],
+): Promise<TemplateSourceFile> => {
+  const root = await findTemplateRoot(templateName, language, templateDirs);
+  const filePath = join(root.path, language, templateName);
+
+  try {
+    const content = await readFile(filePath, 'utf-8');
+    return { content, source: root.source, path: filePath };
+  } catch (error) {
+    throw new Error(
+      `Failed to read template file ${templateName} for language ${language}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
   }
 };
 
@@ -54,35 +200,219 @@ export const discoverTemplateFiles = async (
  * Reads the content of a specific template file
  * @param templateName - The name of the template file (e.g., 'system-prompt.md')
  * @param language - The language code
+ * @param templateDirs - Extra template directories searched before the bundled ones
  * @returns Promise resolving to the file content
  */
 export const readTemplateFile = async (
   templateName: string,
   language: string,
+  templateDirs: readonly string[] = [],
+): Promise<string> =>
+  (await readTemplateSource(templateName, language, templateDirs)).content;
+
+/**
+ * Reads a partial of a language from the first template root providing it
+ */
+const readPartial = async (
+  name: string,
+  language: string,
+  templateDirs: readonly string[],
+): Promise<string> => {
+  for (const root of getTemplateRoots(templateDirs)) {
+    try {
+      return await readFile(
+        join(root.path, language, PARTIALS_DIRECTORY, `${name}.md`),
+        'utf-8',
+      );
+    } catch (_error) {
+      // Not provided by this root
+    }
+  }
+
+  throw new Error(
+    `Partial "${name}" not found in ${language}/${PARTIALS_DIRECTORY}`,
+  );
+};
+
+/**
+ * Replace the includes of a content, following nested includes
+ * @param chain - The template and partials currently being resolved
+ */
+const expandIncludes = async (
+  content: string,
+  language: string,
+  templateDirs: readonly string[],
+  chain: readonly string[],
 ): Promise<string> => {
-  const templatesPath = getPackageTemplatesPath();
-  const filePath = join(templatesPath, language, templateName);
+  const names = [
+    ...new Set([...content.matchAll(INCLUDE_PATTERN)].map((match) => match[1])),
+  ];
+  const partials = new Map<string, string>();
+
+  for (const name of names) {
+    if (chain.includes(name)) {
+      throw new Error(
+        `Circular partial include: ${[...chain, name].join(' -> ')}`,
+      );
+    }
+    const partial = await expandIncludes(
+      await readPartial(name, language, templateDirs),
+      language,
+      templateDirs,
+      [...chain, name],
+    );
+    // The include usually sits on its own line, which keeps its line break
+    partials.set(name, partial.replace(/\r?\n$/, ''));
+  }
+
+  return content.replace(
+    INCLUDE_PATTERN,
+    (_match, name: string) => partials.get(name) ?? '',
+  );
+};
 
+/**
+ * Replaces the `{{> name}}` includes of a template with the partials of its
+ * language, found in the _partials directory of the template roots.
+ * Partials may include other partials.
+ * @param fileName - The template file name, used in error messages
+ * @param content - The raw template content
+ * @param language - The language whose partials are used
+ * @param templateDirs - Extra template directories searched before the bundled ones
+ * @returns Promise resolving to the content with every include replaced
+ * @throws Error when a partial is missing or includes itself
+ */
+export const resolveIncludes = async (
+  fileName: string,
+  content: string,
+  language: string,
+  templateDirs: readonly string[] = [],
+): Promise<string> => {
   try {
-    const content = await readFile(filePath, 'utf-8');
-    return content;
+    // Templates and partials are separate namespaces, so only partials
+    // can form a cycle
+    return await expandIncludes(content, language, templateDirs, []);
   } catch (error) {
     throw new Error(
-      `Failed to read template file ${templateName} for language ${language}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      `Failed to resolve includes of ${fileName} for language ${language}: ${error instanceof Error ? error.message : 'Unknown error'}`,
     );
   }
 };
 
 /**
- * Loads all available templates from the repository for a specific language
+ * Builds a PromptTemplate from raw file content, parsing its front matter.
+ * Defaults declared in the front matter take precedence over inline defaults.
+ * @param fileName - The template file name
+ * @param language - The language code
+ * @param raw - The raw template file content
+ * @param source - Where the template was loaded from
+ * @returns The parsed template
+ */
+export const parseTemplate = (
+  fileName: string,
+  language: string,
+  raw: string,
+  source: string = BUNDLED_TEMPLATE_SOURCE,
+): PromptTemplate => {
+  let parsed: ReturnType<typeof parseFrontMatter>;
+  try {
+    parsed = parseFrontMatter(raw);
+  } catch (error) {
+    throw new Error(
+      `Failed to parse front matter of ${fileName} for language ${language}: ${error instanceof Error ? error.message : 'Unknown error'}`,
+    );
+  }
+
+  const { metadata, frontMatter, body } = parsed;
+  const declaredDefaults = new Map(
+    metadata.variables.map((variable) => [
+      variable.name,
+      variable.defaultValue,
+    ]),
+  );
+  const placeholders = extractPlaceholders(body).map((placeholder) => {
+    const defaultValue =
+      declaredDefaults.get(placeholder.name) ?? placeholder.defaultValue;
+    return defaultValue === undefined
+      ? { name: placeholder.name }
+      : { name: placeholder.name, defaultValue };
+  });
+
+  return {
+    fileName,
+    content: body,
+    language,
+    source,
+    placeholders,
+    metadata,
+    ...(frontMatter !== undefined && { frontMatter }),
+  };
+};
+
+/**
+ * Renders a template into the content of a generated prompt file
+ * @param template - The template to render
+ * @param variables - Variable values, overriding declared and inline defaults
+ * @param keepFrontMatter - Whether to keep the front matter block in the output
+ * @returns The rendered content and any unresolved placeholder names
+ */
+export const renderPromptTemplate = (
+  template: PromptTemplate,
+  variables: TemplateVariables,
+  keepFrontMatter = false,
+): RenderResult => {
+  const source =
+    keepFrontMatter && template.frontMatter
+      ? `${template.frontMatter}\n${template.content}`
+      : template.content;
+
+  return renderTemplate(source, {
+    ...getDeclaredDefaults(template.metadata),
+    ...variables,
+  });
+};
+
+/**
+ * Loads a single template: reads it from the first root providing it,
+ * resolves its includes and parses its front matter
+ * @param fileName - The template file name (e.g., 'code-review.md')
+ * @param language - The language code
+ * @param templateDirs - Extra template directories, highest priority first
+ * @returns Promise resolving to the parsed template
+ */
+export const loadTemplate = async (
+  fileName: string,
+  language: string,
+  templateDirs: readonly string[] = [],
+): Promise<PromptTemplate> => {
+  const { content, source } = await readTemplateSource(
+    fileName,
+    language,
+    templateDirs,
+  );
+  return parseTemplate(
+    fileName,
+    language,
+    await resolveIncludes(fileName, content, language, templateDirs),
+    source,
+  );
+};
+
+/**
+ * Loads all available templates from the repository for a specific language.
+ * Templates in the given template directories override bundled templates
+ * with the same file name, and their includes are resolved. Templates that
+ * fail to load are listed in the failures, and the others are still loaded.
  * @param language - The language code to load templates for
+ * @param templateDirs - Extra template directories, highest priority first
  * @returns Promise resolving to TemplateLoadResult with templates or error info
  */
 export const loadTemplatesFromRepository = async (
   language: string,
+  templateDirs: readonly string[] = [],
 ): Promise<TemplateLoadResult> => {
   try {
-    const templateFiles = await discoverTemplateFiles(language);
+    const templateFiles = await discoverTemplateFiles(language, templateDirs);
 
     if (templateFiles.length === 0) {
       return {
@@ -92,19 +422,37 @@ export const loadTemplatesFromRepository = async (
       };
     }
 
-    // Load content for each template file
-    const templatePromises = templateFiles.map(
-      async (fileName): Promise<PromptTemplate> => {
-        const content = await readTemplateFile(fileName, language);
-        return {
-          fileName,
-          content,
-          language,
-        };
-      },
+    // Load content for each template file; a broken template does not
+    // keep the others from loading
+    const outcomes = await Promise.allSettled(
+      templateFiles.map((fileName) =>
+        loadTemplate(fileName, language, templateDirs),
+      ),
     );
+    const templates: PromptTemplate[] = [];
+    const failures: TemplateLoadFailure[] = [];
+    outcomes.forEach((outcome, index) => {
+      if (outcome.status === 'fulfilled') {
+        templates.push(outcome.value);
+      } else {
+        failures.push({
+          fileName: templateFiles[index],
+          error:
+            outcome.reason instanceof Error
+              ? outcome.reason.message
+              : 'Unknown error occurred while loading the template',
+        });
+      }
+    });
 
-    const templates = await Promise.all(templatePromises);
+    if (failures.length > 0) {
+      return {
+        success: false,
+        templates,
+        error: failures.map((failure) => failure.error).join('; '),
+        failures,
+      };
+    }
 
     return {
       success: true,
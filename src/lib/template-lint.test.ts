@@ -0,0 +1,269 @@
+import { describe, expect, it } from 'vitest';
+import {
+  discoverTemplateFiles,
+  discoverTemplateLanguages,
+  readTemplateFile,
+} from './template-generator.js';
+import {
+  type LintFile,
+  lintTemplates,
+  parseRuleAssignments,
+} from './template-lint.js';
+
+const createFile = (
+  content: string,
+  overrides: Partial<LintFile> = {},
+): LintFile => ({
+  fileName: 'review.md',
+  language: 'en',
+  source: 'bundled',
+  content,
+  ...overrides,
+});
+
+const VALID_TEMPLATE = [
+  '---',
+  'title: Review',
+  'variables:',
+  '  language:',
+  '    default: code',
+  '---',
+  '',
+  '# Review',
+  '',
+  'Review this {{language}}.',
+  '',
+  '## Output Format',
+  'A list of findings.',
+  '',
+].join('\n');
+
+const rulesOf = (content: string, overrides: Partial<LintFile> = {}) =>
+  lintTemplates([createFile(content, overrides)]).issues.map(
+    (issue) => issue.rule,
+  );
+
+describe('template-lint', () => {
+  describe('lintTemplates', () => {
+    it('should accept a valid template', () => {
+      expect(lintTemplates([createFile(VALID_TEMPLATE)])).toEqual({
+        files: 1,
+        issues: [],
+        errorCount: 0,
+        warningCount: 0,
+      });
+    });
+
+    it('should report invalid front matter as an error', () => {
+      const report = lintTemplates([
+        createFile('---\nnot a field\n---\nBody\n'),
+      ]);
+
+      expect(report.errorCount).toBe(1);
+      expect(report.issues[0]).toMatchObject({
+        rule: 'front-matter',
+        severity: 'error',
+        message: expect.stringContaining('Invalid front matter'),
+      });
+    });
+
+    it('should report a missing output format section per language', () => {
+      const withoutSection = VALID_TEMPLATE.replace(
+        '## Output Format',
+        '## Notes',
+      );
+
+      expect(lintTemplates([createFile(withoutSection)]).issues).toEqual([
+        expect.objectContaining({
+          rule: 'output-format-section',
+          message: 'Missing "## Output Format" section',
+        }),
+      ]);
+      expect(
+        rulesOf(VALID_TEMPLATE.replace('## Output Format', '## 出力形式'), {
+          language: 'ja',
+        }),
+      ).toEqual([]);
+      expect(
+        rulesOf(VALID_TEMPLATE.replace('## Output Format', '## 回答形式'), {
+          language: 'ja',
+        }),
+      ).toEqual([]);
+    });
+
+    it('should report the include error of a file and lint it as it is', () => {
+      const { issues } = lintTemplates([
+        createFile(VALID_TEMPLATE, {
+          includeError: 'Partial not found: tone',
+        }),
+      ]);
+
+      expect(issues).toEqual([
+        expect.objectContaining({
+          rule: 'partial-include',
+          severity: 'error',
+          message: 'Partial not found: tone',
+        }),
+      ]);
+    });
+
+    it('should pass the bundled templates', async () => {
+      const files: LintFile[] = [];
+      for (const language of await discoverTemplateLanguages()) {
+        for (const fileName of await discoverTemplateFiles(language)) {
+          files.push(
+            createFile(await readTemplateFile(fileName, language), {
+              fileName,
+              language,
+            }),
+          );
+        }
+      }
+
+      expect(files.length).toBeGreaterThan(0);
+      expect(lintTemplates(files).issues).toEqual([]);
+    });
+
+    it('should report undeclared placeholders with their line', () => {
+      const content = VALID_TEMPLATE.replace(
+        'A list of findings.',
+        'Write in {{tone}}.',
+      );
+
+      expect(lintTemplates([createFile(content)]).issues).toEqual([
+        expect.objectContaining({
+          rule: 'undeclared-placeholder',
+          severity: 'warning',
+          message:
+            'Placeholder {{tone}} is not declared in the front matter variables',
+          line: 13,
+        }),
+      ]);
+    });
+
+    it('should count lines in the template file when partials are included', () => {
+      const content = VALID_TEMPLATE.replace(
+        'Review this {{language}}.',
+        '{{> checklist}}\n\nReview this {{language}} in {{tone}}.',
+      ).replace('## Output Format\nA list of findings.\n', '');
+      const resolvedContent = content.replace(
+        '{{> checklist}}',
+        '- Correctness\n- Security\n- {{depth}} review\n\n## Output Format\nA list of findings.',
+      );
+
+      expect(
+        lintTemplates([createFile(content, { resolvedContent })]).issues,
+      ).toEqual([
+        expect.objectContaining({
+          rule: 'undeclared-placeholder',
+          message:
+            'Placeholder {{depth}} is not declared in the front matter variables',
+        }),
+        expect.objectContaining({
+          rule: 'undeclared-placeholder',
+          message:
+            'Placeholder {{tone}} is not declared in the front matter variables',
+          line: 12,
+        }),
+      ]);
+      expect(
+        lintTemplates([createFile(content, { resolvedContent })]).issues[0],
+      ).not.toHaveProperty('line');
+    });
+
+    it('should report unused variables', () => {
+      const content = VALID_TEMPLATE.replace('{{language}}', 'code');
+
+      expect(rulesOf(content)).toEqual(['unused-variable']);
+    });
+
+    it('should report empty sections but not parents of subsections', () => {
+      const content = VALID_TEMPLATE.replace(
+        '## Output Format',
+        '## Empty\n\n## Areas\n### Security\nChecks\n\n## Output Format',
+      );
+
+      expect(lintTemplates([createFile(content)]).issues).toEqual([
+        expect.objectContaining({
+          rule: 'empty-section',
+          message: 'Section "## Empty" is empty',
+          line: 12,
+        }),
+      ]);
+    });
+
+    it('should report a missing trailing newline', () => {
+      expect(rulesOf(VALID_TEMPLATE.trimEnd())).toEqual(['trailing-newline']);
+    });
+
+    it('should report file names differing only in case', () => {
+      const report = lintTemplates([
+        createFile(VALID_TEMPLATE),
+        createFile(VALID_TEMPLATE, {
+          fileName: 'Review.md',
+          source: 'company',
+        }),
+        createFile(VALID_TEMPLATE, { fileName: 'Review.md', language: 'fr' }),
+      ]);
+
+      expect(report.issues).toEqual([
+        {
+          template: 'Review.md',
+          language: 'en',
+          source: 'company',
+          rule: 'duplicate-name',
+          severity: 'error',
+          message: 'File name differs only in case from review.md',
+        },
+      ]);
+    });
+
+    it('should report templates over their token budget', () => {
+      const files = [createFile(VALID_TEMPLATE)];
+
+      expect(lintTemplates(files, {}, { review: 1000 }).issues).toEqual([]);
+      expect(lintTemplates(files, {}, { 'rev*': 5 }).issues).toEqual([
+        expect.objectContaining({
+          rule: 'token-budget',
+          severity: 'warning',
+          message: expect.stringMatching(
+            /^Estimated ~\d+ tokens exceeds the budget of 5$/,
+          ),
+        }),
+      ]);
+    });
+
+    it('should apply rule severity overrides', () => {
+      const content = VALID_TEMPLATE.trimEnd();
+
+      expect(
+        lintTemplates([createFile(content)], { 'trailing-newline': 'off' })
+          .issues,
+      ).toEqual([]);
+      expect(
+        lintTemplates([createFile(content)], { 'trailing-newline': 'error' })
+          .errorCount,
+      ).toBe(1);
+    });
+  });
+
+  describe('parseRuleAssignments', () => {
+    it('should parse rule severities', () => {
+      expect(
+        parseRuleAssignments(['empty-section=off', 'trailing-newline=error']),
+      ).toEqual({ 'empty-section': 'off', 'trailing-newline': 'error' });
+    });
+
+    it('should reject malformed settings', () => {
+      expect(() => parseRuleAssignments(['empty-section'])).toThrow(
+        'Invalid rule setting "empty-section": expected rule=severity',
+      );
+      expect(() => parseRuleAssignments(['nope=off'])).toThrow(
+        /^Unknown lint rule "nope". Available rules: front-matter, /,
+      );
+      expect(() => parseRuleAssignments(['empty-section=info'])).toThrow(
+        'Invalid severity "info" for rule empty-section: use error, warning, off',
+      );
+    });
+  });
+});
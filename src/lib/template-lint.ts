@@ -0,0 +1,396 @@
+/**
+ * Template lint rules checking the structure and conventions of template files.
+ */
+
+import { parseFrontMatter, type TemplateMetadata } from './front-matter.js';
+import { extractHeadings } from './markdown-outline.js';
+import { extractPlaceholders } from './template-variables.js';
+import {
+  checkTokenBudget,
+  formatTokenCount,
+  type TokenBudgets,
+} from './token-estimate.js';
+
+// Type definitions for lint rules and results
+export type LintSeverity = 'error' | 'warning' | 'off';
+
+export type LintRuleId =
+  | 'front-matter'
+  | 'partial-include'
+  | 'output-format-section'
+  | 'undeclared-placeholder'
+  | 'unused-variable'
+  | 'empty-section'
+  | 'trailing-newline'
+  | 'duplicate-name'
+  | 'token-budget';
+
+export type LintRuleConfig = Readonly<
+  Partial<Record<LintRuleId, LintSeverity>>
+>;
+
+export type LintFile = {
+  readonly fileName: string;
+  readonly language: string;
+  /** Where the template was loaded from: 'bundled' or a template directory */
+  readonly source: string;
+  /** The raw file content, including any front matter */
+  readonly content: string;
+  /** The content with its includes resolved; defaults to the raw content */
+  readonly resolvedContent?: string;
+  /** Why the includes could not be resolved */
+  readonly includeError?: string;
+};
+
+export type LintIssue = {
+  readonly template: string;
+  readonly language: string;
+  readonly source: string;
+  readonly rule: LintRuleId;
+  readonly severity: Exclude<LintSeverity, 'off'>;
+  readonly message: string;
+  /** 1-based line number in the template file, when the issue has one */
+  readonly line?: number;
+};
+
+export type LintReport = {
+  readonly files: number;
+  readonly issues: readonly LintIssue[];
+  readonly errorCount: number;
+  readonly warningCount: number;
+};
+
+export const LINT_SEVERITIES: readonly LintSeverity[] = [
+  'error',
+  'warning',
+  'off',
+];
+
+/** Default severity and description of every rule */
+export const LINT_RULES: Readonly<
+  Record<
+    LintRuleId,
+    {
+      readonly severity: Exclude<LintSeverity, 'off'>;
+      readonly description: string;
+    }
+  >
+> = {
+  'front-matter': {
+    severity: 'error',
+    description: 'front matter must be valid',
+  },
+  'partial-include': {
+    severity: 'error',
+    description: 'partial includes must resolve',
+  },
+  'output-format-section': {
+    severity: 'warning',
+    description: 'templates should have an "Output Format" section',
+  },
+  'undeclared-placeholder': {
+    severity: 'warning',
+    description: 'placeholders should be declared in the front matter',
+  },
+  'unused-variable': {
+    severity: 'warning',
+    description: 'declared variables should be used',
+  },
+  'empty-section': {
+    severity: 'warning',
+    description: 'sections should not be empty',
+  },
+  'trailing-newline': {
+    severity: 'warning',
+    description: 'files should end with a newline',
+  },
+  'duplicate-name': {
+    severity: 'error',
+    description: 'file names must not differ only in case',
+  },
+  'token-budget': {
+    severity: 'warning',
+    description: 'templates should fit their configured token budget',
+  },
+};
+
+/**
+ * Accepted titles of the output format section per language; the first
+ * one is suggested when the section is missing
+ */
+const OUTPUT_FORMAT_HEADINGS: Readonly<Record<string, readonly string[]>> = {
+  en: ['Output Format', 'Response Format', 'Format Requirements'],
+  ja: ['出力形式', '回答形式', '形式要件'],
+};
+
+/**
+ * Checks whether a string names a lint rule
+ */
+export const isLintRuleId = (name: string): name is LintRuleId =>
+  Object.hasOwn(LINT_RULES, name);
+
+/**
+ * Parses `rule=severity` settings given on the command line
+ * @param assignments - Raw settings such as ['empty-section=off']
+ * @returns The rule configuration, later settings overriding earlier ones
+ */
+export const parseRuleAssignments = (
+  assignments: readonly string[],
+): LintRuleConfig => {
+  const rules: Partial<Record<LintRuleId, LintSeverity>> = {};
+
+  for (const assignment of assignments) {
+    const [name, severity] = assignment.split('=');
+    if (!name || !severity) {
+      throw new Error(
+        `Invalid rule setting "${assignment}": expected rule=severity`,
+      );
+    }
+    if (!isLintRuleId(name)) {
+      throw new Error(
+        `Unknown lint rule "${name}". Available rules: ${Object.keys(LINT_RULES).join(', ')}`,
+      );
+    }
+    if (!LINT_SEVERITIES.includes(severity as LintSeverity)) {
+      throw new Error(
+        `Invalid severity "${severity}" for rule ${name}: use ${LINT_SEVERITIES.join(', ')}`,
+      );
+    }
+    rules[name] = severity as LintSeverity;
+  }
+
+  return rules;
+};
+
+type RuleFinding = {
+  readonly rule: LintRuleId;
+  readonly message: string;
+  readonly line?: number;
+};
+
+/**
+ * Find the 1-based line of the first occurrence of a text, if any
+ */
+const findLine = (content: string, text: string): number | undefined => {
+  const index = content.indexOf(text);
+  return index === -1 ? undefined : content.slice(0, index).split('\n').length;
+};
+
+/**
+ * Check the placeholders of a template against its declared variables.
+ * Placeholders of the included partials count, but only those in the
+ * template file itself have a line.
+ */
+const checkVariables = (
+  body: string,
+  resolvedBody: string,
+  metadata: TemplateMetadata,
+  lineOffset: number,
+): readonly RuleFinding[] => {
+  const declared = new Set(metadata.variables.map(({ name }) => name));
+  const used = new Set(
+    extractPlaceholders(resolvedBody).map(({ name }) => name),
+  );
+  const lineOf = (name: string) => {
+    const line = findLine(body, `{{${name}`);
+    return line === undefined ? {} : { line: line + lineOffset };
+  };
+
+  return [
+    ...[...used]
+      .filter((name) => !declared.has(name))
+      .map((name) => ({
+        rule: 'undeclared-placeholder' as const,
+        message: `Placeholder {{${name}}} is not declared in the front matter variables`,
+        ...lineOf(name),
+      })),
+    ...[...declared]
+      .filter((name) => !used.has(name))
+      .map((name) => ({
+        rule: 'unused-variable' as const,
+        message: `Variable "${name}" is declared but never used`,
+      })),
+  ];
+};
+
+/**
+ * Check the sections of a template body. Empty sections are found in the
+ * template file itself, the output format section may come from a partial.
+ */
+const checkSections = (
+  body: string,
+  resolvedBody: string,
+  language: string,
+  lineOffset: number,
+): readonly RuleFinding[] => {
+  const findings: RuleFinding[] = [];
+  const headings = extractHeadings(body);
+  const lines = body.split(/\r?\n/);
+
+  headings.forEach((heading, index) => {
+    const next = headings[index + 1];
+    const sectionLines = lines.slice(
+      heading.line,
+      next ? next.line - 1 : undefined,
+    );
+    const hasContent = sectionLines.some((line) => line.trim() !== '');
+    const hasSubsection = next !== undefined && next.level > heading.level;
+    if (!hasContent && !hasSubsection) {
+      findings.push({
+        rule: 'empty-section',
+        message: `Section "${'#'.repeat(heading.level)} ${heading.text}" is empty`,
+        line: heading.line + lineOffset,
+      });
+    }
+  });
+
+  const outputHeadings =
+    OUTPUT_FORMAT_HEADINGS[language] ??
+    Object.values(OUTPUT_FORMAT_HEADINGS).flat();
+  const hasOutputFormat = extractHeadings(resolvedBody).some(
+    (heading) =>
+      heading.level === 2 &&
+      outputHeadings.some(
+        (title) => title.toLowerCase() === heading.text.toLowerCase(),
+      ),
+  );
+  if (!hasOutputFormat) {
+    findings.push({
+      rule: 'output-format-section',
+      message: `Missing "## ${outputHeadings[0]}" section`,
+    });
+  }
+
+  return findings;
+};
+
+/**
+ * Run the per-file rules on a template file
+ */
+const checkFile = (
+  file: LintFile,
+  tokenBudgets: TokenBudgets,
+): readonly RuleFinding[] => {
+  let parsed: ReturnType<typeof parseFrontMatter>;
+  let resolvedBody: string;
+  try {
+    parsed = parseFrontMatter(file.content);
+    resolvedBody =
+      file.resolvedContent === undefined
+        ? parsed.body
+        : parseFrontMatter(file.resolvedContent).body;
+  } catch (error) {
+    // The remaining rules need the parsed template
+    return [
+      {
+        rule: 'front-matter',
+        message: error instanceof Error ? error.message : String(error),
+      },
+    ];
+  }
+
+  // The body is the end of the file, so its lines are offset by the front matter
+  const lineOffset =
+    file.content.split('\n').length - parsed.body.split('\n').length;
+
+  const budgetCheck = checkTokenBudget(
+    file.fileName,
+    resolvedBody,
+    tokenBudgets,
+  );
+
+  return [
+    ...(file.includeError !== undefined
+      ? [{ rule: 'partial-include' as const, message: file.includeError }]
+      : []),
+    ...checkVariables(parsed.body, resolvedBody, parsed.metadata, lineOffset),
+    ...checkSections(parsed.body, resolvedBody, file.language, lineOffset),
+    ...(file.content.endsWith('\n')
+      ? []
+      : [
+          {
+            rule: 'trailing-newline' as const,
+            message: 'File does not end with a newline',
+          },
+        ]),
+    ...(budgetCheck.exceeded
+      ? [
+          {
+            rule: 'token-budget' as const,
+            message: `Estimated ${formatTokenCount(budgetCheck.tokens)} exceeds the budget of ${budgetCheck.budget}`,
+          },
+        ]
+      : []),
+  ];
+};
+
+/**
+ * Find file names of a language that differ only in case, which collide on
+ * case-insensitive file systems
+ */
+const checkDuplicateNames = (
+  files: readonly LintFile[],
+): readonly (RuleFinding & { readonly file: LintFile })[] => {
+  const seen = new Map<string, LintFile>();
+
+  return files.flatMap((file) => {
+    const key = `${file.language}/${file.fileName.toLowerCase()}`;
+    const first = seen.get(key);
+    if (!first) {
+      seen.set(key, file);
+      return [];
+    }
+    return [
+      {
+        file,
+        rule: 'duplicate-name' as const,
+        message: `File name differs only in case from ${first.fileName}`,
+      },
+    ];
+  });
+};
+
+/**
+ * Lint template files
+ * @param files - The template files to check
+ * @param rules - Severity overrides; other rules use their default severity
+ * @param tokenBudgets - Token budgets of the templates
+ * @returns The report with issues in file order
+ */
+export const lintTemplates = (
+  files: readonly LintFile[],
+  rules: LintRuleConfig = {},
+  tokenBudgets: TokenBudgets = {},
+): LintReport => {
+  const duplicates = checkDuplicateNames(files);
+
+  const issues = files.flatMap((file) =>
+    [
+      ...checkFile(file, tokenBudgets),
+      ...duplicates.filter((duplicate) => duplicate.file === file),
+    ].flatMap(({ rule, message, line }): LintIssue[] => {
+      const severity = rules[rule] ?? LINT_RULES[rule].severity;
+      if (severity === 'off') {
+        return [];
+      }
+      return [
+        {
+          template: file.fileName,
+          language: file.language,
+          source: file.source,
+          rule,
+          severity,
+          message,
+          ...(line !== undefined && { line }),
+        },
+      ];
+    }),
+  );
+
+  return {
+    files: files.length,
+    issues,
+    errorCount: issues.filter((issue) => issue.severity === 'error').length,
+    warningCount: issues.filter((issue) => issue.severity === 'warning').length,
+  };
+};
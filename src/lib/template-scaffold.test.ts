@@ -0,0 +1,114 @@
+import { promises as fs } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { lintTemplates } from './template-lint.js';
+import {
+  createTemplateSkeleton,
+  scaffoldTemplate,
+  toTemplateTitle,
+  validateTemplateName,
+} from './template-scaffold.js';
+
+describe('template-scaffold', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(join(tmpdir(), 'template-scaffold-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('validateTemplateName', () => {
+    it('should accept lowercase names with hyphens', () => {
+      expect(validateTemplateName('api-design')).toBeUndefined();
+      expect(validateTemplateName('review2')).toBeUndefined();
+    });
+
+    it('should reject other names', () => {
+      for (const name of ['Api', 'api_design', '-api', 'api--x', 'a/b', '']) {
+        expect(validateTemplateName(name)).toContain(
+          `Invalid template name "${name}"`,
+        );
+      }
+    });
+  });
+
+  describe('toTemplateTitle', () => {
+    it('should capitalize each word', () => {
+      expect(toTemplateTitle('api-design-review')).toBe('Api Design Review');
+    });
+  });
+
+  describe('createTemplateSkeleton', () => {
+    it('should create templates that pass the lint rules', () => {
+      const files = ['en', 'ja', 'fr'].map((language) => ({
+        fileName: 'api-design.md',
+        language,
+        source: 'templates',
+        content: createTemplateSkeleton('api-design', language),
+      }));
+
+      expect(lintTemplates(files).issues).toEqual([]);
+    });
+
+    it('should use the headings of the language', () => {
+      const skeleton = createTemplateSkeleton('api-design', 'ja');
+
+      expect(skeleton).toMatch(/^---\ntitle: Api Design\n/);
+      expect(skeleton).toContain('\n## 出力形式\n');
+    });
+
+    it('should use English headings for other languages', () => {
+      expect(createTemplateSkeleton('api-design', 'fr')).toContain(
+        '\n## Output Format\n',
+      );
+    });
+  });
+
+  describe('scaffoldTemplate', () => {
+    it('should create the template in every language', async () => {
+      const templates = await scaffoldTemplate('api-design.md', {
+        templateDir: tempDir,
+        languages: ['en', 'ja'],
+      });
+
+      expect(templates).toEqual([
+        { language: 'en', path: join(tempDir, 'en', 'api-design.md') },
+        { language: 'ja', path: join(tempDir, 'ja', 'api-design.md') },
+      ]);
+      expect(
+        await fs.readFile(join(tempDir, 'ja', 'api-design.md'), 'utf-8'),
+      ).toBe(createTemplateSkeleton('api-design', 'ja'));
+    });
+
+    it('should not write anything when the template exists', async () => {
+      await fs.mkdir(join(tempDir, 'ja'));
+      await fs.writeFile(join(tempDir, 'ja', 'api-design.md'), '# Mine\n');
+
+      await expect(
+        scaffoldTemplate('api-design', {
+          templateDir: tempDir,
+          languages: ['en', 'ja'],
+        }),
+      ).rejects.toThrow(
+        `Template already exists: ${join(tempDir, 'ja', 'api-design.md')}`,
+      );
+      await expect(fs.access(join(tempDir, 'en'))).rejects.toThrow();
+      expect(
+        await fs.readFile(join(tempDir, 'ja', 'api-design.md'), 'utf-8'),
+      ).toBe('# Mine\n');
+    });
+
+    it('should reject invalid names', async () => {
+      await expect(
+        scaffoldTemplate('../escape', {
+          templateDir: tempDir,
+          languages: ['en'],
+        }),
+      ).rejects.toThrow('Invalid template name "../escape"');
+    });
+  });
+});
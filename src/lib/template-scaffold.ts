@@ -0,0 +1,140 @@
+/**
+ * Scaffolding of new templates: a file with a front matter skeleton and
+ * the standard section headings in every language of a template root.
+ */
+
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { checkFileExists } from './file-operations.js';
+import { FALLBACK_LANGUAGE } from './language-support.js';
+
+// Type definitions for template scaffolding
+export type ScaffoldOptions = {
+  /** The template root holding one directory per language */
+  readonly templateDir: string;
+  readonly languages: readonly string[];
+};
+
+export type ScaffoldedTemplate = {
+  readonly language: string;
+  readonly path: string;
+};
+
+type SkeletonText = {
+  readonly description: string;
+  readonly introduction: string;
+  /** Section headings with a hint of their content */
+  readonly sections: readonly (readonly [string, string])[];
+};
+
+const TEMPLATE_NAME_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+)*$/;
+
+/** Text of the skeleton per language; other languages use English */
+const SKELETON_TEXT: Readonly<Record<string, SkeletonText>> = {
+  en: {
+    description: 'Describe what this prompt is for',
+    introduction: 'Describe the task the assistant should help with.',
+    sections: [
+      ['Context', 'Background the assistant needs to know'],
+      ['Instructions', 'Steps or focus areas the response should cover'],
+      ['Output Format', 'Structure of the expected response'],
+    ],
+  },
+  ja: {
+    description: 'このプロンプトの目的を記述してください',
+    introduction: 'アシスタントに手伝ってほしいタスクを記述してください。',
+    sections: [
+      ['背景', 'アシスタントが知っておくべき前提'],
+      ['指示', '回答で扱うべき手順や観点'],
+      ['出力形式', '期待する回答の構成'],
+    ],
+  },
+};
+
+/**
+ * Validates the name of a new template
+ * @returns An error message, or undefined when the name is valid
+ */
+export const validateTemplateName = (name: string): string | undefined =>
+  TEMPLATE_NAME_PATTERN.test(name)
+    ? undefined
+    : `Invalid template name "${name}": use lowercase letters, digits and hyphens, e.g. "code-review"`;
+
+/**
+ * Turns a template name such as "code-review" into the title "Code Review"
+ */
+export const toTemplateTitle = (name: string): string =>
+  name
+    .split('-')
+    .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+    .join(' ');
+
+/**
+ * Creates the content of a new template
+ * @param name - The template name
+ * @param language - The language of the headings and hints
+ */
+export const createTemplateSkeleton = (
+  name: string,
+  language: string,
+): string => {
+  const text = SKELETON_TEXT[language] ?? SKELETON_TEXT[FALLBACK_LANGUAGE];
+  const title = toTemplateTitle(name);
+  const sections = text.sections.map(
+    ([heading, hint]) => `## ${heading}\n- ${hint}\n`,
+  );
+
+  return [
+    `---\ntitle: ${title}\ndescription: ${text.description}\ntags: []\nversion: 0.1.0\n---\n`,
+    `# ${title}\n`,
+    `${text.introduction}\n`,
+    ...sections,
+  ].join('\n');
+};
+
+/**
+ * Creates a new template in every language directory of a template root.
+ * Nothing is written when the template exists in any of the languages.
+ * @param name - The template name, with or without the .md extension
+ * @param options - The template root and languages
+ * @returns Promise resolving to the created files in language order
+ * @throws Error when the name is invalid or the template already exists
+ */
+export const scaffoldTemplate = async (
+  name: string,
+  options: ScaffoldOptions,
+): Promise<readonly ScaffoldedTemplate[]> => {
+  const templateName = name.replace(/\.md$/, '');
+  const nameError = validateTemplateName(templateName);
+  if (nameError) {
+    throw new Error(nameError);
+  }
+
+  const templates = options.languages.map((language) => ({
+    language,
+    path: join(options.templateDir, language, `${templateName}.md`),
+  }));
+
+  const existing: string[] = [];
+  for (const template of templates) {
+    if ((await checkFileExists(template.path)).exists) {
+      existing.push(template.path);
+    }
+  }
+  if (existing.length > 0) {
+    throw new Error(`Template already exists: ${existing.join(', ')}`);
+  }
+
+  for (const template of templates) {
+    await mkdir(join(options.templateDir, template.language), {
+      recursive: true,
+    });
+    await writeFile(
+      template.path,
+      createTemplateSkeleton(templateName, template.language),
+      { flag: 'wx' },
+    );
+  }
+
+  return templates;
+};
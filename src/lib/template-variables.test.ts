@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  extractPlaceholders,
+  findMissingVariables,
+  parseVariableAssignments,
+  renderTemplate,
+} from './template-variables.js';
+
+describe('template-variables', () => {
+  describe('extractPlaceholders', () => {
+    it('should extract placeholders with and without defaults', () => {
+      const placeholders = extractPlaceholders(
+        'Project {{projectName}} written in {{ language | TypeScript }}',
+      );
+
+      expect(placeholders).toEqual([
+        { name: 'projectName' },
+        { name: 'language', defaultValue: 'TypeScript' },
+      ]);
+    });
+
+    it('should report each placeholder name only once', () => {
+      const placeholders = extractPlaceholders(
+        '{{name}} and {{name|fallback}} and {{name}}',
+      );
+
+      expect(placeholders).toEqual([
+        { name: 'name', defaultValue: 'fallback' },
+      ]);
+    });
+
+    it('should return an empty array when there are no placeholders', () => {
+      expect(extractPlaceholders('# Plain template')).toEqual([]);
+    });
+  });
+
+  describe('renderTemplate', () => {
+    it('should substitute provided values over defaults', () => {
+      const result = renderTemplate('Review this {{language|code}}', {
+        language: 'Go',
+      });
+
+      expect(result.content).toBe('Review this Go');
+      expect(result.unresolved).toEqual([]);
+    });
+
+    it('should fall back to inline defaults', () => {
+      const result = renderTemplate('Review this {{ language | code }}', {});
+
+      expect(result.content).toBe('Review this code');
+    });
+
+    it('should leave unresolved placeholders untouched and report them', () => {
+      const result = renderTemplate('{{projectName}} / {{projectName}}', {});
+
+      expect(result.content).toBe('{{projectName}} / {{projectName}}');
+      expect(result.unresolved).toEqual(['projectName']);
+    });
+  });
+
+  describe('findMissingVariables', () => {
+    it('should list placeholders lacking both value and default', () => {
+      const missing = findMissingVariables(
+        [
+          { name: 'projectName' },
+          { name: 'language', defaultValue: 'code' },
+          { name: 'owner' },
+          { name: 'projectName' },
+        ],
+        { owner: 'atman' },
+      );
+
+      expect(missing).toEqual(['projectName']);
+    });
+  });
+
+  describe('parseVariableAssignments', () => {
+    it('should parse key=value assignments', () => {
+      expect(
+        parseVariableAssignments(['projectName=atman', 'query=a=b', 'empty=']),
+      ).toEqual({ projectName: 'atman', query: 'a=b', empty: '' });
+    });
+
+    it('should let later assignments override earlier ones', () => {
+      expect(parseVariableAssignments(['name=first', 'name=second'])).toEqual({
+        name: 'second',
+      });
+    });
+
+    it('should reject assignments without a key', () => {
+      expect(() => parseVariableAssignments(['=value'])).toThrow(
+        /expected key=value/,
+      );
+      expect(() => parseVariableAssignments(['novalue'])).toThrow(
+        /expected key=value/,
+      );
+    });
+
+    it('should reject invalid variable names', () => {
+      expect(() => parseVariableAssignments(['bad name=value'])).toThrow(
+        /Invalid variable name/,
+      );
+    });
+  });
+});
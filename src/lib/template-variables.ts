@@ -0,0 +1,134 @@
+/**
+ * Variable placeholder support for prompt templates.
+ * Placeholders use the `{{name}}` syntax with an optional default value
+ * written as `{{name|default value}}`.
+ */
+
+// Type definitions for template variables
+export type TemplatePlaceholder = {
+  readonly name: string;
+  readonly defaultValue?: string;
+};
+
+export type TemplateVariables = Readonly<Record<string, string>>;
+
+export type RenderResult = {
+  readonly content: string;
+  readonly unresolved: readonly string[];
+};
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([A-Za-z_][\w-]*)\s*(?:\|([^}]*))?\}\}/g;
+
+const VARIABLE_NAME_PATTERN = /^[A-Za-z_][\w-]*$/;
+
+/**
+ * Extracts the unique placeholders used in template content.
+ * When the same name appears several times, the first default value wins.
+ */
+export const extractPlaceholders = (
+  content: string,
+): readonly TemplatePlaceholder[] => {
+  const placeholders = new Map<string, TemplatePlaceholder>();
+
+  for (const match of content.matchAll(PLACEHOLDER_PATTERN)) {
+    const name = match[1];
+    const defaultValue = match[2]?.trim();
+    const existing = placeholders.get(name);
+
+    if (!existing) {
+      placeholders.set(
+        name,
+        defaultValue === undefined ? { name } : { name, defaultValue },
+      );
+    } else if (existing.defaultValue === undefined && defaultValue) {
+      placeholders.set(name, { name, defaultValue });
+    }
+  }
+
+  return [...placeholders.values()];
+};
+
+/**
+ * Replaces placeholders with the provided values or their inline defaults.
+ * Placeholders without a value or default are left untouched and reported.
+ */
+export const renderTemplate = (
+  content: string,
+  variables: TemplateVariables,
+): RenderResult => {
+  const unresolved = new Set<string>();
+
+  const rendered = content.replace(
+    PLACEHOLDER_PATTERN,
+    (placeholder, name: string, defaultValue: string | undefined) => {
+      if (Object.hasOwn(variables, name)) {
+        return variables[name];
+      }
+      if (defaultValue !== undefined) {
+        return defaultValue.trim();
+      }
+      unresolved.add(name);
+      return placeholder;
+    },
+  );
+
+  return {
+    content: rendered,
+    unresolved: [...unresolved],
+  };
+};
+
+/**
+ * Returns the placeholder names that have neither a provided value nor a default
+ */
+export const findMissingVariables = (
+  placeholders: readonly TemplatePlaceholder[],
+  variables: TemplateVariables,
+): readonly string[] => {
+  const missing = placeholders
+    .filter(
+      (placeholder) =>
+        placeholder.defaultValue === undefined &&
+        !Object.hasOwn(variables, placeholder.name),
+    )
+    .map((placeholder) => placeholder.name);
+
+  return [...new Set(missing)];
+};
+
+/**
+ * Checks whether a name can be used as a template variable
+ */
+export const isValidVariableName = (name: string): boolean =>
+  VARIABLE_NAME_PATTERN.test(name);
+
+/**
+ * Parses `key=value` assignments given on the command line
+ * @param assignments - Raw assignments such as ['projectName=atman']
+ * @returns The parsed variables, later assignments overriding earlier ones
+ */
+export const parseVariableAssignments = (
+  assignments: readonly string[],
+): TemplateVariables => {
+  const variables: Record<string, string> = {};
+
+  for (const assignment of assignments) {
+    const separatorIndex = assignment.indexOf('=');
+    if (separatorIndex <= 0) {
+      throw new Error(
+        `Invalid variable assignment "${assignment}": expected key=value`,
+      );
+    }
+
+    const name = assignment.slice(0, separatorIndex).trim();
+    if (!isValidVariableName(name)) {
+      throw new Error(
+        `Invalid variable name "${name}": use letters, digits, "_" or "-"`,
+      );
+    }
+
+    variables[name] = assignment.slice(separatorIndex + 1);
+  }
+
+  return variables;
+};
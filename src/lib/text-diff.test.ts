@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import {
+  diffLines,
+  formatDiff,
+  mergeThreeWay,
+  splitLines,
+} from './text-diff.js';
+
+describe('text-diff', () => {
+  describe('splitLines', () => {
+    it('should split lines and ignore a trailing newline', () => {
+      expect(splitLines('a\nb\n')).toEqual(['a', 'b']);
+      expect(splitLines('a\r\nb')).toEqual(['a', 'b']);
+      expect(splitLines('')).toEqual([]);
+    });
+  });
+
+  describe('diffLines', () => {
+    it('should report equal, removed and added lines', () => {
+      expect(diffLines('a\nb\nc', 'a\nx\nc')).toEqual([
+        { type: 'equal', text: 'a' },
+        { type: 'removed', text: 'b' },
+        { type: 'added', text: 'x' },
+        { type: 'equal', text: 'c' },
+      ]);
+    });
+
+    it('should handle empty inputs', () => {
+      expect(diffLines('', 'a')).toEqual([{ type: 'added', text: 'a' }]);
+      expect(diffLines('a', '')).toEqual([{ type: 'removed', text: 'a' }]);
+    });
+  });
+
+  describe('formatDiff', () => {
+    it('should prefix lines and collapse distant unchanged lines', () => {
+      const oldText = ['1', '2', '3', '4', '5', '6', '7'].join('\n');
+      const newText = ['1', '2', '3', '4', '5', '6', 'seven'].join('\n');
+
+      expect(formatDiff(diffLines(oldText, newText), 1)).toEqual([
+        '...',
+        '  6',
+        '- 7',
+        '+ seven',
+      ]);
+    });
+  });
+
+  describe('mergeThreeWay', () => {
+    const base = ['# Title', 'intro', '', '## Steps', 'one', 'two', ''].join(
+      '\n',
+    );
+
+    it('should apply changes made on either side', () => {
+      const ours = base.replace('intro', 'my intro');
+      const theirs = base.replace('two', 'two\nthree');
+
+      expect(mergeThreeWay(base, ours, theirs)).toEqual({
+        content: [
+          '# Title',
+          'my intro',
+          '',
+          '## Steps',
+          'one',
+          'two',
+          'three',
+          '',
+        ].join('\n'),
+        conflicts: 0,
+      });
+    });
+
+    it('should accept identical changes on both sides', () => {
+      const changed = base.replace('one', 'first');
+
+      expect(mergeThreeWay(base, changed, changed)).toEqual({
+        content: changed,
+        conflicts: 0,
+      });
+    });
+
+    it('should mark overlapping changes as conflicts', () => {
+      const ours = base.replace('one', 'mine');
+      const theirs = base.replace('one', 'theirs');
+
+      const result = mergeThreeWay(base, ours, theirs, {
+        ours: 'local',
+        theirs: 'updated template',
+      });
+
+      expect(result.conflicts).toBe(1);
+      expect(splitLines(result.content)).toEqual([
+        '# Title',
+        'intro',
+        '',
+        '## Steps',
+        '<<<<<<< local',
+        'mine',
+        '=======',
+        'theirs',
+        '>>>>>>> updated template',
+        'two',
+      ]);
+    });
+
+    it('should merge lines appended at the end', () => {
+      const result = mergeThreeWay('a\n', 'a\nlocal\n', 'a\n');
+
+      expect(result).toEqual({ content: 'a\nlocal\n', conflicts: 0 });
+    });
+
+    it('should merge the trailing newline like a line', () => {
+      expect(mergeThreeWay('a\n', 'a\n', 'a').content).toBe('a');
+      expect(mergeThreeWay('a', 'a\n', 'a').content).toBe('a\n');
+    });
+  });
+});
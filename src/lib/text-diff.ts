@@ -0,0 +1,248 @@
+/**
+ * Line-based text diffing and merging used for conflict previews and updates.
+ */
+
+// Type definitions for diff output
+export type DiffLine = {
+  readonly type: 'equal' | 'added' | 'removed';
+  readonly text: string;
+};
+
+export type MergeResult = {
+  readonly content: string;
+  readonly conflicts: number;
+};
+
+export type MergeLabels = {
+  readonly ours: string;
+  readonly theirs: string;
+};
+
+/**
+ * Split text into lines, ignoring a single trailing newline
+ */
+export const splitLines = (text: string): readonly string[] => {
+  if (text === '') {
+    return [];
+  }
+  return text.replace(/\r?\n$/, '').split(/\r?\n/);
+};
+
+/**
+ * Compute the longest common subsequence table of two line arrays.
+ * lengths[i][j] holds the LCS length of a[i..] and b[j..].
+ */
+const buildLcsTable = (
+  a: readonly string[],
+  b: readonly string[],
+): number[][] => {
+  const lengths: number[][] = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  return lengths;
+};
+
+/**
+ * Compute a line diff between two texts using the longest common subsequence
+ * @param oldText - The original text
+ * @param newText - The updated text
+ * @returns Diff lines in order, removals listed before additions
+ */
+export const diffLines = (
+  oldText: string,
+  newText: string,
+): readonly DiffLine[] => {
+  const oldLines = splitLines(oldText);
+  const newLines = splitLines(newText);
+  const lengths = buildLcsTable(oldLines, newLines);
+
+  const diff: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < oldLines.length && j < newLines.length) {
+    if (oldLines[i] === newLines[j]) {
+      diff.push({ type: 'equal', text: oldLines[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      diff.push({ type: 'removed', text: oldLines[i] });
+      i++;
+    } else {
+      diff.push({ type: 'added', text: newLines[j] });
+      j++;
+    }
+  }
+  while (i < oldLines.length) {
+    diff.push({ type: 'removed', text: oldLines[i++] });
+  }
+  while (j < newLines.length) {
+    diff.push({ type: 'added', text: newLines[j++] });
+  }
+
+  return diff;
+};
+
+/**
+ * Map every line of a to the index of its matching line in b (or -1)
+ */
+const matchLines = (
+  a: readonly string[],
+  b: readonly string[],
+): readonly number[] => {
+  const lengths = buildLcsTable(a, b);
+  const matches = new Array<number>(a.length).fill(-1);
+
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      matches[i] = j;
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  return matches;
+};
+
+const sameLines = (a: readonly string[], b: readonly string[]): boolean =>
+  a.length === b.length && a.every((line, index) => line === b[index]);
+
+/**
+ * Merge two versions of a text that both derive from a common base.
+ * Changes made on only one side are applied; overlapping changes that differ
+ * are written as a conflict block with git-style markers.
+ * @param base - The common ancestor
+ * @param ours - The locally edited version
+ * @param theirs - The updated upstream version
+ * @param labels - Labels shown on the conflict markers
+ * @returns The merged text and the number of conflict blocks
+ */
+export const mergeThreeWay = (
+  base: string,
+  ours: string,
+  theirs: string,
+  labels: MergeLabels = { ours: 'local', theirs: 'template' },
+): MergeResult => {
+  const baseLines = splitLines(base);
+  const ourLines = splitLines(ours);
+  const theirLines = splitLines(theirs);
+  const ourMatches = matchLines(baseLines, ourLines);
+  const theirMatches = matchLines(baseLines, theirLines);
+
+  const merged: string[] = [];
+  let conflicts = 0;
+  let i = 0;
+  let j = 0;
+  let k = 0;
+
+  const resolveChunk = (
+    baseChunk: readonly string[],
+    ourChunk: readonly string[],
+    theirChunk: readonly string[],
+  ): void => {
+    if (sameLines(ourChunk, baseChunk)) {
+      merged.push(...theirChunk);
+    } else if (
+      sameLines(theirChunk, baseChunk) ||
+      sameLines(ourChunk, theirChunk)
+    ) {
+      merged.push(...ourChunk);
+    } else {
+      conflicts++;
+      merged.push(
+        `<<<<<<< ${labels.ours}`,
+        ...ourChunk,
+        '=======',
+        ...theirChunk,
+        `>>>>>>> ${labels.theirs}`,
+      );
+    }
+  };
+
+  while (i <= baseLines.length) {
+    // Find the next base line kept unchanged on both sides
+    let m = i;
+    while (
+      m < baseLines.length &&
+      (ourMatches[m] === -1 || theirMatches[m] === -1)
+    ) {
+      m++;
+    }
+
+    const ourEnd = m < baseLines.length ? ourMatches[m] : ourLines.length;
+    const theirEnd = m < baseLines.length ? theirMatches[m] : theirLines.length;
+    resolveChunk(
+      baseLines.slice(i, m),
+      ourLines.slice(j, ourEnd),
+      theirLines.slice(k, theirEnd),
+    );
+
+    if (m === baseLines.length) {
+      break;
+    }
+
+    merged.push(baseLines[m]);
+    i = m + 1;
+    j = ourEnd + 1;
+    k = theirEnd + 1;
+  }
+
+  // The trailing newline is merged like a line: a local change wins
+  const endsWithNewline = (text: string) => text.endsWith('\n');
+  const trailingNewline =
+    merged.length > 0 &&
+    (endsWithNewline(ours) !== endsWithNewline(base)
+      ? endsWithNewline(ours)
+      : endsWithNewline(theirs));
+
+  return {
+    content: `${merged.join('\n')}${trailingNewline ? '\n' : ''}`,
+    conflicts,
+  };
+};
+
+/**
+ * Format a diff for display, keeping only a few lines of context around changes
+ * @param diff - The diff to format
+ * @param context - Number of unchanged lines to keep around each change
+ * @returns The formatted lines prefixed with '+', '-' or ' '
+ */
+export const formatDiff = (
+  diff: readonly DiffLine[],
+  context = 2,
+): readonly string[] => {
+  const changed = diff.map((line) => line.type !== 'equal');
+  const visible = diff.map((_line, index) =>
+    changed
+      .slice(Math.max(0, index - context), index + context + 1)
+      .some(Boolean),
+  );
+
+  const formatted: string[] = [];
+  diff.forEach((line, index) => {
+    if (!visible[index]) {
+      if (index === 0 || visible[index - 1]) {
+        formatted.push('...');
+      }
+      return;
+    }
+    const prefix =
+      line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' ';
+    formatted.push(`${prefix} ${line.text}`);
+  });
+
+  return formatted;
+};
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import {
+  checkTokenBudget,
+  estimateTokens,
+  findTokenBudget,
+  formatTokenCount,
+} from './token-estimate.js';
+
+describe('token-estimate', () => {
+  describe('estimateTokens', () => {
+    it('should return 0 for empty or blank text', () => {
+      expect(estimateTokens('')).toBe(0);
+      expect(estimateTokens(' \n\t')).toBe(0);
+    });
+
+    it('should count English words by length', () => {
+      expect(estimateTokens('a code review')).toBe(4);
+      expect(estimateTokens('internationalization')).toBe(5);
+    });
+
+    it('should count numbers and symbols', () => {
+      expect(estimateTokens('12345')).toBe(2);
+      expect(estimateTokens('## Title!')).toBe(4);
+      expect(estimateTokens('**bold**')).toBe(3);
+    });
+
+    it('should count kanji per character and kana in runs', () => {
+      expect(estimateTokens('日本語')).toBe(3);
+      expect(estimateTokens('ありがとう')).toBe(4);
+      expect(estimateTokens('コードを確認')).toBe(5);
+    });
+
+    it('should not count Japanese after Latin letters as one word', () => {
+      const suffix = 'で書かれたコードをレビューしてください';
+
+      expect(estimateTokens('API設計レビュー')).toBe(6);
+      expect(estimateTokens(`TypeScript${suffix}`)).toBe(
+        estimateTokens('TypeScript') + estimateTokens(suffix),
+      );
+    });
+
+    it('should estimate more tokens per character for Japanese', () => {
+      const english = 'Please review the following code carefully.';
+      const japanese = '以下のコードを注意深くレビューしてください。';
+
+      expect(estimateTokens(japanese) / japanese.length).toBeGreaterThan(
+        estimateTokens(english) / english.length,
+      );
+    });
+  });
+
+  describe('formatTokenCount', () => {
+    it('should format counts with thousands separators', () => {
+      expect(formatTokenCount(1234)).toBe('~1,234 tokens');
+    });
+  });
+
+  describe('findTokenBudget', () => {
+    it('should prefer exact names over patterns', () => {
+      const budgets = { '*': 1000, 'code-review': 500 };
+
+      expect(findTokenBudget('code-review.md', budgets)).toBe(500);
+      expect(findTokenBudget('debugging.md', budgets)).toBe(1000);
+    });
+
+    it('should use the first matching pattern', () => {
+      const budgets = { 'code-*': 300, '*': 1000 };
+
+      expect(findTokenBudget('code-style.md', budgets)).toBe(300);
+      expect(
+        findTokenBudget('debugging.md', { 'code-*': 300 }),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('checkTokenBudget', () => {
+    it('should report whether the budget is exceeded', () => {
+      expect(checkTokenBudget('a.md', 'one two six', { a: 2 })).toEqual({
+        tokens: 3,
+        budget: 2,
+        exceeded: true,
+      });
+      expect(checkTokenBudget('a.md', 'one two six', {})).toEqual({
+        tokens: 3,
+        exceeded: false,
+      });
+    });
+  });
+});
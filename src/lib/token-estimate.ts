@@ -0,0 +1,100 @@
+/**
+ * Token count estimation for prompts, using a local heuristic instead of a
+ * model tokenizer. The estimate roughly follows the BPE tokenizers of current
+ * models for English and Japanese text.
+ */
+
+import { matchesTemplatePattern } from './template-filter.js';
+
+/** Token budgets by template name or glob pattern */
+export type TokenBudgets = Readonly<Record<string, number>>;
+
+export type TokenBudgetCheck = {
+  readonly tokens: number;
+  readonly budget?: number;
+  readonly exceeded: boolean;
+};
+
+/**
+ * - kanji: one token per character
+ * - kana: runs of hiragana and katakana, about 1.5 characters per token
+ * - word: runs of other letters, about 4 characters per token; Japanese
+ *   characters end a word, so mixed text such as "API設計" is split
+ * - number: runs of digits, up to 3 digits per token
+ * - symbol: any other visible character, one token per run of the same
+ *   character so that markdown such as `##` or `**` counts once
+ */
+const TOKEN_PATTERN =
+  /(?<kanji>\p{Script=Han})|(?<kana>[\p{Script=Hiragana}\p{Script=Katakana}ー]+)|(?<word>(?:(?![\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}ー])[\p{L}\p{M}])+)|(?<number>\p{N}+)|(?<symbol>(?<char>\S)\k<char>*)/gu;
+
+/**
+ * Estimates the number of tokens a model would read for a text
+ * @param text - English, Japanese or mixed text
+ * @returns The estimated token count
+ */
+export const estimateTokens = (text: string): number => {
+  let tokens = 0;
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const { kana, word, number } = match.groups ?? {};
+    if (kana) {
+      tokens += Math.ceil(kana.length / 1.5);
+    } else if (word) {
+      tokens += Math.ceil(word.length / 4);
+    } else if (number) {
+      tokens += Math.ceil(number.length / 3);
+    } else {
+      tokens += 1;
+    }
+  }
+
+  return tokens;
+};
+
+/**
+ * Formats a token count for display, e.g. "~1,234 tokens"
+ */
+export const formatTokenCount = (tokens: number): string =>
+  `~${tokens.toLocaleString('en-US')} tokens`;
+
+/**
+ * Finds the budget of a template. A budget for the exact template name
+ * takes precedence over glob patterns, which apply in configuration order.
+ * @param fileName - The template file name
+ * @param budgets - The configured budgets
+ * @returns The budget, or undefined when none applies
+ */
+export const findTokenBudget = (
+  fileName: string,
+  budgets: TokenBudgets,
+): number | undefined => {
+  const patterns = Object.keys(budgets);
+  const pattern =
+    patterns.find(
+      (pattern) =>
+        !/[*?]/.test(pattern) && matchesTemplatePattern(fileName, pattern),
+    ) ?? patterns.find((pattern) => matchesTemplatePattern(fileName, pattern));
+
+  return pattern === undefined ? undefined : budgets[pattern];
+};
+
+/**
+ * Estimates the tokens of a prompt and compares them with its budget
+ * @param fileName - The template file name, used to find the budget
+ * @param content - The prompt content
+ * @param budgets - The configured budgets
+ */
+export const checkTokenBudget = (
+  fileName: string,
+  content: string,
+  budgets: TokenBudgets,
+): TokenBudgetCheck => {
+  const tokens = estimateTokens(content);
+  const budget = findTokenBudget(fileName, budgets);
+
+  return {
+    tokens,
+    ...(budget !== undefined && { budget }),
+    exceeded: budget !== undefined && tokens > budget,
+  };
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { parseTemplate } from './template-generator.js';
+import {
+  checkTranslationParity,
+  extractHeadingLevels,
+} from './translation-parity.js';
+
+describe('translation-parity', () => {
+  describe('extractHeadingLevels', () => {
+    it('should list ## and deeper headings outside code blocks', () => {
+      const content = [
+        '# Title',
+        '## Overview',
+        '### Details',
+        '```markdown',
+        '## Not a heading',
+        '```',
+        '## Output',
+        '##NoSpace',
+      ].join('\n');
+
+      expect(extractHeadingLevels(content)).toEqual([2, 3, 2]);
+    });
+  });
+
+  describe('checkTranslationParity', () => {
+    const en = parseTemplate(
+      'review.md',
+      'en',
+      '# Review\n\n## Scope\n{{language}}\n\n## Output\n',
+    );
+
+    const check = (ja: readonly ReturnType<typeof parseTemplate>[]) =>
+      checkTranslationParity(
+        new Map([
+          ['en', [en]],
+          ['ja', ja],
+        ]),
+      );
+
+    it('should report no issues for matching translations', () => {
+      const ja = parseTemplate(
+        'review.md',
+        'ja',
+        '# レビュー\n\n## 範囲\n{{language}}\n\n## 出力\n',
+      );
+
+      expect(check([ja])).toEqual({ languages: ['en', 'ja'], issues: [] });
+    });
+
+    it('should report templates missing in a language', () => {
+      const extra = parseTemplate('extra.md', 'ja', '# Extra\n');
+
+      expect(check([extra]).issues).toEqual([
+        {
+          template: 'extra.md',
+          language: 'en',
+          referenceLanguage: 'ja',
+          kind: 'missing',
+          message: 'missing (present in ja)',
+        },
+        {
+          template: 'review.md',
+          language: 'ja',
+          referenceLanguage: 'en',
+          kind: 'missing',
+          message: 'missing (present in en)',
+        },
+      ]);
+    });
+
+    it('should report different numbers of sections', () => {
+      const ja = parseTemplate(
+        'review.md',
+        'ja',
+        '# レビュー\n\n## 範囲\n{{language}}\n',
+      );
+
+      expect(check([ja]).issues).toEqual([
+        expect.objectContaining({
+          kind: 'headings',
+          message: 'has 1 ## sections, en has 2',
+        }),
+      ]);
+    });
+
+    it('should report reordered heading structures', () => {
+      const ja = parseTemplate(
+        'review.md',
+        'ja',
+        '# レビュー\n\n## 範囲\n{{language}}\n\n### 詳細\n\n## 出力\n',
+      );
+
+      expect(check([ja]).issues).toEqual([
+        expect.objectContaining({
+          kind: 'headings',
+          message: 'heading structure differs from en: ## ### ## vs ## ##',
+        }),
+      ]);
+    });
+
+    it('should report mismatched placeholders', () => {
+      const ja = parseTemplate(
+        'review.md',
+        'ja',
+        '# レビュー\n\n## 範囲\n{{lang}}\n\n## 出力\n',
+      );
+
+      expect(check([ja]).issues).toEqual([
+        expect.objectContaining({
+          kind: 'placeholders',
+          message:
+            'placeholders differ from en: missing {{language}}; extra {{lang}}',
+        }),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * Translation parity checks between the language versions of each template.
+ */
+
+import { extractHeadings } from './markdown-outline.js';
+import type { PromptTemplate } from './template-generator.js';
+
+// Type definitions for parity reports
+/**
+ * - missing: the template exists in another language but not in this one
+ * - headings: the ## section structure differs from the reference version
+ * - placeholders: the set of placeholders differs from the reference version
+ */
+export type ParityIssueKind = 'missing' | 'headings' | 'placeholders';
+
+export type ParityIssue = {
+  readonly template: string;
+  readonly language: string;
+  /** The language the template was compared with */
+  readonly referenceLanguage: string;
+  readonly kind: ParityIssueKind;
+  readonly message: string;
+};
+
+export type ParityReport = {
+  readonly languages: readonly string[];
+  readonly issues: readonly ParityIssue[];
+};
+
+/**
+ * Lists the heading levels of the ## and deeper sections of a template body,
+ * ignoring lines inside fenced code blocks
+ * @param content - The template body
+ * @returns The heading levels in document order, e.g. [2, 3, 2]
+ */
+export const extractHeadingLevels = (content: string): readonly number[] =>
+  extractHeadings(content)
+    .map((heading) => heading.level)
+    .filter((level) => level >= 2);
+
+const formatOutline = (levels: readonly number[]): string =>
+  levels.map((level) => '#'.repeat(level)).join(' ') || '(none)';
+
+/**
+ * Describe how the heading structure of a translation differs, if it does
+ */
+const compareHeadings = (
+  template: PromptTemplate,
+  reference: PromptTemplate,
+): string | undefined => {
+  const levels = extractHeadingLevels(template.content);
+  const referenceLevels = extractHeadingLevels(reference.content);
+  const sectionCount = levels.filter((level) => level === 2).length;
+  const referenceSectionCount = referenceLevels.filter(
+    (level) => level === 2,
+  ).length;
+
+  if (sectionCount !== referenceSectionCount) {
+    return `has ${sectionCount} ## sections, ${reference.language} has ${referenceSectionCount}`;
+  }
+  if (formatOutline(levels) !== formatOutline(referenceLevels)) {
+    return `heading structure differs from ${reference.language}: ${formatOutline(levels)} vs ${formatOutline(referenceLevels)}`;
+  }
+  return undefined;
+};
+
+/**
+ * Describe how the placeholders of a translation differ, if they do
+ */
+const comparePlaceholders = (
+  template: PromptTemplate,
+  reference: PromptTemplate,
+): string | undefined => {
+  const names = new Set(template.placeholders.map(({ name }) => name));
+  const referenceNames = new Set(
+    reference.placeholders.map(({ name }) => name),
+  );
+  const missing = [...referenceNames].filter((name) => !names.has(name));
+  const extra = [...names].filter((name) => !referenceNames.has(name));
+
+  const differences = [
+    ...(missing.length > 0
+      ? [`missing ${missing.map((name) => `{{${name}}}`).join(', ')}`]
+      : []),
+    ...(extra.length > 0
+      ? [`extra ${extra.map((name) => `{{${name}}}`).join(', ')}`]
+      : []),
+  ];
+
+  return differences.length > 0
+    ? `placeholders differ from ${reference.language}: ${differences.join('; ')}`
+    : undefined;
+};
+
+/**
+ * Compare the language versions of every template. Each template is checked
+ * against its version in the first listed language that has it.
+ * @param templatesByLanguage - The templates of each language, reference language first
+ * @returns The issues sorted by template and language
+ */
+export const checkTranslationParity = (
+  templatesByLanguage: ReadonlyMap<string, readonly PromptTemplate[]>,
+): ParityReport => {
+  const languages = [...templatesByLanguage.keys()];
+  const fileNames = [
+    ...new Set(
+      [...templatesByLanguage.values()].flatMap((templates) =>
+        templates.map((template) => template.fileName),
+      ),
+    ),
+  ].sort();
+  const issues: ParityIssue[] = [];
+
+  for (const fileName of fileNames) {
+    const versions = languages.map((language) => ({
+      language,
+      template: templatesByLanguage
+        .get(language)
+        ?.find((template) => template.fileName === fileName),
+    }));
+    const reference = versions.find(({ template }) => template)?.template;
+    if (!reference) {
+      continue;
+    }
+
+    for (const { language, template } of versions) {
+      if (template === reference) {
+        continue;
+      }
+
+      const issue = {
+        template: fileName,
+        language,
+        referenceLanguage: reference.language,
+      };
+      if (!template) {
+        issues.push({
+          ...issue,
+          kind: 'missing',
+          message: `missing (present in ${reference.language})`,
+        });
+        continue;
+      }
+
+      const headingDifference = compareHeadings(template, reference);
+      if (headingDifference) {
+        issues.push({ ...issue, kind: 'headings', message: headingDifference });
+      }
+      const placeholderDifference = comparePlaceholders(template, reference);
+      if (placeholderDifference) {
+        issues.push({
+          ...issue,
+          kind: 'placeholders',
+          message: placeholderDifference,
+        });
+      }
+    }
+  }
+
+  return { languages, issues };
+};